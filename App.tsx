@@ -1,6 +1,20 @@
 
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { TranscriptionSegment, AnalysisResult, AppMode, CalendarEvent, Session } from './types';
+import { 
+  TranscriptionSegment, 
+  AnalysisResult, 
+  AnalysisTemplate, 
+  TemplateAnalysis, 
+  ActionItem, 
+  ChatMessage, 
+  AppMode, 
+  CalendarEvent, 
+  CalendarFeed, 
+  LibraryFolder, 
+  PostProcessingRule, 
+  Session, 
+  ImportJob 
+} from './types';
 import { 
   StatusBadge, 
   SegmentCard, 
@@ -10,16 +24,174 @@ import {
   EventCard,
   SettingsScreen
 } from './components/TranscriberUI';
-import { summarizeTranscript } from './services/geminiService';
-import { transcribeWithGroq } from './services/groqService';
+import { FileImportScreen } from './components/FileImportScreen';
+import { SpeakerPanel } from './components/SpeakerPanel';
+import { SessionPlayer } from './components/SessionPlayer';
+import { ExportMenu } from './components/ExportMenu';
+import { SearchScreen } from './components/SearchScreen';
+import { AnalysisReport } from './components/AnalysisReport';
+import { TemplateManager } from './components/TemplateManager';
+import { ActionTracker } from './components/ActionTracker';
+import { NotionSettings } from './components/NotionSettings';
+import { TranscriptionSettings } from './components/TranscriptionSettings';
+import { CalendarScreen } from './components/CalendarScreen';
+import { CalendarFeeds } from './components/CalendarFeeds';
+import { MeetingAutomationSettings } from './components/MeetingAutomationSettings';
+import { SegmentEditor } from './components/SegmentEditor';
+import { TranscriptEditBar } from './components/TranscriptEditBar';
+import { RevisionHistory } from './components/RevisionHistory';
+import { VocabularySettings } from './components/VocabularySettings';
+import { PostProcessingRules } from './components/PostProcessingRules';
+import { AssistantSettings } from './components/AssistantSettings';
+import { VaultSettings } from './components/VaultSettings';
+import { BackupSettings } from './components/BackupSettings';
+import { SyncSettings } from './components/SyncSettings';
+import { JobQueueStatus } from './components/JobQueueStatus';
+import { ChatPanel, ChatScope } from './components/ChatPanel';
+import { LibraryScreen } from './components/LibraryScreen';
+import { SessionTitle } from './components/SessionTitle';
+import { SessionOrganizer } from './components/SessionOrganizer';
+import { 
+  getTranscriptionSettings, 
+  saveTranscriptionSettings, 
+  getTranscriptionProvider, 
+  transcriptionSetupProblem, 
+  withDetectedLanguage, 
+  PROVIDER_LABELS, 
+  TranscriptionProvider, 
+  TranscriptionSettings as TranscriptionConfig 
+} from './services/transcriptionService';
+import { buildSpeakerSegments, formatTranscript, listSpeakers, speakerName } from './services/diarizationService';
 import { 
   getStoredSchedule, 
   findActiveEvent, 
   parseICS,
   saveSchedule,
-  filterUpcomingEvents
+  filterUpcomingEvents,
+  replaceManualEvents, 
+  getFeeds, 
+  saveFeeds, 
+  syncFeeds, 
+  FEED_REFRESH_MS
 } from './services/calendarService';
-import { getSessions, saveSession, deleteSession } from './services/storageService';
+import { getFeedRelaySettings, saveFeedRelaySettings, FeedRelaySettings } from './services/feedRelayService';
+import { 
+  getAutomationSettings, 
+  saveAutomationSettings, 
+  requestNotificationPermission, 
+  dueReminders, 
+  eventToAutoStart, 
+  showReminder, 
+  MeetingAutomationSettings as AutomationConfig 
+} from './services/reminderService';
+import { getSessions, getSessionsBetween, getSession, saveSession, deleteSession, SESSION_PAGE_SIZE } from './services/storageService';
+import { saveAudio, getAudio, deleteAudio } from './services/audioStorageService';
+import { 
+  indexSession, 
+  removeSessionFromIndex, 
+  ensureSearchIndex, 
+  isSearchIndexBuilt, 
+  resetSearchIndex, 
+  setTrackedActionItems, 
+  searchSessions, 
+  indexedSpeakers, 
+  SearchFilters 
+} from './services/searchService';
+import { 
+  getTemplates, 
+  saveTemplate, 
+  deleteTemplate, 
+  runTemplateAnalysis, 
+  summarizeTranscript, 
+  SUMMARY_TEMPLATE_ID 
+} from './services/analysisService';
+import { 
+  getActionItems, 
+  saveActionItem, 
+  deleteActionItemsForSession, 
+  extractActionItems, 
+  mergeActionItems 
+} from './services/actionItemService';
+import { 
+  editSegmentText, 
+  splitSegment, 
+  mergeWithNext, 
+  replaceAll, 
+  recordRevision, 
+  insertTranscribedSegments, 
+  revertToRevision, 
+  restoreOriginal, 
+  FindOptions 
+} from './services/transcriptEditService';
+import { 
+  getVocabulary, 
+  saveVocabulary, 
+  vocabularyPrompt, 
+  getRules, 
+  saveRules, 
+  postProcessSegments, 
+  previewRules 
+} from './services/postProcessingService';
+import { askSession, askLibrary } from './services/chatService';
+import { 
+  getFolders, 
+  saveFolders, 
+  libraryTags, 
+  suggestTags, 
+  DEFAULT_LIBRARY_FILTERS, 
+  LibraryFilters 
+} from './services/libraryService';
+import { getLlmSettings, saveLlmSettings, llmSetupProblem, LlmSettings, LlmSetupError } from './services/llmClient';
+import { 
+  getSecret, 
+  setSecret, 
+  isVaultEnabled, 
+  enableVault, 
+  disableVault, 
+  changePassphrase, 
+  lockVault 
+} from './services/vaultService';
+import { downloadSession, downloadSessionsZip, ExportFormat } from './services/exportService';
+import { buildArchive, downloadArchive, parseArchive, planImport, applyImport, ConflictStrategy, ImportPlan } from './services/backupService';
+import { 
+  enqueueJob, 
+  completeJob, 
+  failJob, 
+  retryJob, 
+  discardJob, 
+  discardSessionJobs, 
+  isJobQueued, 
+  getJobAudio, 
+  subscribeToJobs, 
+  startJobRunner, 
+  isOffline, 
+  isNetworkFailure, 
+  JobHandler, 
+  QueuedJob 
+} from './services/jobQueueService';
+import { 
+  getSyncSettings, 
+  saveSyncSettings, 
+  isSyncConfigured, 
+  syncWorkspace, 
+  SYNC_INTERVAL_MS, 
+  SyncSettings as SyncConfig 
+} from './services/syncService';
+import { 
+  getNotionSettings, 
+  saveNotionSettings, 
+  isNotionConfigured, 
+  publishSession, 
+  NotionSettings as NotionConfig 
+} from './services/notionService';
+import { 
+  startChunkedRecorder, 
+  recordedOffsetToTimestamp, 
+  splitAudioFile, 
+  readMediaDuration, 
+  AudioChunk, 
+  ChunkedRecorder 
+} from './services/chunkingService';
 
 const formatDuration = (seconds: number): string => {
   const mins = Math.floor(seconds / 60);
@@ -27,6 +199,15 @@ const formatDuration = (seconds: number): string => {
   return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
 };
 
+// Segment ids carry the chunk they came from, so a chunk retried out of order
+// can still find the text of its neighbours
+const chunkSegmentPrefix = (sessionId: string, index: number) => `seg-${sessionId}-${index}`;
+
+const chunkText = (session: Session, index: number) => session.segments
+  .filter(s => s.id.startsWith(`${chunkSegmentPrefix(session.id, index)}-`))
+  .map(s => s.text)
+  .join(' ');
+
 const App: React.FC = () => {
   const [mode, setMode] = useState<AppMode>(AppMode.HOME);
   const [isActive, setIsActive] = useState(false);
@@ -34,35 +215,81 @@ const App: React.FC = () => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [segments, setSegments] = useState<TranscriptionSegment[]>([]);
   const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
+  const [analyses, setAnalyses] = useState<TemplateAnalysis[]>([]);
+  const [actionItems, setActionItems] = useState<ActionItem[]>([]);
+  const [templates, setTemplates] = useState<AnalysisTemplate[]>(getTemplates);
+  const [selectedTemplateId, setSelectedTemplateId] = useState(SUMMARY_TEMPLATE_ID);
   const [error, setError] = useState<string | null>(null);
   const [currentStream, setCurrentStream] = useState<MediaStream | null>(null);
   const [pastSessions, setPastSessions] = useState<Session[]>([]);
+  const [hasMoreSessions, setHasMoreSessions] = useState(false);
   const [viewingSession, setViewingSession] = useState<Session | null>(null);
-  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
   const [schedule, setSchedule] = useState<CalendarEvent[]>([]);
+  const [calendarEvents, setCalendarEvents] = useState<CalendarEvent[]>([]);
+  const [feeds, setFeeds] = useState<CalendarFeed[]>(getFeeds);
+  const [feedRelay, setFeedRelay] = useState<FeedRelaySettings>(getFeedRelaySettings);
+  const [isSyncingFeeds, setIsSyncingFeeds] = useState(false);
+  const [calendarRange, setCalendarRange] = useState<{ from: number; to: number } | null>(null);
+  const [calendarSessions, setCalendarSessions] = useState<Session[]>([]);
+  const [vocabulary, setVocabulary] = useState<string[]>(getVocabulary);
+  const [rules, setRules] = useState<PostProcessingRule[]>(getRules);
+  const [isEditingTranscript, setIsEditingTranscript] = useState(false);
+  const [showRevisions, setShowRevisions] = useState(false);
+  const [automationSettings, setAutomationSettings] = useState<AutomationConfig>(getAutomationSettings);
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>({});
+  const [indexVersion, setIndexVersion] = useState(0);
+  const [focusSegmentId, setFocusSegmentId] = useState<string | null>(null);
   const [notification, setNotification] = useState<string | null>(null);
+  const [importJobs, setImportJobs] = useState<ImportJob[]>([]);
+  const [folders, setFolders] = useState<LibraryFolder[]>(getFolders);
+  const [libraryFilters, setLibraryFilters] = useState<LibraryFilters>(DEFAULT_LIBRARY_FILTERS);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [playbackMs, setPlaybackMs] = useState<number | null>(null);
   
   const [currentTime, setCurrentTime] = useState(new Date());
   const [recordingSeconds, setRecordingSeconds] = useState(0);
   const [sessionStartTime, setSessionStartTime] = useState<number | null>(null);
 
   const [config, setConfig] = useState({
-    groqKey: localStorage.getItem('groq_api_key') || '',
+    groqKey: getSecret('groq'),
   });
+  const [transcriptionSettings, setTranscriptionSettings] = useState<TranscriptionConfig>(getTranscriptionSettings);
+  const [notionSettings, setNotionSettings] = useState<NotionConfig>(getNotionSettings);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(getLlmSettings);
+  const [syncSettings, setSyncSettings] = useState<SyncConfig>(getSyncSettings);
+  const [isSyncingWorkspace, setIsSyncingWorkspace] = useState(false);
+  const [queuedJobs, setQueuedJobs] = useState<QueuedJob[]>([]);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [isChatOpen, setIsChatOpen] = useState(false);
+  const [chatScope, setChatScope] = useState<ChatScope>('session');
+  const [chatThreads, setChatThreads] = useState<Record<string, ChatMessage[]>>({});
+  const [isChatThinking, setIsChatThinking] = useState(false);
+  const [isVaultOn, setIsVaultOn] = useState(isVaultEnabled);
 
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const audioChunksRef = useRef<Blob[]>([]);
+  const chunkRecorderRef = useRef<ChunkedRecorder | null>(null);
+  const transcriptionProviderRef = useRef<TranscriptionProvider | null>(null);
+  const recordingEventRef = useRef<CalendarEvent | null>(null);
+  const announcedEventsRef = useRef(new Set<string>());
+  const autoStartedEventsRef = useRef(new Set<string>());
+  const liveSessionRef = useRef<Session | null>(null);
+  // Raw text of the last chunk that transcribed; a failed chunk leaves it behind
+  const lastChunkRef = useRef({ index: -1, text: '' });
+  const transcriptionQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const pendingChunksRef = useRef(0);
+  const importFilesRef = useRef(new Map<string, File>());
   const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
 
   // Auto-refresh timer for time display and schedule filtering
   useEffect(() => {
     const timer = setInterval(() => {
       const now = new Date();
       setCurrentTime(now);
-      // Clean up past events every minute
+      // Recompute upcoming occurrences every minute from the stored series
       if (now.getSeconds() === 0) {
-        setSchedule(prev => filterUpcomingEvents(prev));
+        setSchedule(filterUpcomingEvents(getStoredSchedule()));
       }
     }, 1000);
     return () => clearInterval(timer);
@@ -79,15 +306,137 @@ const App: React.FC = () => {
     return () => clearInterval(interval);
   }, [isActive, isPaused]);
 
-  const loadData = useCallback(() => {
-    setSchedule(getStoredSchedule());
-    setPastSessions(getSessions());
+  const loadData = useCallback(async () => {
+    const stored = getStoredSchedule();
+    setCalendarEvents(stored);
+    setSchedule(filterUpcomingEvents(stored));
+    try {
+      const page = await getSessions();
+      setPastSessions(page);
+      setHasMoreSessions(page.length === SESSION_PAGE_SIZE);
+      setActionItems(await getActionItems());
+      // The search index covers the whole library, so it is only read when search needs it
+      resetSearchIndex();
+      setIndexVersion(v => v + 1);
+    } catch (err: any) {
+      console.error(err);
+      setError("Could not open the session library.");
+    }
   }, []);
 
   useEffect(() => {
     loadData();
   }, [loadData]);
 
+  const loadSearchIndex = useCallback(() => ensureSearchIndex(() => getSessions({ limit: Infinity })), []);
+
+  useEffect(() => {
+    if (mode !== AppMode.SEARCH || isSearchIndexBuilt()) return;
+    loadSearchIndex().then(() => setIndexVersion(v => v + 1), (err: any) => setError(err.message));
+  }, [mode, indexVersion, loadSearchIndex]);
+
+  useEffect(() => {
+    setTrackedActionItems(actionItems);
+    setIndexVersion(v => v + 1);
+  }, [actionItems]);
+
+  const loadMoreSessions = useCallback(async () => {
+    const oldest = pastSessions[pastSessions.length - 1];
+    if (!oldest) return;
+    try {
+      const page = await getSessions({ before: oldest.timestamp });
+      setPastSessions(prev => [...prev, ...page]);
+      setHasMoreSessions(page.length === SESSION_PAGE_SIZE);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, [pastSessions]);
+
+  const loadAllSessions = useCallback(async () => {
+    try {
+      setPastSessions(await getSessions({ limit: Infinity }));
+      setHasMoreSessions(false);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, []);
+
+  // Keep the in-memory library in step with a write instead of re-reading it
+  const upsertPastSession = useCallback((session: Session) => {
+    setPastSessions(prev => [session, ...prev.filter(s => s.id !== session.id)].sort((a, b) => b.timestamp - a.timestamp));
+    indexSession(session);
+    setIndexVersion(v => v + 1);
+  }, []);
+
+  const persistSession = useCallback(async (session: Session) => {
+    try {
+      await saveSession(session);
+      upsertPastSession(session);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, [upsertPastSession]);
+
+  const openSession = useCallback((session: Session) => {
+    setViewingSession(session);
+    setSegments(session.segments);
+    setAnalysis(session.analysis || null);
+    setAnalyses(session.analyses || []);
+    setIsEditingTranscript(false);
+    setShowRevisions(false);
+    setMode(AppMode.LIVE);
+  }, []);
+
+  const handleDeleteSession = useCallback(async (id: string) => {
+    try {
+      await deleteSession(id);
+      setPastSessions(prev => prev.filter(s => s.id !== id));
+      removeSessionFromIndex(id);
+      setIndexVersion(v => v + 1);
+      // Only once the session is gone, or a failed delete would strip its recording and tasks
+      deleteAudio(id).catch(console.error);
+      deleteActionItemsForSession(id)
+        .then(() => setActionItems(prev => prev.filter(item => item.sessionId !== id)))
+        .catch(console.error);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, []);
+
+  // Load the stored recording for whichever finished session is on screen
+  useEffect(() => {
+    setAudioUrl(null);
+    setPlaybackMs(null);
+    if (!viewingSession?.hasAudio || isActive) return;
+    let url: string | null = null;
+    let cancelled = false;
+    getAudio(viewingSession.id).then(blob => {
+      if (!blob || cancelled) return;
+      url = URL.createObjectURL(blob);
+      setAudioUrl(url);
+    }).catch(console.error);
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [viewingSession?.id, viewingSession?.hasAudio, isActive]);
+
+  const seekTo = useCallback((ms: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = ms / 1000;
+    audio.play();
+  }, []);
+
+  const activeSegmentId = useMemo(() => {
+    if (playbackMs === null) return null;
+    return segments.find((s, i) => {
+      if (s.startMs === undefined) return false;
+      const end = s.endMs ?? segments[i + 1]?.startMs ?? Infinity;
+      return playbackMs >= s.startMs && playbackMs < end;
+    })?.id || null;
+  }, [segments, playbackMs]);
+
   const dynamicGreeting = useMemo(() => {
     const hours = currentTime.getHours();
     let base = "Good morning";
@@ -101,13 +450,18 @@ const App: React.FC = () => {
     return `${base}. Your workspace is clear and ready.`;
   }, [currentTime, schedule]);
 
+  const applySchedule = useCallback((events: CalendarEvent[]) => {
+    saveSchedule(events);
+    setCalendarEvents(events);
+    setSchedule(filterUpcomingEvents(events));
+  }, []);
+
   const handleICSImport = useCallback(async (file: File) => {
     try {
       const text = await file.text();
       const rawEvents = parseICS(text);
       if (rawEvents.length > 0) {
-        saveSchedule(rawEvents);
-        setSchedule(filterUpcomingEvents(rawEvents));
+        applySchedule(replaceManualEvents(getStoredSchedule(), rawEvents));
         setNotification(`Successfully imported ${rawEvents.length} events.`);
       } else {
         setError("The file was parsed but contained no upcoming events.");
@@ -116,48 +470,232 @@ const App: React.FC = () => {
       console.error(err);
       setError("Failed to parse calendar. Ensure it's a valid .ics file.");
     }
+  }, [applySchedule]);
+
+  const refreshFeeds = useCallback(async (toSync: CalendarFeed[] = getFeeds()) => {
+    if (toSync.length === 0) return;
+    setIsSyncingFeeds(true);
+    try {
+      const result = await syncFeeds(toSync, getStoredSchedule(), getFeedRelaySettings());
+      // Feeds removed while the sync was in flight stay removed
+      const remaining = new Set(getFeeds().map(f => f.id));
+      const synced = result.feeds.filter(f => remaining.has(f.id));
+      saveFeeds(synced);
+      setFeeds(synced);
+      applySchedule(result.schedule.filter(e => !e.feedId || remaining.has(e.feedId)));
+    } finally {
+      setIsSyncingFeeds(false);
+    }
+  }, [applySchedule]);
+
+  useEffect(() => {
+    refreshFeeds();
+    const interval = window.setInterval(() => refreshFeeds(), FEED_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [refreshFeeds]);
+
+  const handleAddFeed = (name: string, url: string) => {
+    const feed: CalendarFeed = { id: `feed-${Date.now()}`, name, url };
+    const next = [...getFeeds(), feed];
+    saveFeeds(next);
+    setFeeds(next);
+    refreshFeeds(next);
+  };
+
+  const handleSaveFeedRelay = (relay: FeedRelaySettings) => {
+    saveFeedRelaySettings(relay);
+    setFeedRelay(getFeedRelaySettings());
+    setNotification("Feed relay saved locally.");
+    refreshFeeds();
+  };
+
+  const handleRemoveFeed = (id: string) => {
+    const next = getFeeds().filter(f => f.id !== id);
+    saveFeeds(next);
+    setFeeds(next);
+    applySchedule(getStoredSchedule().filter(e => e.feedId !== id));
+  };
+
+  // The calendar links events to recordings from any point in the library, not just the loaded page
+  useEffect(() => {
+    if (mode !== AppMode.CALENDAR || !calendarRange) return;
+    getSessionsBetween(calendarRange.from, calendarRange.to).then(setCalendarSessions, () => setCalendarSessions([]));
+  }, [mode, calendarRange, pastSessions]);
+
+  const handleCalendarRange = useCallback((from: number, to: number) => setCalendarRange({ from, to }), []);
+
+  const updateImportJob = useCallback((id: string, patch: Partial<ImportJob>) => {
+    setImportJobs(prev => prev.map(job => job.id === id ? { ...job, ...patch } : job));
   }, []);
 
-  const processAudio = useCallback(async (blob: Blob | File) => {
-    setIsProcessing(true);
-    setError(null);
+  const processImportJob = useCallback(async (job: ImportJob) => {
+    const file = importFilesRef.current.get(job.id);
+    if (!file) return;
+    updateImportJob(job.id, { status: 'processing', progress: 0, error: undefined });
+
     try {
-      const result = await transcribeWithGroq(blob);
-      if (!result.text || result.text.trim().length < 2) {
+      // A retry transcribes every chunk again, so parts an earlier attempt left queued would land twice
+      await discardSessionJobs(job.sessionId!, 'transcribe');
+      const provider = getTranscriptionProvider();
+      const [duration, chunks] = await Promise.all([readMediaDuration(file), splitAudioFile(file)]);
+      const now = Date.now();
+      let session: Session = {
+        id: job.sessionId!,
+        title: file.name.replace(/\.[^.]+$/, ''),
+        timestamp: now,
+        segments: [],
+        duration,
+        transcription: provider.info,
+        // Playback is a bonus; a full audio store shouldn't block the transcript
+        hasAudio: await saveAudio(job.sessionId!, file).then(() => true, () => false)
+      };
+      let previous = { index: -1, text: '' };
+
+      let queued = 0;
+
+      for (const chunk of chunks) {
+        // After a failed chunk there is nothing to compare against; its retry trims the overlap instead
+        const previousText = previous.index === chunk.index - 1 ? previous.text : '';
+        try {
+          const result = await provider.transcribe(chunk.blob, { prompt: vocabularyPrompt(vocabulary) });
+          const newSegments = postProcessSegments(await buildSpeakerSegments(result, {
+            previousText,
+            history: session.segments,
+            idPrefix: chunkSegmentPrefix(session.id, chunk.index),
+            audioOffsetMs: chunk.offsetMs,
+            toTimestamp: (offsetSeconds) => now + chunk.offsetMs + Math.round(offsetSeconds * 1000)
+          }), rules);
+          previous = { index: chunk.index, text: result.text };
+          if (newSegments.length > 0) {
+            session = { ...withDetectedLanguage(session, result.language), segments: [...session.segments, ...newSegments] };
+            await saveSession(session);
+          }
+        } catch (err) {
+          // Connection trouble: the part waits in the queue and the rest carries on
+          if (!isNetworkFailure(err)) throw err;
+          await enqueueJob({
+            kind: 'transcribe',
+            sessionId: session.id,
+            chunk: { index: chunk.index, offsetMs: chunk.offsetMs, durationMs: chunk.durationMs, previousText }
+          }, { audio: chunk.blob });
+          queued++;
+        }
+        updateImportJob(job.id, { progress: (chunk.index + 1) / chunks.length });
+      }
+
+      if (session.segments.length === 0 && queued === 0) {
         throw new Error("Whisper returned empty text. Was the audio silent?");
       }
-      
-      const newSegment: TranscriptionSegment = {
-        id: `seg-${Date.now()}`,
-        text: result.text,
-        speaker: 'user',
-        timestamp: Date.now()
-      };
-      
-      const updatedSegments = [...segments, newSegment];
-      setSegments(updatedSegments);
-      
-      // Auto-save the session as it grows
-      if (activeSessionId && viewingSession) {
-        const session: Session = {
-          ...viewingSession,
-          id: activeSessionId,
-          segments: updatedSegments,
-          analysis: analysis || undefined
-        };
-        saveSession(session);
-        setPastSessions(getSessions());
+      if (queued > 0) {
+        await saveSession(session);
+        setNotification(`"${session.title}" will finish transcribing when the connection is back.`);
       }
+      importFilesRef.current.delete(job.id);
+      updateImportJob(job.id, { status: 'done', progress: 1 });
+      upsertPastSession(session);
     } catch (err: any) {
-      setError(err.message);
-    } finally {
-      setIsProcessing(false);
+      updateImportJob(job.id, { status: 'error', error: err.message });
     }
-  }, [activeSessionId, segments, analysis, viewingSession]);
+  }, [updateImportJob, upsertPastSession, vocabulary, rules]);
+
+  // Import queue runs one file at a time
+  useEffect(() => {
+    if (importJobs.some(job => job.status === 'processing')) return;
+    const next = importJobs.find(job => job.status === 'queued');
+    if (next) processImportJob(next);
+  }, [importJobs, processImportJob]);
+
+  // Transcription still works without a model, but every line goes to one speaker
+  const warnWithoutDiarization = useCallback(() => {
+    const problem = llmSetupProblem(llmSettings);
+    if (problem) setError(`Speakers can't be told apart until an AI model is set up. ${problem}`);
+  }, [llmSettings]);
+
+  const handleImportFiles = useCallback((files: File[]) => {
+    const setupProblem = transcriptionSetupProblem(transcriptionSettings);
+    if (setupProblem) {
+      setError(setupProblem);
+      setMode(AppMode.SETTINGS);
+      return;
+    }
+    const now = Date.now();
+    const jobs: ImportJob[] = files.map((file, i) => {
+      const id = `import-${now}-${i}`;
+      importFilesRef.current.set(id, file);
+      return { id, fileName: file.name, size: file.size, status: 'queued', progress: 0, sessionId: `session-${now}-${i}` };
+    });
+    setImportJobs(prev => [...prev, ...jobs]);
+    warnWithoutDiarization();
+  }, [transcriptionSettings, warnWithoutDiarization]);
+
+  // Chunks are transcribed one after another so boundary de-duplication always
+  // compares against the chunk that precedes it in the recording.
+  const transcribeChunk = useCallback(async (chunk: AudioChunk) => {
+    const sessionId = liveSessionRef.current?.id;
+    const provider = transcriptionProviderRef.current;
+    if (!sessionId || !provider) return;
+    // When the chunk before failed, its retry may already have landed on the session
+    const previousText = lastChunkRef.current.index === chunk.index - 1
+      ? lastChunkRef.current.text
+      : chunkText(liveSessionRef.current!, chunk.index - 1);
+    // On disk before the upload starts, so a failed chunk is retried instead of lost
+    const job = await enqueueJob({
+      kind: 'transcribe',
+      sessionId,
+      chunk: { index: chunk.index, offsetMs: chunk.offsetMs, durationMs: chunk.durationMs, previousText }
+    }, { audio: chunk.blob, running: true }).catch(() => null);
+    try {
+      const result = await provider.transcribe(chunk.blob, { prompt: vocabularyPrompt(vocabulary) });
+      const newSegments = postProcessSegments(await buildSpeakerSegments(result, {
+        previousText,
+        history: liveSessionRef.current?.segments || [],
+        idPrefix: chunkSegmentPrefix(sessionId, chunk.index),
+        audioOffsetMs: chunk.offsetMs,
+        toTimestamp: (offsetSeconds) => {
+          const current = liveSessionRef.current;
+          const offsetMs = chunk.offsetMs + Math.round(offsetSeconds * 1000);
+          return recordedOffsetToTimestamp(current?.timestamp || 0, current?.pauses || [], offsetMs);
+        }
+      }), rules);
+      lastChunkRef.current = { index: chunk.index, text: result.text };
+
+      if (job) await completeJob(job.id);
+
+      // Pauses and analysis may have landed on the session while we awaited
+      const session = liveSessionRef.current;
+      if (!session || session.id !== sessionId || newSegments.length === 0) return;
+
+      const updated: Session = {
+        ...insertTranscribedSegments(withDetectedLanguage(session, result.language), newSegments),
+        duration: Math.round((chunk.offsetMs + chunk.durationMs) / 1000)
+      };
+      liveSessionRef.current = updated;
+      setSegments(updated.segments);
+
+      // Auto-save the session after every chunk
+      await persistSession(updated);
+    } catch (err: any) {
+      if (job) await failJob(job, err);
+      // Offline is already shown in the header; anything else is worth a look
+      if (!job || !isOffline()) setError(`Chunk ${chunk.index + 1} failed to transcribe${job ? ' and will be retried' : ''}: ${err.message}`);
+    }
+  }, [persistSession, vocabulary, rules]);
+
+  const enqueueChunk = useCallback((chunk: AudioChunk) => {
+    pendingChunksRef.current += 1;
+    setIsProcessing(true);
+    transcriptionQueueRef.current = transcriptionQueueRef.current
+      .then(() => transcribeChunk(chunk))
+      .finally(() => {
+        pendingChunksRef.current -= 1;
+        if (pendingChunksRef.current === 0) setIsProcessing(false);
+      });
+  }, [transcribeChunk]);
 
-  const startRecording = useCallback(async (eventTitle?: string) => {
-    if (!config.groqKey) {
-      setError("Groq API Key Required. Configure in Settings.");
+  const startRecording = useCallback(async (event?: CalendarEvent) => {
+    const setupProblem = transcriptionSetupProblem(transcriptionSettings);
+    if (setupProblem) {
+      setError(setupProblem);
       setMode(AppMode.SETTINGS);
       return;
     }
@@ -166,93 +704,591 @@ const App: React.FC = () => {
       setError(null);
       setSegments([]);
       setAnalysis(null);
+      setAnalyses([]);
+      setIsEditingTranscript(false);
+      setShowRevisions(false);
       setRecordingSeconds(0);
       const now = Date.now();
       setSessionStartTime(now);
       const newId = `session-${now}`;
-      setActiveSessionId(newId);
       
-      const sessionTitle = eventTitle || `Session ${new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
-      setViewingSession({ id: newId, title: sessionTitle, timestamp: now, segments: [] });
+      const sessionTitle = event?.title || `Session ${new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+      // Settings changed mid-recording only apply to the next session
+      const provider = getTranscriptionProvider(transcriptionSettings);
+      transcriptionProviderRef.current = provider;
+      const session: Session = {
+        id: newId,
+        title: sessionTitle,
+        timestamp: now,
+        segments: [],
+        pauses: [],
+        transcription: provider.info,
+        ...(event ? { eventId: event.id, location: event.location, attendees: event.attendees } : {})
+      };
+      recordingEventRef.current = event || null;
+      setViewingSession(session);
+      liveSessionRef.current = session;
+      lastChunkRef.current = { index: -1, text: '' };
 
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
       setCurrentStream(stream);
-      const mediaRecorder = new MediaRecorder(stream);
-      mediaRecorderRef.current = mediaRecorder;
-      audioChunksRef.current = [];
-      
-      mediaRecorder.ondataavailable = (e) => { if (e.data.size > 0) audioChunksRef.current.push(e.data); };
-      mediaRecorder.onstop = async () => {
-        const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/m4a' });
-        await processAudio(audioBlob);
-        stream.getTracks().forEach(t => t.stop());
-        setCurrentStream(null);
-      };
+      chunkRecorderRef.current = startChunkedRecorder(stream, enqueueChunk);
 
-      mediaRecorder.start();
       setIsActive(true);
       setIsPaused(false);
       setMode(AppMode.LIVE);
+      warnWithoutDiarization();
     } catch (err: any) {
       setError("Microphone access denied or hardware unavailable.");
     }
-  }, [config.groqKey, processAudio]);
+  }, [transcriptionSettings, enqueueChunk, warnWithoutDiarization]);
 
-  const stopRecording = useCallback(() => {
-    if (mediaRecorderRef.current?.state !== 'inactive') {
-      mediaRecorderRef.current?.stop();
-    }
+  const pauseRecording = useCallback(() => {
+    const session = liveSessionRef.current;
+    if (!chunkRecorderRef.current || !session) return;
+    chunkRecorderRef.current.pause();
+    liveSessionRef.current = { ...session, pauses: [...(session.pauses || []), { start: Date.now() }] };
+    persistSession(liveSessionRef.current);
+    setIsPaused(true);
+  }, [persistSession]);
+
+  const resumeRecording = useCallback(() => {
+    const session = liveSessionRef.current;
+    if (!chunkRecorderRef.current || !session) return;
+    const pauses = (session.pauses || []).map(p => p.end === undefined ? { ...p, end: Date.now() } : p);
+    liveSessionRef.current = { ...session, pauses };
+    persistSession(liveSessionRef.current);
+    chunkRecorderRef.current.resume();
+    setIsPaused(false);
+  }, [persistSession]);
+
+  const stopRecording = useCallback(async () => {
+    const recorder = chunkRecorderRef.current;
+    if (!recorder) return;
+    if (isPaused) resumeRecording();
+    chunkRecorderRef.current = null;
+    recordingEventRef.current = null;
     setIsActive(false);
     setIsPaused(false);
+
+    const audio = await recorder.stop();
+    currentStream?.getTracks().forEach(t => t.stop());
+    setCurrentStream(null);
+
+    await transcriptionQueueRef.current;
+    if (liveSessionRef.current) {
+      let hasAudio = false;
+      if (audio) {
+        try {
+          await saveAudio(liveSessionRef.current.id, audio);
+          hasAudio = true;
+        } catch (err: any) {
+          setError("The transcript was saved, but the recording could not be stored for playback.");
+        }
+      }
+      const finished = { ...liveSessionRef.current, duration: recordingSeconds, hasAudio };
+      liveSessionRef.current = finished;
+      await persistSession(finished);
+      setViewingSession(finished);
+    }
+  }, [currentStream, isPaused, resumeRecording, recordingSeconds, persistSession]);
+
+  // Reminders, auto-start and auto-stop piggyback on the one-second clock
+  useEffect(() => {
+    const now = currentTime.getTime();
+    if (automationSettings.notify) {
+      for (const event of dueReminders(calendarEvents, now, automationSettings.notifyMinutesBefore, announcedEventsRef.current)) {
+        announcedEventsRef.current.add(event.id);
+        const minutesAway = Math.max(1, Math.round((event.start! - now) / 60000));
+        showReminder(event, minutesAway);
+        setNotification(`"${event.title}" starts in ${minutesAway} min.`);
+      }
+    }
+    if (automationSettings.autoStart && !isActive) {
+      const event = eventToAutoStart(calendarEvents, now, autoStartedEventsRef.current);
+      if (event) {
+        autoStartedEventsRef.current.add(event.id);
+        startRecording(event);
+      }
+    }
+    const recordingFor = recordingEventRef.current;
+    if (automationSettings.autoStop && isActive && recordingFor?.end !== undefined && now >= recordingFor.end) {
+      stopRecording();
+    }
+  }, [currentTime]);
+
+  // Shared by the analysis button and queued retries
+  const analyzeSession = useCallback(async (session: Session, template: AnalysisTemplate): Promise<Partial<Session>> => {
+    const transcript = formatTranscript(session.segments, session.speakerNames);
+    if (template.id === SUMMARY_TEMPLATE_ID) {
+      const result = await summarizeTranscript(transcript);
+      if (!result) return {};
+      // Promote the summary's tasks to tracked items, keeping any user edits
+      const extracted = await extractActionItems(session, result.actionItems);
+      await mergeActionItems(session.id, extracted);
+      setActionItems(await getActionItems());
+      return { analysis: result };
+    }
+    const result = await runTemplateAnalysis(transcript, template);
+    return { analyses: [...(session.analyses || []).filter(a => a.templateId !== template.id), result] };
   }, []);
 
   const runAnalysis = useCallback(async () => {
-    if (segments.length === 0) return;
+    if (segments.length === 0 || !viewingSession) return;
+    const template = templates.find(t => t.id === selectedTemplateId);
+    if (!template) return;
     setIsProcessing(true);
     try {
-      const transcript = segments.map(s => s.text).join('\n');
-      const result = await summarizeTranscript(transcript);
-      if (result) {
-        setAnalysis(result);
-        if (activeSessionId && viewingSession) {
-          const updatedSession = { ...viewingSession, analysis: result, segments };
-          saveSession(updatedSession);
-          setPastSessions(getSessions());
-        }
+      const patch = await analyzeSession({ ...viewingSession, segments, analyses }, template);
+      if (patch.analysis) setAnalysis(patch.analysis);
+      if (patch.analyses) setAnalyses(patch.analyses);
+
+      const updatedSession = { ...viewingSession, ...patch, segments };
+      if (liveSessionRef.current?.id === updatedSession.id) {
+        liveSessionRef.current = { ...liveSessionRef.current, ...patch };
       }
+      setViewingSession(updatedSession);
+      await persistSession(updatedSession);
     } catch (err: any) {
-      setError("Summarization failed. Check Gemini API connectivity.");
+      if (isNetworkFailure(err)) {
+        await enqueueJob({ kind: 'analyze', sessionId: viewingSession.id, templateId: template.id });
+        setNotification(`${template.name} will run when the connection is back.`);
+      } else {
+        setError(err instanceof LlmSetupError ? err.message : `${template.name} analysis failed. Check Gemini API connectivity.`);
+      }
     } finally {
       setIsProcessing(false);
     }
-  }, [segments, activeSessionId, viewingSession]);
+  }, [segments, viewingSession, persistSession, templates, selectedTemplateId, analyses, analyzeSession]);
+
+  // Queued results may land on the live recording, the open session or one only on disk
+  const currentSessionCopy = useCallback(async (sessionId: string): Promise<Session | null> => {
+    if (liveSessionRef.current?.id === sessionId) return liveSessionRef.current;
+    if (viewingSession?.id === sessionId) return { ...viewingSession, segments, analysis: analysis || undefined, analyses };
+    return getSession(sessionId);
+  }, [viewingSession, segments, analysis, analyses]);
+
+  const runQueuedJob = useCallback<JobHandler>(async (job) => {
+    const snapshot = await currentSessionCopy(job.sessionId);
+    if (!snapshot) return;   // deleted while it waited
+    let change: (session: Session) => Partial<Session>;
+
+    if (job.kind === 'analyze') {
+      const template = getTemplates().find(t => t.id === job.templateId);
+      if (!template) return;
+      const patch = await analyzeSession(snapshot, template);
+      change = () => patch;
+    } else {
+      const audio = await getJobAudio(job.id);
+      const chunk = job.chunk;
+      if (!audio || !chunk) return;
+      const result = await getTranscriptionProvider().transcribe(audio, { prompt: vocabularyPrompt(vocabulary) });
+      // Neighbours that landed while this chunk waited are de-duplicated against now
+      const latest = (await currentSessionCopy(job.sessionId)) || snapshot;
+      const newSegments = postProcessSegments(await buildSpeakerSegments(result, {
+        previousText: chunk.previousText || chunkText(latest, chunk.index - 1),
+        nextText: chunkText(latest, chunk.index + 1),
+        history: latest.segments,
+        idPrefix: chunkSegmentPrefix(job.sessionId, chunk.index),
+        audioOffsetMs: chunk.offsetMs,
+        toTimestamp: (offsetSeconds) =>
+          recordedOffsetToTimestamp(snapshot.timestamp, snapshot.pauses || [], chunk.offsetMs + Math.round(offsetSeconds * 1000))
+      }), rules);
+      if (newSegments.length === 0) return;
+      change = (session) => insertTranscribedSegments(withDetectedLanguage(session, result.language), newSegments);
+    }
+
+    const base = await currentSessionCopy(job.sessionId);
+    if (!base) return;
+    if (!(await isJobQueued(job.id))) return;   // discarded while it ran, e.g. by an import retry
+    const updated = { ...base, ...change(base) };
+    if (liveSessionRef.current?.id === updated.id) liveSessionRef.current = updated;
+    if (viewingSession?.id === updated.id) {
+      setViewingSession(updated);
+      setSegments(updated.segments);
+      setAnalysis(updated.analysis || null);
+      setAnalyses(updated.analyses || []);
+    }
+    await persistSession(updated);
+  }, [currentSessionCopy, analyzeSession, persistSession, viewingSession, vocabulary, rules]);
+
+  const queuedJobHandlerRef = useRef<JobHandler>(runQueuedJob);
+  useEffect(() => {
+    queuedJobHandlerRef.current = runQueuedJob;
+  }, [runQueuedJob]);
+
+  useEffect(() => {
+    const updateOnline = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    const unsubscribe = subscribeToJobs(setQueuedJobs);
+    const stopRunner = startJobRunner(job => queuedJobHandlerRef.current(job));
+    return () => {
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+      unsubscribe();
+      stopRunner();
+    };
+  }, []);
+
+  const handleUpdateActionItem = useCallback(async (item: ActionItem) => {
+    setActionItems(prev => prev.map(existing => existing.id === item.id ? item : existing));
+    try {
+      await saveActionItem(item);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, []);
+
+  const sessionTitles = useMemo(
+    () => Object.fromEntries(pastSessions.map(s => [s.id, s.title])),
+    [pastSessions]
+  );
+
+  const handleSaveTemplate = (template: AnalysisTemplate) => {
+    saveTemplate(template);
+    setTemplates(getTemplates());
+    setNotification(`Template "${template.name}" saved.`);
+  };
+
+  const handleDeleteTemplate = (id: string) => {
+    deleteTemplate(id);
+    setTemplates(getTemplates());
+    if (selectedTemplateId === id) setSelectedTemplateId(SUMMARY_TEMPLATE_ID);
+  };
+
+  // Names live on the session, so one rename relabels every segment by that speaker
+  const renameSpeaker = useCallback((speaker: string, name: string) => {
+    if (!viewingSession) return;
+    const speakerNames = { ...viewingSession.speakerNames };
+    if (name.trim() && name.trim() !== speaker) speakerNames[speaker] = name.trim();
+    else delete speakerNames[speaker];
+
+    if (liveSessionRef.current?.id === viewingSession.id) {
+      liveSessionRef.current = { ...liveSessionRef.current, speakerNames };
+      persistSession(liveSessionRef.current);
+    } else {
+      persistSession({ ...viewingSession, speakerNames });
+    }
+    setViewingSession({ ...viewingSession, speakerNames });
+  }, [viewingSession, persistSession]);
+
+  // Every edit goes through here so it lands in the session's revision history
+  const commitTranscriptChange = useCallback((change: (session: Session) => Session) => {
+    if (!viewingSession || isActive) return;
+    const updated = change({ ...viewingSession, segments });
+    if (updated.segments === segments) return;
+    if (liveSessionRef.current?.id === updated.id) liveSessionRef.current = updated;
+    setSegments(updated.segments);
+    setViewingSession(updated);
+    persistSession(updated);
+  }, [viewingSession, isActive, segments, persistSession]);
+
+  const editTranscript = useCallback((description: string, next: TranscriptionSegment[]) => {
+    if (next !== segments) commitTranscriptChange(session => recordRevision(session, description, next));
+  }, [segments, commitTranscriptChange]);
+
+  const handleReplaceAll = (query: string, replacement: string, options: FindOptions) => {
+    const result = replaceAll(segments, query, replacement, options);
+    if (result.count === 0) return;
+    editTranscript(`Replaced "${query}" with "${replacement}"`, result.segments);
+    setNotification(`Replaced ${result.count} occurrence${result.count === 1 ? '' : 's'}.`);
+  };
+
+  const handleSaveVocabulary = (terms: string[]) => {
+    saveVocabulary(terms);
+    setVocabulary(getVocabulary());
+  };
+
+  const handleSaveRules = (next: PostProcessingRule[]) => {
+    saveRules(next);
+    setRules(getRules());
+    setNotification("Post-processing rules saved locally.");
+  };
+
+  const applyRulesToSession = useCallback(async (sessionId: string, ruleSet: PostProcessingRule[]) => {
+    const isOpen = viewingSession?.id === sessionId;
+    const session = isOpen ? { ...viewingSession!, segments } : await getSession(sessionId);
+    if (!session || (isOpen && isActive)) return;
+    const changed = previewRules(session.segments, ruleSet).length;
+    if (changed === 0) return;
+    const updated = recordRevision(session, 'Applied post-processing rules', postProcessSegments(session.segments, ruleSet));
+    await persistSession(updated);
+    if (isOpen) {
+      setSegments(updated.segments);
+      setViewingSession(updated);
+    }
+    setNotification(`Updated ${changed} segment${changed === 1 ? '' : 's'} in "${session.title}".`);
+  }, [viewingSession, segments, isActive, persistSession]);
 
   const handleSaveSettings = (newConfig: { groqKey: string }) => {
     setConfig(newConfig);
-    localStorage.setItem('groq_api_key', newConfig.groqKey.trim());
+    setSecret('groq', newConfig.groqKey);
+    setTranscriptionSettings(getTranscriptionSettings());
     setNotification("Settings saved locally.");
   };
 
-  const downloadTranscript = () => {
+  const handleSaveTranscriptionSettings = (settings: TranscriptionConfig) => {
+    saveTranscriptionSettings(settings);
+    const saved = getTranscriptionSettings();
+    setTranscriptionSettings(saved);
+    setConfig({ groqKey: saved.groq.apiKey });
+    setNotification("Transcription settings saved locally.");
+  };
+
+  const handleSaveAutomationSettings = async (settings: AutomationConfig) => {
+    let next = settings;
+    if (settings.notify && !(await requestNotificationPermission())) {
+      next = { ...settings, notify: false };
+      setError("Notifications are blocked for this site. Allow them in your browser to get meeting reminders.");
+    }
+    saveAutomationSettings(next);
+    setAutomationSettings(getAutomationSettings());
+    setNotification("Automation settings saved locally.");
+  };
+
+  const handleSaveNotionSettings = (settings: NotionConfig) => {
+    saveNotionSettings(settings);
+    setNotionSettings(getNotionSettings());
+    setNotification("Notion settings saved locally.");
+  };
+
+  // Republishing reuses the stored page id so Notion never collects duplicates
+  const publishToNotion = useCallback(async () => {
     if (!viewingSession) return;
-    const content = segments.map(s => s.text).join('\n\n');
-    const blob = new Blob([content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${viewingSession.title.replace(/\s+/g, '_')}_transcript.txt`;
-    a.click();
+    if (!isNotionConfigured(notionSettings)) {
+      setError("Connect Notion in Settings before publishing.");
+      setMode(AppMode.SETTINGS);
+      return;
+    }
+
+    setIsPublishing(true);
+    try {
+      const isLive = liveSessionRef.current?.id === viewingSession.id;
+      const base = isLive ? liveSessionRef.current! : viewingSession;
+      const { pageId, url } = await publishSession({ ...base, segments, analysis: analysis || undefined, analyses }, notionSettings);
+      const published: Session = { ...base, segments, analysis: analysis || undefined, analyses, notionPageId: pageId, notionUrl: url };
+      if (isLive) liveSessionRef.current = { ...liveSessionRef.current!, notionPageId: pageId, notionUrl: url };
+      await persistSession(published);
+      setViewingSession(published);
+      setNotification(base.notionPageId === pageId ? "Notion page updated." : "Published to Notion.");
+    } catch (err: any) {
+      setError(`Notion publish failed: ${err.message}`);
+    } finally {
+      setIsPublishing(false);
+    }
+  }, [viewingSession, notionSettings, segments, analysis, analyses, persistSession]);
+
+  const handleSaveLlmSettings = (settings: LlmSettings) => {
+    saveLlmSettings(settings);
+    setLlmSettings(getLlmSettings());
+    setNotification("AI model settings saved locally.");
+  };
+
+  const handleEnableVault = async (passphrase: string) => {
+    await enableVault(passphrase);
+    setIsVaultOn(true);
+    setNotification("Workspace encrypted. You'll be asked for the passphrase on the next start.");
+  };
+
+  const handleChangePassphrase = async (current: string, next: string) => {
+    const changed = await changePassphrase(current, next);
+    if (changed) setNotification("Passphrase changed.");
+    return changed;
+  };
+
+  const handleDisableVault = async (passphrase: string) => {
+    const disabled = await disableVault(passphrase);
+    if (disabled) {
+      setIsVaultOn(false);
+      setNotification("Encryption turned off. Sessions and keys are stored in plain text again.");
+    }
+    return disabled;
+  };
+
+  // Reloading drops every decrypted session, index and key held in memory
+  const handleLock = () => {
+    if (isActive) return;
+    lockVault();
+    window.location.reload();
+  };
+
+  // A restore or sync can touch almost every piece of state, so reread it all from storage
+  const reloadWorkspace = useCallback(async (settingsReplaced = false) => {
+    await loadData();
+    setFolders(getFolders());
+    setTemplates(getTemplates());
+    setVocabulary(getVocabulary());
+    setRules(getRules());
+    setFeeds(getFeeds());
+    if (settingsReplaced) {
+      setTranscriptionSettings(getTranscriptionSettings());
+      setAutomationSettings(getAutomationSettings());
+      setNotionSettings(getNotionSettings());
+      setLlmSettings(getLlmSettings());
+      setFeedRelay(getFeedRelaySettings());
+    }
+  }, [loadData]);
+
+  const handleExportBackup = async (includeRecordings: boolean) => {
+    downloadArchive(await buildArchive({ includeRecordings }));
+  };
+
+  const handlePreviewBackup = async (file: File): Promise<ImportPlan> =>
+    planImport(parseArchive(await file.text()), await getSessions({ limit: Infinity }));
+
+  const handleRestoreBackup = async (plan: ImportPlan, strategy: ConflictStrategy, replaceSettings: boolean) => {
+    if (isActive) throw new Error("Stop the recording before restoring a backup.");
+    const result = await applyImport(plan, { strategy, replaceSettings });
+    await reloadWorkspace(replaceSettings);
+    setNotification(`Backup restored: ${result.added} added, ${result.updated} updated, ${result.removed} removed.`);
+  };
+
+  const runWorkspaceSync = useCallback(async () => {
+    const settings = getSyncSettings();
+    if (!isSyncConfigured(settings)) return;
+    setIsSyncingWorkspace(true);
+    try {
+      const result = await syncWorkspace(settings);
+      saveSyncSettings({ ...settings, lastSyncedAt: result.syncedAt, lastError: undefined });
+      if (result.added || result.updated || result.removed || result.copies) await reloadWorkspace();
+      if (result.copies) setNotification(`${result.copies} session${result.copies === 1 ? '' : 's'} changed on two devices. Both versions were kept.`);
+    } catch (err: any) {
+      saveSyncSettings({ ...settings, lastError: `Sync failed: ${err.message}` });
+    } finally {
+      setSyncSettings(getSyncSettings());
+      setIsSyncingWorkspace(false);
+    }
+  }, [reloadWorkspace]);
+
+  useEffect(() => {
+    if (!syncSettings.autoSync) return;
+    runWorkspaceSync();
+    const interval = window.setInterval(runWorkspaceSync, SYNC_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [syncSettings.autoSync, runWorkspaceSync]);
+
+  const handleSaveSyncSettings = (settings: SyncConfig) => {
+    const current = getSyncSettings();
+    // A different remote file has no shared history with this device yet
+    const sameRemote = (['backend', 'url', 'bucket', 'fileName'] as const).every(field => settings[field] === current[field]);
+    saveSyncSettings({ ...settings, lastSyncedAt: sameRemote ? current.lastSyncedAt : undefined, lastError: undefined });
+    setSyncSettings(getSyncSettings());
+    setNotification("Sync settings saved locally.");
+  };
+
+  // Threads are kept per session (and one for the library) for the lifetime of the app
+  const effectiveChatScope: ChatScope = viewingSession && segments.length > 0 ? chatScope : 'library';
+  const chatThreadKey = effectiveChatScope === 'session' ? viewingSession!.id : 'library';
+  const chatMessages = chatThreads[chatThreadKey] || [];
+
+  const askChat = useCallback(async (question: string) => {
+    const key = chatThreadKey;
+    const history = chatThreads[key] || [];
+    const userMessage: ChatMessage = { id: `msg-${Date.now()}-q`, role: 'user', text: question };
+    setChatThreads(prev => ({ ...prev, [key]: [...(prev[key] || []), userMessage] }));
+    setIsChatThinking(true);
+    try {
+      const reply = effectiveChatScope === 'session'
+        ? await askSession({ ...viewingSession!, segments }, question, history)
+        : await loadSearchIndex().then(() => askLibrary(question, history));
+      setChatThreads(prev => ({ ...prev, [key]: [...(prev[key] || []), reply] }));
+    } catch (err: any) {
+      setError(`Chat failed: ${err.message}`);
+    } finally {
+      setIsChatThinking(false);
+    }
+  }, [chatThreadKey, chatThreads, effectiveChatScope, viewingSession, segments, loadSearchIndex]);
+
+  const exportTranscript = (format: ExportFormat) => {
+    if (!viewingSession) return;
+    downloadSession({ ...viewingSession, segments, analysis: analysis || undefined, analyses }, format);
     setNotification("Exported to local file.");
   };
 
-  const filteredSessions = useMemo(() => {
-    if (!searchQuery) return pastSessions;
-    const q = searchQuery.toLowerCase();
-    return pastSessions.filter(s => 
-      s.title.toLowerCase().includes(q) || 
-      s.segments.some(seg => seg.text.toLowerCase().includes(q))
-    );
-  }, [pastSessions, searchQuery]);
+  // Title, tags, folder and pin are library metadata: no revision, and the live recording keeps them
+  const updateSessions = useCallback(async (ids: string[], change: (session: Session) => Partial<Session>) => {
+    for (const id of ids) {
+      const isLive = liveSessionRef.current?.id === id;
+      const isOpen = viewingSession?.id === id;
+      const base = isLive
+        ? liveSessionRef.current
+        : isOpen ? { ...viewingSession!, segments, analysis: analysis || undefined, analyses } : pastSessions.find(s => s.id === id);
+      if (!base) continue;
+      const updated = { ...base, ...change(base) };
+      if (isLive) liveSessionRef.current = updated;
+      if (isOpen) setViewingSession({ ...viewingSession!, ...change(viewingSession!) });
+      await persistSession(updated);
+    }
+  }, [viewingSession, segments, analysis, analyses, pastSessions, persistSession]);
+
+  const handleCreateFolder = (name: string) => {
+    const next = [...folders, { id: `folder-${Date.now()}`, name, createdAt: Date.now() }];
+    saveFolders(next);
+    setFolders(next);
+  };
+
+  const handleRenameFolder = (id: string, name: string) => {
+    const next = folders.map(f => f.id === id ? { ...f, name } : f);
+    saveFolders(next);
+    setFolders(next);
+  };
+
+  // Sessions keep the stale folder id and show up as unfiled
+  const handleDeleteFolder = (id: string) => {
+    const next = folders.filter(f => f.id !== id);
+    saveFolders(next);
+    setFolders(next);
+  };
+
+  const handleBulkDelete = async (ids: string[]) => {
+    for (const id of ids) await handleDeleteSession(id);
+    setNotification(`Deleted ${ids.length} session${ids.length === 1 ? '' : 's'}.`);
+  };
+
+  const handleBulkMove = async (ids: string[], folderId: string | undefined) => {
+    await updateSessions(ids, () => ({ folderId }));
+    setNotification(`Moved ${ids.length} session${ids.length === 1 ? '' : 's'} to ${folders.find(f => f.id === folderId)?.name || 'Unfiled'}.`);
+  };
+
+  const handleBulkTag = (ids: string[], tag: string) => {
+    updateSessions(ids, session => ({ tags: Array.from(new Set([...(session.tags || []), tag])) }));
+  };
+
+  const exportSessions = (ids: string[], format: ExportFormat) => {
+    const selected = pastSessions.filter(s => ids.includes(s.id));
+    if (selected.length === 0) return;
+    downloadSessionsZip(selected, format);
+    setNotification(`Exported ${selected.length} sessions to a zip archive.`);
+  };
+
+  const knownTags = useMemo(() => libraryTags(pastSessions), [pastSessions]);
+  const tagSuggestions = useMemo(
+    () => viewingSession && !isActive ? suggestTags({ ...viewingSession, segments, analysis: analysis || undefined, analyses }, knownTags) : [],
+    [viewingSession, isActive, segments, analysis, analyses, knownTags]
+  );
+  const pinnedSessions = pastSessions.filter(s => s.pinned);
+
+  const searchResults = useMemo(
+    () => mode === AppMode.SEARCH ? searchSessions(searchQuery, searchFilters) : [],
+    [mode, searchQuery, searchFilters, indexVersion]
+  );
+  const searchSpeakers = useMemo(() => indexedSpeakers(), [indexVersion]);
+
+  const openSessionAt = useCallback(async (sessionId: string, segmentId: string | null) => {
+    const session = await getSession(sessionId);
+    if (!session) return;
+    openSession(session);
+    setFocusSegmentId(segmentId);
+  }, [openSession]);
+
+  // Bring a segment opened from search into view once the session has rendered
+  useEffect(() => {
+    if (!focusSegmentId || mode !== AppMode.LIVE) return;
+    document.getElementById(`segment-${focusSegmentId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timeout = window.setTimeout(() => setFocusSegmentId(null), 2500);
+    return () => clearTimeout(timeout);
+  }, [focusSegmentId, mode, segments]);
 
   return (
     <div className="flex h-screen w-full bg-[#141414] text-white overflow-hidden selection:bg-[#007AFF]/30">
@@ -270,6 +1306,14 @@ const App: React.FC = () => {
             <span className="material-icons-outlined text-[20px]">dashboard</span>
             <span>Dashboard</span>
           </button>
+          <button onClick={() => setMode(AppMode.FILE)} className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl text-[14px] font-bold transition-all ${mode === AppMode.FILE ? 'bg-white/10 text-white' : 'text-zinc-500 hover:bg-white/5 hover:text-zinc-300'}`}>
+            <span className="material-icons-outlined text-[20px]">upload_file</span>
+            <span>Import</span>
+          </button>
+          <button onClick={() => setMode(AppMode.CALENDAR)} className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl text-[14px] font-bold transition-all ${mode === AppMode.CALENDAR ? 'bg-white/10 text-white' : 'text-zinc-500 hover:bg-white/5 hover:text-zinc-300'}`}>
+            <span className="material-icons-outlined text-[20px]">calendar_month</span>
+            <span>Calendar</span>
+          </button>
           <button onClick={() => setMode(AppMode.SEARCH)} className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl text-[14px] font-bold transition-all ${mode === AppMode.SEARCH ? 'bg-white/10 text-white' : 'text-zinc-500 hover:bg-white/5 hover:text-zinc-300'}`}>
             <span className="material-icons-outlined text-[20px]">search</span>
             <span>Search</span>
@@ -279,12 +1323,38 @@ const App: React.FC = () => {
             <span>Library</span>
           </button>
 
+          <button onClick={() => setMode(AppMode.ACTIONS)} className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl text-[14px] font-bold transition-all ${mode === AppMode.ACTIONS ? 'bg-white/10 text-white' : 'text-zinc-500 hover:bg-white/5 hover:text-zinc-300'}`}>
+            <span className="material-icons-outlined text-[20px]">task_alt</span>
+            <span>Action Items</span>
+            {actionItems.some(item => item.status === 'open') && (
+              <span className="ml-auto text-[11px] font-black text-zinc-500">{actionItems.filter(item => item.status === 'open').length}</span>
+            )}
+          </button>
+
+          {pinnedSessions.length > 0 && (
+            <>
+              <div className="text-[10px] font-black text-zinc-700 uppercase px-4 py-6 tracking-[0.2em]">Pinned</div>
+              <div className="space-y-1">
+                {pinnedSessions.map(session => (
+                  <button 
+                    key={session.id} 
+                    onClick={() => openSession(session)} 
+                    className="w-full flex items-center gap-3 px-4 py-2.5 rounded-xl text-[14px] font-medium text-zinc-500 hover:bg-white/5 hover:text-white transition-all group"
+                  >
+                    <span className="material-icons-outlined text-[18px] opacity-40 group-hover:opacity-100 group-hover:text-[#007AFF]">push_pin</span>
+                    <span className="truncate">{session.title}</span>
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+
           <div className="text-[10px] font-black text-zinc-700 uppercase px-4 py-6 tracking-[0.2em]">Recent History</div>
           <div className="space-y-1">
-            {pastSessions.slice(0, 10).map(session => (
+            {pastSessions.filter(s => !s.pinned).slice(0, 10).map(session => (
               <button 
                 key={session.id} 
-                onClick={() => { setViewingSession(session); setSegments(session.segments); setAnalysis(session.analysis || null); setMode(AppMode.LIVE); }} 
+                onClick={() => openSession(session)} 
                 className="w-full flex items-center gap-3 px-4 py-2.5 rounded-xl text-[14px] font-medium text-zinc-500 hover:bg-white/5 hover:text-white transition-all group"
               >
                 <span className="material-icons-outlined text-[18px] opacity-40 group-hover:opacity-100 group-hover:text-[#007AFF]">description</span>
@@ -311,8 +1381,20 @@ const App: React.FC = () => {
              <span>/</span>
              <span className="text-zinc-300">{viewingSession?.title || mode}</span>
           </div>
-          <div className="text-[13px] font-mono text-zinc-500 font-bold">
-            {currentTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          <div className="flex items-center gap-6">
+            <JobQueueStatus jobs={queuedJobs} isOnline={isOnline} now={currentTime.getTime()} sessionTitles={sessionTitles} onRetry={retryJob} onDiscard={discardJob} />
+            <button onClick={() => setIsChatOpen(open => !open)} title="Ask your transcripts" className={`flex items-center gap-2 text-[12px] font-bold transition-colors ${isChatOpen ? 'text-[#007AFF]' : 'text-zinc-500 hover:text-white'}`}>
+              <span className="material-icons-outlined text-[18px]">forum</span>
+              <span>Ask</span>
+            </button>
+            {isVaultOn && !isActive && (
+              <button onClick={handleLock} title="Lock workspace" className="text-zinc-500 hover:text-white transition-colors">
+                <span className="material-icons-outlined text-[18px]">lock</span>
+              </button>
+            )}
+            <div className="text-[13px] font-mono text-zinc-500 font-bold">
+              {currentTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </div>
           </div>
         </header>
 
@@ -330,7 +1412,7 @@ const App: React.FC = () => {
                 {schedule.length > 0 ? (
                   <UpcomingEventsCallout 
                     event={findActiveEvent(schedule) || schedule[0]} 
-                    onStart={() => startRecording(findActiveEvent(schedule)?.title || schedule[0].title)} 
+                    onStart={() => startRecording(findActiveEvent(schedule) || schedule[0])} 
                   />
                 ) : null}
 
@@ -340,7 +1422,7 @@ const App: React.FC = () => {
                 </div>
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-8 mb-20">
                   {pastSessions.slice(0, 3).map(session => (
-                    <SessionCard key={session.id} session={session} onClick={() => { setViewingSession(session); setSegments(session.segments); setAnalysis(session.analysis || null); setMode(AppMode.LIVE); }} onDelete={(id) => { deleteSession(id); loadData(); }} />
+                    <SessionCard key={session.id} session={session} onClick={() => openSession(session)} onDelete={handleDeleteSession} />
                   ))}
                   {pastSessions.length === 0 && <div className="col-span-full py-20 text-center bg-white/5 rounded-3xl border border-dashed border-white/10 text-zinc-600 font-bold">No sessions captured yet.</div>}
                 </div>
@@ -350,68 +1432,216 @@ const App: React.FC = () => {
                   <span>Full Schedule</span>
                 </div>
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-                  {schedule.length > 0 ? schedule.slice(0, 9).map(event => (<EventCard key={event.id} event={event} onStart={() => startRecording(event.title)} />)) : (<div className="col-span-full py-12 text-center bg-white/5 rounded-2xl text-zinc-600 text-[13px] font-bold">No upcoming meetings. Import an .ics file in Settings.</div>)}
+                  {schedule.length > 0 ? schedule.slice(0, 9).map(event => (<EventCard key={event.id} event={event} onStart={() => startRecording(event)} />)) : (<div className="col-span-full py-12 text-center bg-white/5 rounded-2xl text-zinc-600 text-[13px] font-bold">No upcoming meetings. Import an .ics file in Settings.</div>)}
                 </div>
               </div>
             ) : mode === AppMode.SETTINGS ? (
-              <SettingsScreen config={config} onSave={handleSaveSettings} scheduleLoaded={schedule.length > 0} onICSImport={handleICSImport} />
+              <>
+                <SettingsScreen config={config} onSave={handleSaveSettings} scheduleLoaded={schedule.length > 0} onICSImport={handleICSImport} />
+                <TranscriptionSettings key={transcriptionSettings.groq.apiKey} settings={transcriptionSettings} onSave={handleSaveTranscriptionSettings} />
+                <VocabularySettings terms={vocabulary} onSave={handleSaveVocabulary} />
+                <PostProcessingRules rules={rules} sessions={pastSessions} onSave={handleSaveRules} onApplyToSession={applyRulesToSession} />
+                <MeetingAutomationSettings key={String(automationSettings.notify)} settings={automationSettings} onSave={handleSaveAutomationSettings} />
+                <CalendarFeeds feeds={feeds} relay={feedRelay} isSyncing={isSyncingFeeds} onAdd={handleAddFeed} onRemove={handleRemoveFeed} onSync={() => refreshFeeds()} onSaveRelay={handleSaveFeedRelay} />
+                <NotionSettings settings={notionSettings} onSave={handleSaveNotionSettings} />
+                <AssistantSettings settings={llmSettings} onSave={handleSaveLlmSettings} />
+                <VaultSettings enabled={isVaultOn} onEnable={handleEnableVault} onChangePassphrase={handleChangePassphrase} onDisable={handleDisableVault} onLock={handleLock} />
+                <BackupSettings onExport={handleExportBackup} onPreview={handlePreviewBackup} onImport={handleRestoreBackup} />
+                <SyncSettings settings={syncSettings} isSyncing={isSyncingWorkspace} isEncrypted={isVaultOn} onSave={handleSaveSyncSettings} onSync={runWorkspaceSync} />
+                <TemplateManager templates={templates} onSave={handleSaveTemplate} onDelete={handleDeleteTemplate} />
+              </>
+            ) : mode === AppMode.FILE ? (
+              <FileImportScreen 
+                jobs={importJobs} 
+                onFiles={handleImportFiles} 
+                onRetry={(id) => updateImportJob(id, { status: 'queued', progress: 0, error: undefined })} 
+                onOpen={async (id) => {
+                  const session = await getSession(id);
+                  if (session) openSession(session);
+                }} 
+                onClearFinished={() => setImportJobs(prev => prev.filter(job => job.status !== 'done'))} 
+              />
             ) : mode === AppMode.SEARCH ? (
-              <div className="animate-in max-w-2xl mx-auto">
-                <h1 className="text-[40px] font-black mb-12 tracking-tight">Universal Search</h1>
-                <div className="bg-[#202020] p-6 rounded-3xl border border-white/10 flex items-center mb-12 shadow-2xl">
-                   <span className="material-icons-outlined text-zinc-500 mr-5">search</span>
-                   <input type="text" placeholder="Search keywords or topics..." className="bg-transparent border-none text-white text-lg w-full focus:ring-0 placeholder-zinc-800 font-semibold" value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} autoFocus />
-                </div>
-                <div className="space-y-4">
-                  {filteredSessions.map(session => (
-                    <div key={session.id} onClick={() => { setViewingSession(session); setSegments(session.segments); setAnalysis(session.analysis || null); setMode(AppMode.LIVE); }} className="p-8 bg-white/5 rounded-2xl border border-white/5 cursor-pointer hover:bg-white/10 transition-all shadow-xl group">
-                       <h4 className="font-bold text-white group-hover:text-[#007AFF] transition-colors mb-2">{session.title}</h4>
-                       <p className="text-[14px] text-zinc-500 line-clamp-1">"{session.segments[0]?.text || 'Empty session.'}"</p>
-                    </div>
-                  ))}
-                </div>
-              </div>
+              <SearchScreen 
+                query={searchQuery} 
+                onQueryChange={setSearchQuery} 
+                filters={searchFilters} 
+                onFiltersChange={setSearchFilters} 
+                speakers={searchSpeakers} 
+                results={searchResults} 
+                onOpen={openSessionAt} 
+              />
+            ) : mode === AppMode.CALENDAR ? (
+              <CalendarScreen 
+                events={calendarEvents} 
+                sessions={calendarSessions} 
+                onRangeChange={handleCalendarRange} 
+                onOpenSession={openSession} 
+                onStartRecording={startRecording} 
+              />
+            ) : mode === AppMode.ACTIONS ? (
+              <ActionTracker 
+                items={actionItems} 
+                sessionTitles={sessionTitles} 
+                onUpdate={handleUpdateActionItem} 
+                onOpenSource={openSessionAt} 
+              />
             ) : mode === AppMode.LIBRARY ? (
-              <div className="animate-in">
-                <h1 className="text-[40px] font-black mb-16 tracking-tight">Your Library</h1>
-                <div className="grid grid-cols-1 md:grid-cols-4 gap-8">
-                  {pastSessions.map(session => (
-                    <SessionCard key={session.id} session={session} onClick={() => { setViewingSession(session); setSegments(session.segments); setAnalysis(session.analysis || null); setMode(AppMode.LIVE); }} onDelete={(id) => { deleteSession(id); loadData(); }} />
-                  ))}
-                </div>
-              </div>
+              <LibraryScreen 
+                sessions={pastSessions} 
+                folders={folders} 
+                filters={libraryFilters} 
+                onFiltersChange={setLibraryFilters} 
+                hasMore={hasMoreSessions} 
+                onLoadMore={loadMoreSessions} 
+                onLoadAll={loadAllSessions} 
+                onOpen={openSession} 
+                onTogglePin={(session) => updateSessions([session.id], () => ({ pinned: !session.pinned }))} 
+                onCreateFolder={handleCreateFolder} 
+                onRenameFolder={handleRenameFolder} 
+                onDeleteFolder={handleDeleteFolder} 
+                onDelete={handleBulkDelete} 
+                onMove={handleBulkMove} 
+                onTag={handleBulkTag} 
+                onExport={exportSessions} 
+              />
             ) : (
               <div className="animate-in pb-64">
                 <StatusBadge isActive={isActive} isPaused={isPaused} duration={formatDuration(recordingSeconds)} />
                 <div className="flex items-center justify-between mb-12">
-                  <h1 className="text-[56px] font-black tracking-tighter">{viewingSession?.title || 'Live Recording'}</h1>
+                  <SessionTitle 
+                    key={viewingSession?.id} 
+                    title={viewingSession?.title || 'Live Recording'} 
+                    editable={Boolean(viewingSession)} 
+                    onRename={(title) => viewingSession && updateSessions([viewingSession.id], () => ({ title }))} 
+                  />
+                  <div className="flex items-center gap-6">
+                    {segments.length > 0 && !isActive && !isEditingTranscript && (
+                      <button onClick={() => setIsEditingTranscript(true)} className="flex items-center gap-2 text-[11px] font-black uppercase tracking-widest text-zinc-500 hover:text-white transition-all">
+                        <span className="material-icons-outlined text-[18px]">edit_note</span>
+                        <span>Edit</span>
+                      </button>
+                    )}
+                    {viewingSession?.notionUrl && (
+                      <a href={viewingSession.notionUrl} target="_blank" rel="noreferrer" className="flex items-center gap-2 text-[11px] font-black uppercase tracking-widest text-zinc-500 hover:text-white transition-all">
+                        <span className="material-icons-outlined text-[18px]">open_in_new</span>
+                        <span>Notion</span>
+                      </a>
+                    )}
+                  </div>
                 </div>
+                {viewingSession && (viewingSession.location || viewingSession.attendees?.length || viewingSession.transcription) && (
+                  <div className="-mt-8 mb-12 space-y-2">
+                    {(viewingSession.location || Boolean(viewingSession.attendees?.length)) && (
+                      <div className="flex flex-wrap items-center gap-6 text-[13px] text-zinc-500">
+                        {viewingSession.location && (
+                          <span className="flex items-center gap-2"><span className="material-icons-outlined text-[16px]">place</span>{viewingSession.location}</span>
+                        )}
+                        {viewingSession.attendees && viewingSession.attendees.length > 0 && (
+                          <span className="flex items-center gap-2"><span className="material-icons-outlined text-[16px]">group</span>{viewingSession.attendees.join(', ')}</span>
+                        )}
+                      </div>
+                    )}
+                    {viewingSession.transcription && (
+                      <p className="text-[12px] font-mono text-zinc-600">
+                        {[PROVIDER_LABELS[viewingSession.transcription.provider], viewingSession.transcription.model, viewingSession.transcription.language].filter(Boolean).join(' · ')}
+                      </p>
+                    )}
+                  </div>
+                )}
+                {viewingSession && (
+                  <SessionOrganizer 
+                    session={viewingSession} 
+                    folders={folders} 
+                    knownTags={knownTags} 
+                    suggestions={tagSuggestions} 
+                    onChange={(patch) => updateSessions([viewingSession.id], () => patch)} 
+                  />
+                )}
                 
                 <WaveformMonitor stream={currentStream} isActive={isActive} isPaused={isPaused} />
+
+                {audioUrl && (
+                  <SessionPlayer src={audioUrl} audioRef={audioRef} onTimeUpdate={setPlaybackMs} />
+                )}
+
+                {segments.length > 0 && (
+                  <SpeakerPanel speakers={listSpeakers(segments)} names={viewingSession?.speakerNames} onRename={renameSpeaker} />
+                )}
                 
+                {isEditingTranscript && viewingSession && (
+                  <>
+                    <TranscriptEditBar 
+                      segments={segments} 
+                      revisionCount={viewingSession.revisions?.length || 0} 
+                      showHistory={showRevisions} 
+                      onReplaceAll={handleReplaceAll} 
+                      onToggleHistory={() => setShowRevisions(show => !show)} 
+                      onDone={() => { setIsEditingTranscript(false); setShowRevisions(false); }} 
+                    />
+                    {showRevisions && (
+                      <RevisionHistory 
+                        revisions={viewingSession.revisions || []} 
+                        hasOriginal={Boolean(viewingSession.originalSegments)} 
+                        onRevert={(id) => commitTranscriptChange(session => revertToRevision(session, id))} 
+                        onRestoreOriginal={() => commitTranscriptChange(restoreOriginal)} 
+                      />
+                    )}
+                  </>
+                )}
+
                 <div className="space-y-0">
-                  {segments.map(segment => (<SegmentCard key={segment.id} segment={segment} startTime={sessionStartTime || undefined} />))}
+                  {segments.map((segment, i) => (
+                    <React.Fragment key={segment.id}>
+                      {segment.speaker !== segments[i - 1]?.speaker && (
+                        <div className="speaker-label pt-10">{speakerName(segment.speaker, viewingSession?.speakerNames)}</div>
+                      )}
+                      {isEditingTranscript ? (
+                        <SegmentEditor 
+                          key={segment.text} 
+                          segment={segment} 
+                          canMergeNext={i < segments.length - 1} 
+                          onSave={(text) => editTranscript('Edited segment', editSegmentText(segments, segment.id, text))} 
+                          onSplit={(text, offset) => editTranscript('Split segment', splitSegment(editSegmentText(segments, segment.id, text), segment.id, offset))} 
+                          onMergeNext={() => editTranscript('Merged segments', mergeWithNext(segments, segment.id))} 
+                        />
+                        ) : (
+                        <div 
+                          id={`segment-${segment.id}`}
+                          onClick={segment.startMs !== undefined && audioUrl ? () => seekTo(segment.startMs!) : undefined} 
+                          className={`rounded-xl transition-all ${segment.id === activeSegmentId || segment.id === focusSegmentId ? 'bg-[#007AFF]/10' : ''} ${segment.startMs !== undefined && audioUrl ? 'cursor-pointer' : ''}`}
+                        >
+                          <SegmentCard segment={segment} startTime={sessionStartTime || undefined} />
+                      </div>
+                      )}
+                    </React.Fragment>
+                  ))}
                   {isProcessing && (<div className="flex items-center space-x-6 text-zinc-600 text-[18px] font-medium pt-12 animate-pulse"><div className="w-2 h-2 rounded-full bg-[#007AFF]"></div><span>Whisper Engine analyzing audio...</span></div>)}
                 </div>
 
-                {analysis && (
+                {(analysis || analyses.length > 0) && (
                   <div className="mt-32 pt-20 border-t border-white/5 animate-in">
                     <div className="flex items-center justify-between mb-12">
                         <h2 className="text-[40px] font-black tracking-tight">Intelligence Report</h2>
                         <span className="material-icons-outlined text-[#007AFF] text-3xl">auto_awesome</span>
                     </div>
-                    <div className="p-12 bg-white/5 rounded-[40px] space-y-16 border border-white/5">
-                      <p className="text-[22px] text-white leading-relaxed font-semibold italic opacity-90">"{analysis.summary}"</p>
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-16">
-                        <div>
-                          <h4 className="speaker-label mb-8 text-[#007AFF]">Highlights</h4>
-                          <ul className="space-y-4">{analysis.keyPoints.map((p, i) => (<li key={i} className="flex items-start space-x-4 text-[15px] text-zinc-300"><div className="w-1.5 h-1.5 rounded-full bg-zinc-700 mt-2 flex-shrink-0"></div><span>{p}</span></li>))}</ul>
-                        </div>
-                        <div>
-                          <h4 className="speaker-label mb-8 text-[#FF453A]">Action Items</h4>
-                          <ul className="space-y-4">{analysis.actionItems.map((p, i) => (<li key={i} className="flex items-start space-x-4 text-[15px] text-zinc-300"><span className="text-[#FF453A] font-black flex-shrink-0">→</span><span>{p}</span></li>))}</ul>
+                    <div className="space-y-12">
+                      {analysis && (
+                        <div className="p-12 bg-white/5 rounded-[40px] space-y-16 border border-white/5">
+                          <p className="text-[22px] text-white leading-relaxed font-semibold italic opacity-90">"{analysis.summary}"</p>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-16">
+                            <div>
+                              <h4 className="speaker-label mb-8 text-[#007AFF]">Highlights</h4>
+                              <ul className="space-y-4">{analysis.keyPoints.map((p, i) => (<li key={i} className="flex items-start space-x-4 text-[15px] text-zinc-300"><div className="w-1.5 h-1.5 rounded-full bg-zinc-700 mt-2 flex-shrink-0"></div><span>{p}</span></li>))}</ul>
+                            </div>
+                            <div>
+                              <h4 className="speaker-label mb-8 text-[#FF453A]">Action Items</h4>
+                              <ul className="space-y-4">{analysis.actionItems.map((p, i) => (<li key={i} className="flex items-start space-x-4 text-[15px] text-zinc-300"><span className="text-[#FF453A] font-black flex-shrink-0">→</span><span>{p}</span></li>))}</ul>
+                            </div>
+                          </div>
                         </div>
-                      </div>
+                      )}
+                      {analyses.map(result => (<AnalysisReport key={result.id} analysis={result} />))}
                     </div>
                   </div>
                 )}
@@ -429,14 +1659,31 @@ const App: React.FC = () => {
             >
               <span className="material-icons-outlined text-3xl text-white">{isActive ? 'stop' : 'mic'}</span>
             </button>
+            {isActive && (
+              <button 
+                onClick={isPaused ? resumeRecording : pauseRecording}
+                className="w-14 h-14 flex items-center justify-center rounded-2xl bg-white/10 hover:bg-white/20 transition-all duration-300"
+              >
+                <span className="material-icons-outlined text-3xl text-white">{isPaused ? 'play_arrow' : 'pause'}</span>
+              </button>
+            )}
             <div className="h-8 w-[1px] bg-white/10"></div>
+            <select 
+              value={selectedTemplateId} 
+              onChange={(e) => setSelectedTemplateId(e.target.value)} 
+              title="Analysis template"
+              className="bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-[12px] font-bold text-zinc-300 focus:ring-0"
+            >
+              {templates.map(template => (<option key={template.id} value={template.id}>{template.name}</option>))}
+            </select>
             <button disabled={segments.length === 0 || isProcessing} onClick={runAnalysis} className={`flex flex-col items-center gap-1 transition-all group ${segments.length === 0 ? 'opacity-20' : 'text-zinc-500 hover:text-white'}`}>
               <span className="material-icons-outlined text-2xl group-hover:text-[#007AFF]">auto_awesome</span>
               <span className="text-[10px] font-black uppercase tracking-widest">Analyze</span>
             </button>
-            <button disabled={segments.length === 0} onClick={downloadTranscript} className={`flex flex-col items-center gap-1 transition-all group ${segments.length === 0 ? 'opacity-20' : 'text-zinc-500 hover:text-white'}`}>
-              <span className="material-icons-outlined text-2xl group-hover:text-[#007AFF]">download</span>
-              <span className="text-[10px] font-black uppercase tracking-widest">Export</span>
+            <ExportMenu disabled={segments.length === 0} onExport={exportTranscript} />
+            <button disabled={segments.length === 0 || isPublishing} onClick={publishToNotion} className={`flex flex-col items-center gap-1 transition-all group ${segments.length === 0 ? 'opacity-20' : isPublishing ? 'text-[#007AFF] animate-pulse' : 'text-zinc-500 hover:text-white'}`}>
+              <span className="material-icons-outlined text-2xl group-hover:text-[#007AFF]">{viewingSession?.notionPageId ? 'sync' : 'publish'}</span>
+              <span className="text-[10px] font-black uppercase tracking-widest">Notion</span>
             </button>
           </div>
         </div>
@@ -456,6 +1703,20 @@ const App: React.FC = () => {
           </div>
         )}
       </main>
+
+      {isChatOpen && (
+        <ChatPanel 
+          scope={effectiveChatScope} 
+          canAskSession={Boolean(viewingSession) && segments.length > 0} 
+          messages={chatMessages} 
+          isThinking={isChatThinking} 
+          onScopeChange={setChatScope} 
+          onAsk={askChat} 
+          onOpenCitation={openSessionAt} 
+          onClear={() => setChatThreads(prev => ({ ...prev, [chatThreadKey]: [] }))} 
+          onClose={() => setIsChatOpen(false)} 
+        />
+      )}
     </div>
   );
 };
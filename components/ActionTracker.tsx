@@ -0,0 +1,111 @@
+import React, { useState, useMemo } from 'react';
+import { ActionItem, ActionItemStatus } from '../types';
+
+interface ActionTrackerProps {
+  items: ActionItem[];
+  sessionTitles: Record<string, string>;
+  onUpdate: (item: ActionItem) => void;
+  onOpenSource: (sessionId: string, segmentId: string | null) => void;
+}
+
+type StatusFilter = ActionItemStatus | 'all';
+
+const FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'done', label: 'Done' },
+  { value: 'dismissed', label: 'Dismissed' },
+  { value: 'all', label: 'All' }
+];
+
+const todayKey = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${(now.getMonth() + 1).toString().padStart(2, '0')}-${now.getDate().toString().padStart(2, '0')}`;
+};
+
+export const ActionTracker: React.FC<ActionTrackerProps> = ({ items, sessionTitles, onUpdate, onOpenSource }) => {
+  const [filter, setFilter] = useState<StatusFilter>('open');
+  const [ownerFilter, setOwnerFilter] = useState('');
+
+  const owners = useMemo(() => Array.from(new Set(items.map(i => i.owner).filter(Boolean) as string[])).sort(), [items]);
+  const visible = items.filter(item =>
+    (filter === 'all' || item.status === filter) && (!ownerFilter || item.owner === ownerFilter)
+  );
+  const today = todayKey();
+
+  const edit = (item: ActionItem, patch: Partial<ActionItem>) =>
+    onUpdate({ ...item, ...patch, edited: true, updatedAt: Date.now() });
+
+  return (
+    <div className="animate-in">
+      <h1 className="text-[40px] font-black mb-4 tracking-tight">Action Items</h1>
+      <p className="text-zinc-500 font-medium text-lg mb-12">Everything agreed across your sessions. Analyze a session to pull its tasks in.</p>
+
+      <div className="flex flex-wrap items-center gap-3 mb-10">
+        {FILTERS.map(({ value, label }) => (
+          <button key={value} onClick={() => setFilter(value)} className={`px-4 py-2 rounded-xl text-[12px] font-bold transition-all ${filter === value ? 'bg-white/10 text-white' : 'text-zinc-500 hover:bg-white/5'}`}>
+            {label} <span className="text-zinc-600">{value === 'all' ? items.length : items.filter(i => i.status === value).length}</span>
+          </button>
+        ))}
+        <select value={ownerFilter} onChange={(e) => setOwnerFilter(e.target.value)} className="ml-auto bg-white/5 border border-white/5 rounded-lg px-3 py-2 text-[12px] font-bold text-zinc-300">
+          <option value="">Anyone</option>
+          {owners.map(owner => <option key={owner} value={owner}>{owner}</option>)}
+        </select>
+      </div>
+
+      <div className="space-y-3">
+        {visible.map(item => (
+          <div key={`${item.id}-${item.updatedAt}`} className="flex items-start gap-5 p-6 bg-white/5 rounded-2xl border border-white/5">
+            <button onClick={() => edit(item, { status: item.status === 'done' ? 'open' : 'done' })} className="mt-0.5">
+              <span className={`material-icons-outlined text-[22px] ${item.status === 'done' ? 'text-green-500' : 'text-zinc-600 hover:text-white'}`}>
+                {item.status === 'done' ? 'check_box' : 'check_box_outline_blank'}
+              </span>
+            </button>
+            <div className="flex-1 min-w-0">
+              <input
+                defaultValue={item.text}
+                onBlur={(e) => { if (e.target.value.trim() && e.target.value !== item.text) edit(item, { text: e.target.value.trim() }); }}
+                className={`w-full bg-transparent border-none p-0 text-[15px] font-semibold focus:ring-0 ${item.status === 'open' ? 'text-white' : 'text-zinc-500 line-through'}`}
+              />
+              <div className="flex flex-wrap items-center gap-4 mt-3 text-[12px] text-zinc-500">
+                <label className="flex items-center gap-1">
+                  <span className="material-icons-outlined text-[16px]">person</span>
+                  <input
+                    defaultValue={item.owner || ''}
+                    placeholder="Owner"
+                    onBlur={(e) => { if (e.target.value.trim() !== (item.owner || '')) edit(item, { owner: e.target.value.trim() || undefined }); }}
+                    className="bg-transparent border-none p-0 w-28 text-[12px] text-zinc-300 focus:ring-0"
+                  />
+                </label>
+                <label className={`flex items-center gap-1 ${item.status === 'open' && item.dueDate && item.dueDate < today ? 'text-[#FF453A]' : ''}`}>
+                  <span className="material-icons-outlined text-[16px]">event</span>
+                  <input
+                    type="date"
+                    value={item.dueDate || ''}
+                    onChange={(e) => edit(item, { dueDate: e.target.value || undefined })}
+                    className="bg-transparent border-none p-0 text-[12px] focus:ring-0"
+                  />
+                </label>
+                <button onClick={() => onOpenSource(item.sessionId, item.segmentId || null)} className="flex items-center gap-1 hover:text-[#007AFF] transition-colors truncate">
+                  <span className="material-icons-outlined text-[16px]">description</span>
+                  <span className="truncate">{sessionTitles[item.sessionId] || 'Source session'}</span>
+                </button>
+              </div>
+            </div>
+            {item.status !== 'dismissed' ? (
+              <button onClick={() => edit(item, { status: 'dismissed' })} title="Dismiss" className="text-zinc-700 hover:text-zinc-400">
+                <span className="material-icons-outlined text-[18px]">close</span>
+              </button>
+            ) : (
+              <button onClick={() => edit(item, { status: 'open' })} title="Reopen" className="text-zinc-700 hover:text-zinc-400">
+                <span className="material-icons-outlined text-[18px]">undo</span>
+              </button>
+            )}
+          </div>
+        ))}
+        {visible.length === 0 && (
+          <div className="py-20 text-center bg-white/5 rounded-3xl border border-dashed border-white/10 text-zinc-600 font-bold">Nothing here.</div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { TemplateAnalysis } from '../types';
+
+interface AnalysisReportProps {
+  analysis: TemplateAnalysis;
+}
+
+// "followUpQuestions" -> "Follow Up Questions"
+const humanize = (key: string) => key
+  .replace(/([a-z])([A-Z])/g, '$1 $2')
+  .replace(/[_-]+/g, ' ')
+  .replace(/\b\w/g, c => c.toUpperCase());
+
+const isScalar = (value: unknown) => value === null || ['string', 'number', 'boolean'].includes(typeof value);
+
+const Value: React.FC<{ value: unknown }> = ({ value }) => {
+  if (isScalar(value)) return <span>{String(value ?? '')}</span>;
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return <span className="text-zinc-600">None</span>;
+    return (
+      <ul className="space-y-4">
+        {value.map((item, i) => isScalar(item) ? (
+          <li key={i} className="flex items-start space-x-4 text-[15px] text-zinc-300"><div className="w-1.5 h-1.5 rounded-full bg-zinc-700 mt-2 flex-shrink-0"></div><span>{String(item)}</span></li>
+        ) : (
+          <li key={i} className="p-6 bg-white/5 rounded-2xl border border-white/5 text-[15px] text-zinc-300"><Value value={item} /></li>
+        ))}
+      </ul>
+    );
+  }
+
+  return (
+    <dl className="space-y-3">
+      {Object.entries(value as Record<string, unknown>).map(([key, nested]) => (
+        <div key={key}>
+          <dt className="text-[11px] font-black uppercase tracking-widest text-zinc-500 mb-1">{humanize(key)}</dt>
+          <dd className="text-zinc-300"><Value value={nested} /></dd>
+        </div>
+      ))}
+    </dl>
+  );
+};
+
+export const AnalysisReport: React.FC<AnalysisReportProps> = ({ analysis }) => (
+  <div className="p-12 bg-white/5 rounded-[40px] space-y-12 border border-white/5">
+    <div className="flex items-center justify-between">
+      <h3 className="text-[24px] font-black tracking-tight">{analysis.templateName}</h3>
+      <span className="text-[11px] font-mono text-zinc-600">{new Date(analysis.createdAt).toLocaleString()}</span>
+    </div>
+    {Object.entries(analysis.result).map(([section, value]) => (
+      <div key={section}>
+        <h4 className="speaker-label mb-6 text-[#007AFF]">{humanize(section)}</h4>
+        <div className="text-[15px] text-zinc-300 leading-relaxed"><Value value={value} /></div>
+      </div>
+    ))}
+  </div>
+);
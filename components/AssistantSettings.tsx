@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { LlmProvider, LlmSettings, DEFAULT_STUB_ENDPOINT } from '../services/llmClient';
+
+interface AssistantSettingsProps {
+  settings: LlmSettings;
+  onSave: (settings: LlmSettings) => void;
+}
+
+const PROVIDER_NAMES: Record<LlmProvider, string> = {
+  gemini: 'Gemini',
+  proxy: 'AI Proxy',
+  stub: 'Local Stub'
+};
+
+export const AssistantSettings: React.FC<AssistantSettingsProps> = ({ settings, onSave }) => {
+  const [draft, setDraft] = useState(settings);
+
+  return (
+    <div className="max-w-2xl mx-auto mt-16 p-10 bg-white/5 rounded-3xl border border-white/5 animate-in">
+      <div className="flex items-center gap-3 mb-2">
+        <span className="material-icons-outlined text-zinc-400">smart_toy</span>
+        <h2 className="text-[22px] font-black tracking-tight">AI Model</h2>
+      </div>
+      <p className="text-[13px] text-zinc-500 mb-8">Diarization, templates, action items and chat all run through this model.</p>
+
+      <div className="space-y-6">
+        <div className="flex gap-3">
+          {(Object.keys(PROVIDER_NAMES) as LlmProvider[]).map(provider => (
+            <button key={provider} onClick={() => setDraft({ ...draft, provider })} className={`px-5 py-2.5 rounded-xl text-[13px] font-bold transition-all ${draft.provider === provider ? 'bg-white/10 text-white' : 'text-zinc-500 hover:bg-white/5'}`}>
+              {PROVIDER_NAMES[provider]}
+            </button>
+          ))}
+        </div>
+        {draft.provider === 'gemini' && (
+          <label className="block">
+            <span className="speaker-label">Gemini API Key</span>
+            <input type="password" value={draft.apiKey} onChange={(e) => setDraft({ ...draft, apiKey: e.target.value })} placeholder="AIza..." className="mt-2 w-full px-4 py-3 bg-[#202020] rounded-xl border border-white/10 text-white text-[14px] focus:ring-0" />
+            <span className="block mt-2 text-[12px] text-zinc-600">Stored on this device only, and encrypted when the vault is on. Calls go straight from the browser to Google.</span>
+          </label>
+        )}
+        {draft.provider === 'proxy' && (
+          <>
+            <label className="block">
+              <span className="speaker-label">Proxy URL</span>
+              <input type="text" value={draft.proxyUrl} onChange={(e) => setDraft({ ...draft, proxyUrl: e.target.value })} placeholder="http://localhost:8788" className="mt-2 w-full px-4 py-3 bg-[#202020] rounded-xl border border-white/10 text-white text-[14px] focus:ring-0" />
+              <span className="block mt-2 text-[12px] text-zinc-600">The proxy holds the Gemini key server-side; see proxy/ai-proxy.mjs. Point the OpenAI-compatible transcription endpoint at its /v1 path to keep the Groq key off the client too.</span>
+            </label>
+            <label className="block">
+              <span className="speaker-label">Access Token</span>
+              <input type="password" value={draft.proxyToken} onChange={(e) => setDraft({ ...draft, proxyToken: e.target.value })} placeholder="Optional" className="mt-2 w-full px-4 py-3 bg-[#202020] rounded-xl border border-white/10 text-white text-[14px] focus:ring-0" />
+            </label>
+          </>
+        )}
+        {draft.provider === 'stub' && (
+          <label className="block">
+            <span className="speaker-label">Stub Endpoint</span>
+            <input type="text" value={draft.endpoint} onChange={(e) => setDraft({ ...draft, endpoint: e.target.value })} placeholder={DEFAULT_STUB_ENDPOINT} className="mt-2 w-full px-4 py-3 bg-[#202020] rounded-xl border border-white/10 text-white text-[14px] focus:ring-0" />
+            <span className="block mt-2 text-[12px] text-zinc-600">Receives POST /generate with {'{ prompt, schema }'} and must answer {'{ text }'}.</span>
+          </label>
+        )}
+      </div>
+
+      <button onClick={() => onSave(draft)} className="mt-8 px-8 py-3 rounded-xl bg-[#007AFF] text-white text-[13px] font-bold hover:scale-105 transition-all">Save Model Settings</button>
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { ConflictStrategy, ImportPlan } from '../services/backupService';
+
+interface BackupSettingsProps {
+  onExport: (includeRecordings: boolean) => Promise<void>;
+  onPreview: (file: File) => Promise<ImportPlan>;
+  onImport: (plan: ImportPlan, strategy: ConflictStrategy, replaceSettings: boolean) => Promise<void>;
+}
+
+const STRATEGIES: { value: ConflictStrategy; label: string }[] = [
+  { value: 'newest', label: 'Keep the newer version' },
+  { value: 'local', label: 'Keep this device' },
+  { value: 'incoming', label: 'Use the backup' },
+  { value: 'both', label: 'Keep both' }
+];
+
+export const BackupSettings: React.FC<BackupSettingsProps> = ({ onExport, onPreview, onImport }) => {
+  const [includeRecordings, setIncludeRecordings] = useState(false);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [strategy, setStrategy] = useState<ConflictStrategy>('newest');
+  const [replaceSettings, setReplaceSettings] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const pickFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) run(async () => setPlan(await onPreview(file)));
+  };
+
+  const apply = () => run(async () => {
+    await onImport(plan!, strategy, replaceSettings);
+    setPlan(null);
+  });
+
+  return (
+    <div className="max-w-2xl mx-auto mt-16 p-10 bg-white/5 rounded-3xl border border-white/5 animate-in">
+      <div className="flex items-center gap-3 mb-2">
+        <span className="material-icons-outlined text-zinc-400">settings_backup_restore</span>
+        <h2 className="text-[22px] font-black tracking-tight">Backup & Restore</h2>
+      </div>
+      <p className="text-[13px] text-zinc-500 mb-8">A backup holds every session, action item, manual calendar event, folder, template and rule. API keys are never included, and the file is not encrypted.</p>
+
+      <div className="flex items-center gap-6">
+        <button onClick={() => run(() => onExport(includeRecordings))} disabled={isWorking} className="px-8 py-3 rounded-xl bg-[#007AFF] text-white text-[13px] font-bold hover:scale-105 transition-all disabled:opacity-30 disabled:hover:scale-100">Download Backup</button>
+        <label className="flex items-center gap-2 text-[13px] font-bold text-zinc-400 cursor-pointer">
+          <input type="checkbox" checked={includeRecordings} onChange={(e) => setIncludeRecordings(e.target.checked)} />
+          <span>Include audio recordings</span>
+        </label>
+      </div>
+
+      <div className="mt-10 pt-8 border-t border-white/5">
+        {!plan ? (
+          <label className={`inline-flex items-center gap-2 px-6 py-3 rounded-xl bg-white/5 border border-white/5 text-[13px] font-bold text-zinc-300 transition-all ${isWorking ? 'opacity-30' : 'hover:bg-white/10 cursor-pointer'}`}>
+            <span className="material-icons-outlined text-[18px]">upload</span>
+            <span>Restore from Backup…</span>
+            <input type="file" accept=".json,application/json" onChange={pickFile} disabled={isWorking} className="hidden" />
+          </label>
+        ) : (
+          <div>
+            <div className="text-[13px] text-zinc-400 mb-6">
+              Backup from {plan.archive.exportedAt ? new Date(plan.archive.exportedAt).toLocaleString() : 'an older version'}:
+              <span className="text-white font-bold"> {plan.added.length} new</span>,
+              <span className="text-white font-bold"> {plan.updated.length} updated</span>,
+              <span className="text-white font-bold"> {plan.conflicts.length} changed on both sides</span>,
+              <span className="text-white font-bold"> {plan.removed.length} deleted</span>,
+              {' '}{plan.unchanged} unchanged.
+            </div>
+            {plan.conflicts.length > 0 && (
+              <div className="mb-6">
+                <span className="speaker-label">When both versions changed</span>
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {STRATEGIES.map(option => (
+                    <button key={option.value} onClick={() => setStrategy(option.value)} className={`px-4 py-2 rounded-xl text-[12px] font-bold transition-all ${strategy === option.value ? 'bg-white/10 text-white' : 'text-zinc-500 hover:bg-white/5'}`}>{option.label}</button>
+                  ))}
+                </div>
+                <ul className="mt-4 space-y-1 text-[12px] text-zinc-500">
+                  {plan.conflicts.slice(0, 5).map(({ local }) => <li key={local.id} className="truncate">• {local.title}</li>)}
+                  {plan.conflicts.length > 5 && <li>…and {plan.conflicts.length - 5} more</li>}
+                </ul>
+              </div>
+            )}
+            <label className="flex items-center gap-2 mb-8 text-[13px] font-bold text-zinc-400 cursor-pointer">
+              <input type="checkbox" checked={replaceSettings} onChange={(e) => setReplaceSettings(e.target.checked)} />
+              <span>Also replace transcription, automation, Notion and AI model settings</span>
+            </label>
+            <div className="flex items-center gap-6">
+              <button onClick={apply} disabled={isWorking} className="px-8 py-3 rounded-xl bg-[#007AFF] text-white text-[13px] font-bold hover:scale-105 transition-all disabled:opacity-30 disabled:hover:scale-100">Restore</button>
+              <button onClick={() => setPlan(null)} disabled={isWorking} className="text-[11px] font-black uppercase text-zinc-500 hover:text-white">Cancel</button>
+            </div>
+          </div>
+        )}
+      </div>
+      {isWorking && <p className="mt-4 text-[12px] font-bold text-[#007AFF] animate-pulse">Working…</p>}
+      {error && <p className="mt-4 text-[12px] font-bold text-red-400">{error}</p>}
+    </div>
+  );
+};
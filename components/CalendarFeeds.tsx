@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { CalendarFeed } from '../types';
+import { DEFAULT_FEED_RELAY, FeedRelaySettings } from '../services/feedRelayService';
+
+interface CalendarFeedsProps {
+  feeds: CalendarFeed[];
+  relay: FeedRelaySettings;
+  isSyncing: boolean;
+  onAdd: (name: string, url: string) => void;
+  onRemove: (id: string) => void;
+  onSync: () => void;
+  onSaveRelay: (relay: FeedRelaySettings) => void;
+}
+
+export const CalendarFeeds: React.FC<CalendarFeedsProps> = ({ feeds, relay, isSyncing, onAdd, onRemove, onSync, onSaveRelay }) => {
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [relayDraft, setRelayDraft] = useState(relay);
+  const updateRelay = (patch: Partial<FeedRelaySettings>) => setRelayDraft(prev => ({ ...prev, ...patch }));
+
+  const submit = () => {
+    if (!/^(https?|webcal):\/\//i.test(url.trim())) return;
+    onAdd(name.trim() || 'Calendar', url.trim());
+    setName('');
+    setUrl('');
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto mt-16 p-10 bg-white/5 rounded-3xl border border-white/5 animate-in">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-3">
+          <span className="material-icons-outlined text-zinc-400">event_repeat</span>
+          <h2 className="text-[22px] font-black tracking-tight">Calendar Subscriptions</h2>
+        </div>
+        {feeds.length > 0 && (
+          <button onClick={onSync} disabled={isSyncing} className={`text-[11px] font-black uppercase ${isSyncing ? 'text-[#007AFF] animate-pulse' : 'text-zinc-500 hover:text-white'}`}>
+            {isSyncing ? 'Refreshing' : 'Refresh Now'}
+          </button>
+        )}
+      </div>
+      <p className="text-[13px] text-zinc-500 mb-8">Subscribed calendars refresh every 30 minutes. Their events are replaced on each refresh; events you imported by hand are kept.</p>
+
+      <div className="space-y-2 mb-10">
+        {feeds.map(feed => (
+          <div key={feed.id} className="flex items-center justify-between gap-4 px-4 py-3 rounded-xl bg-[#202020] border border-white/5">
+            <div className="min-w-0">
+              <div className="text-[14px] font-bold text-white truncate">{feed.name}</div>
+              <div className="text-[11px] font-mono text-zinc-600 truncate">{feed.url}</div>
+              {feed.lastError ? (
+                <div className="text-[11px] font-bold text-red-400 mt-1">{feed.lastError}</div>
+              ) : feed.lastSyncedAt ? (
+                <div className="text-[11px] text-zinc-500 mt-1">Synced {new Date(feed.lastSyncedAt).toLocaleString()}</div>
+              ) : null}
+            </div>
+            <button onClick={() => onRemove(feed.id)} className="text-[11px] font-black uppercase text-zinc-500 hover:text-[#FF453A] flex-shrink-0">Remove</button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-6">
+        <label className="block">
+          <span className="speaker-label">Name</span>
+          <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Work" className="mt-2 w-full px-4 py-3 bg-[#202020] rounded-xl border border-white/10 text-white text-[14px] focus:ring-0" />
+        </label>
+        <label className="block">
+          <span className="speaker-label">ICS URL</span>
+          <input type="text" value={url} onChange={(e) => setUrl(e.target.value)} placeholder="https://calendar.google.com/calendar/ical/.../basic.ics" className="mt-2 w-full px-4 py-3 bg-[#202020] rounded-xl border border-white/10 text-white text-[14px] focus:ring-0" />
+          <span className="block mt-2 text-[12px] text-zinc-600">Use the secret iCal address from Google, Outlook or iCloud.</span>
+        </label>
+      </div>
+
+      <button onClick={submit} disabled={!url.trim()} className="mt-8 px-8 py-3 rounded-xl bg-[#007AFF] text-white text-[13px] font-bold hover:scale-105 transition-all disabled:opacity-30 disabled:hover:scale-100">Subscribe</button>
+
+      <div className="space-y-6 mt-12 pt-10 border-t border-white/5">
+        <p className="text-[13px] text-zinc-500">Calendar providers don't let browsers download feeds, so every refresh goes through a relay. Run the AI proxy (npm run proxy) or point this at another relay that takes the feed address as ?url=.</p>
+        <label className="block">
+          <span className="speaker-label">Relay Endpoint</span>
+          <input type="text" value={relayDraft.endpoint} onChange={(e) => updateRelay({ endpoint: e.target.value })} placeholder={DEFAULT_FEED_RELAY} className="mt-2 w-full px-4 py-3 bg-[#202020] rounded-xl border border-white/10 text-white text-[14px] focus:ring-0" />
+        </label>
+        <label className="block">
+          <span className="speaker-label">Relay Token</span>
+          <input type="password" value={relayDraft.token} onChange={(e) => updateRelay({ token: e.target.value })} placeholder="Proxy token" className="mt-2 w-full px-4 py-3 bg-[#202020] rounded-xl border border-white/10 text-white text-[14px] focus:ring-0" />
+        </label>
+      </div>
+
+      <button onClick={() => onSaveRelay(relayDraft)} className="mt-8 px-8 py-3 rounded-xl bg-white/10 text-white text-[13px] font-bold hover:scale-105 transition-all">Save Relay</button>
+    </div>
+  );
+};
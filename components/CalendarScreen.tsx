@@ -0,0 +1,191 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { CalendarEvent, Session } from '../types';
+import { expandSchedule, sessionsForEvent } from '../services/calendarService';
+
+interface CalendarScreenProps {
+  events: CalendarEvent[];
+  sessions: Session[];
+  onRangeChange: (from: number, to: number) => void;
+  onOpenSession: (session: Session) => void;
+  onStartRecording: (event: CalendarEvent) => void;
+}
+
+type CalendarView = 'day' | 'week';
+
+const HOUR_HEIGHT = 48;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface Block {
+  key: string;
+  start: number;
+  end: number;
+  lane: number;
+  event?: CalendarEvent;
+  session?: Session;
+}
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const visibleDays = (view: CalendarView, anchor: Date): Date[] => {
+  if (view === 'day') return [startOfDay(anchor)];
+  const monday = addDays(anchor, -((anchor.getDay() + 6) % 7));
+  return Array.from({ length: 7 }, (_, i) => addDays(monday, i));
+};
+
+const formatTime = (epoch: number) => new Date(epoch).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// Greedy lanes so overlapping items sit side by side
+const layoutBlocks = (items: Omit<Block, 'lane'>[]): { blocks: Block[]; lanes: number } => {
+  const laneEnds: number[] = [];
+  const blocks = [...items].sort((a, b) => a.start - b.start).map(item => {
+    let lane = laneEnds.findIndex(end => end <= item.start);
+    if (lane < 0) lane = laneEnds.length;
+    laneEnds[lane] = item.end;
+    return { ...item, lane };
+  });
+  return { blocks, lanes: Math.max(1, laneEnds.length) };
+};
+
+export const CalendarScreen: React.FC<CalendarScreenProps> = ({ events, sessions, onRangeChange, onOpenSession, onStartRecording }) => {
+  const [view, setView] = useState<CalendarView>('week');
+  const [anchor, setAnchor] = useState(() => startOfDay(new Date()));
+  const gridRef = useRef<HTMLDivElement>(null);
+  const now = Date.now();
+
+  const days = useMemo(() => visibleDays(view, anchor), [view, anchor]);
+  const from = days[0].getTime();
+  const to = addDays(days[days.length - 1], 1).getTime();
+
+  useEffect(() => {
+    onRangeChange(from, to);
+  }, [from, to, onRangeChange]);
+
+  useEffect(() => {
+    if (gridRef.current) gridRef.current.scrollTop = 8 * HOUR_HEIGHT;
+  }, []);
+
+  const occurrences = useMemo(() => expandSchedule(events, from, to), [events, from, to]);
+
+  const columns = useMemo(() => days.map(day => {
+    const dayStart = day.getTime();
+    const dayEnd = addDays(day, 1).getTime();
+    const overlapping = occurrences.filter(e => e.start! < dayEnd && (e.end ?? e.start!) > dayStart);
+    const allDay = overlapping.filter(e => e.allDay || (e.start! <= dayStart && (e.end ?? 0) >= dayEnd));
+    const timed = overlapping.filter(e => !allDay.includes(e));
+
+    const linked = new Set(timed.flatMap(e => sessionsForEvent(e, sessions).map(s => s.id)));
+    const looseSessions = sessions.filter(s => !linked.has(s.id) && s.timestamp >= dayStart && s.timestamp < dayEnd);
+
+    const { blocks, lanes } = layoutBlocks([
+      ...timed.map(event => ({ key: event.id, start: Math.max(event.start!, dayStart), end: Math.min(Math.max(event.end ?? 0, event.start! + 15 * 60000), dayEnd), event })),
+      ...looseSessions.map(session => ({ key: session.id, start: session.timestamp, end: Math.min(session.timestamp + Math.max(session.duration || 0, 900) * 1000, dayEnd), session }))
+    ]);
+    return { day, dayStart, allDay, blocks, lanes };
+  }), [days, occurrences, sessions]);
+
+  const shift = (direction: number) => setAnchor(prev => addDays(prev, direction * (view === 'day' ? 1 : 7)));
+  const rangeLabel = view === 'day'
+    ? anchor.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })
+    : `${days[0].toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} – ${days[6].toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}`;
+
+  return (
+    <div className="animate-in">
+      <h1 className="text-[40px] font-black mb-4 tracking-tight">Calendar</h1>
+      <p className="text-zinc-500 font-medium text-lg mb-10">Meetings from your imported and subscribed calendars, next to what you recorded.</p>
+
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <button onClick={() => shift(-1)} className="w-9 h-9 rounded-xl bg-white/5 text-zinc-400 hover:text-white flex items-center justify-center">
+          <span className="material-icons-outlined text-[20px]">chevron_left</span>
+        </button>
+        <button onClick={() => setAnchor(startOfDay(new Date()))} className="px-4 h-9 rounded-xl bg-white/5 text-[12px] font-bold text-zinc-300 hover:text-white">Today</button>
+        <button onClick={() => shift(1)} className="w-9 h-9 rounded-xl bg-white/5 text-zinc-400 hover:text-white flex items-center justify-center">
+          <span className="material-icons-outlined text-[20px]">chevron_right</span>
+        </button>
+        <span className="ml-2 text-[15px] font-bold text-white">{rangeLabel}</span>
+        <div className="ml-auto flex bg-white/5 rounded-xl p-1">
+          {(['day', 'week'] as const).map(value => (
+            <button key={value} onClick={() => setView(value)} className={`px-4 py-1.5 rounded-lg text-[12px] font-bold capitalize transition-all ${view === value ? 'bg-white/10 text-white' : 'text-zinc-500 hover:text-white'}`}>{value}</button>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white/5 rounded-3xl border border-white/5 overflow-hidden">
+        <div className="flex border-b border-white/5">
+          <div className="w-14 flex-shrink-0" />
+          {columns.map(({ day, allDay }) => (
+            <div key={day.getTime()} className="flex-1 min-w-0 px-2 py-3 border-l border-white/5">
+              <div className={`text-[11px] font-black uppercase tracking-widest ${startOfDay(new Date()).getTime() === day.getTime() ? 'text-[#007AFF]' : 'text-zinc-500'}`}>
+                {day.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric' })}
+              </div>
+              {allDay.map(event => (
+                <div key={event.id} title={event.title} className="mt-1.5 px-2 py-1 rounded-md bg-[#007AFF]/20 text-[11px] font-bold text-white truncate">{event.title}</div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div ref={gridRef} className="relative flex h-[560px] overflow-y-auto custom-scrollbar">
+          <div className="w-14 flex-shrink-0">
+            {Array.from({ length: 24 }, (_, hour) => (
+              <div key={hour} style={{ height: HOUR_HEIGHT }} className="pr-2 text-right text-[10px] font-mono text-zinc-600 -translate-y-1.5">{hour > 0 ? `${hour.toString().padStart(2, '0')}:00` : ''}</div>
+            ))}
+          </div>
+          {columns.map(({ day, dayStart, blocks, lanes }) => (
+            <div key={day.getTime()} className="relative flex-1 min-w-0 border-l border-white/5" style={{ height: HOUR_HEIGHT * 24 }}>
+              {Array.from({ length: 24 }, (_, hour) => (
+                <div key={hour} style={{ top: hour * HOUR_HEIGHT }} className="absolute inset-x-0 border-t border-white/[0.03]" />
+              ))}
+              {now >= dayStart && now < dayStart + DAY_MS && (
+                <div style={{ top: ((now - dayStart) / 3600000) * HOUR_HEIGHT }} className="absolute inset-x-0 h-px bg-[#FF453A] z-10" />
+              )}
+              {blocks.map(block => {
+                const style = {
+                  top: ((block.start - dayStart) / 3600000) * HOUR_HEIGHT,
+                  height: Math.max(18, ((block.end - block.start) / 3600000) * HOUR_HEIGHT - 2),
+                  left: `${(block.lane / lanes) * 100}%`,
+                  width: `${100 / lanes}%`
+                };
+                if (block.session) {
+                  return (
+                    <button key={block.key} style={style} onClick={() => onOpenSession(block.session!)} title={block.session.title} className="absolute px-1 text-left">
+                      <div className="h-full px-2 py-1 rounded-md bg-green-500/15 border border-green-500/20 text-[11px] font-bold text-green-300 overflow-hidden hover:bg-green-500/25 transition-all">
+                        <span className="material-icons-outlined text-[12px] align-middle mr-1">mic</span>{block.session.title}
+                      </div>
+                    </button>
+                  );
+                }
+                const event = block.event!;
+                const recordings = sessionsForEvent(event, sessions);
+                const isPast = (event.end ?? event.start!) <= now;
+                const isLive = event.start! <= now && !isPast;
+                return (
+                  <div key={block.key} style={style} className="absolute px-1">
+                    <div className={`group h-full px-2 py-1 rounded-md border overflow-hidden ${recordings.length > 0 ? 'bg-[#007AFF]/25 border-[#007AFF]/40' : isPast ? 'bg-white/5 border-white/5 opacity-60' : 'bg-[#007AFF]/15 border-[#007AFF]/20'}`}>
+                      <div className="text-[11px] font-bold text-white truncate" title={event.title}>{event.title}</div>
+                      <div className="text-[10px] font-mono text-zinc-400">{formatTime(event.start!)}{event.location ? ` · ${event.location}` : ''}</div>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {recordings.map(session => (
+                          <button key={session.id} onClick={() => onOpenSession(session)} className="flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-[#5AC8FA] hover:text-white">
+                            <span className="material-icons-outlined text-[13px]">play_circle</span>
+                            <span>Recording</span>
+                          </button>
+                        ))}
+                        {recordings.length === 0 && !isPast && (
+                          <button onClick={() => onStartRecording(event)} className={`items-center gap-1 text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-white ${isLive ? 'flex' : 'hidden group-hover:flex'}`}>
+                            <span className="material-icons-outlined text-[13px]">fiber_manual_record</span>
+                            <span>Record</span>
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ChatMessage } from '../types';
+
+export type ChatScope = 'session' | 'library';
+
+interface ChatPanelProps {
+  scope: ChatScope;
+  canAskSession: boolean;
+  messages: ChatMessage[];
+  isThinking: boolean;
+  onScopeChange: (scope: ChatScope) => void;
+  onAsk: (question: string) => void;
+  onOpenCitation: (sessionId: string, segmentId: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const SUGGESTIONS: Record<ChatScope, string[]> = {
+  session: ['What did we decide?', 'What are the open questions?'],
+  library: ['What did we decide about pricing?', 'Who owns the launch?']
+};
+
+export const ChatPanel: React.FC<ChatPanelProps> = ({ scope, canAskSession, messages, isThinking, onScopeChange, onAsk, onOpenCitation, onClear, onClose }) => {
+  const [question, setQuestion] = useState('');
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages.length, isThinking]);
+
+  const submit = (text: string) => {
+    if (!text.trim() || isThinking) return;
+    onAsk(text.trim());
+    setQuestion('');
+  };
+
+  return (
+    <aside className="w-[380px] flex-shrink-0 flex flex-col bg-[#1C1C1E] border-l border-white/5 z-20">
+      <div className="flex items-center justify-between px-6 h-20 border-b border-white/5">
+        <div className="flex bg-white/5 rounded-xl p-1">
+          {(['session', 'library'] as const).map(value => (
+            <button
+              key={value}
+              disabled={value === 'session' && !canAskSession}
+              onClick={() => onScopeChange(value)}
+              className={`px-3 py-1.5 rounded-lg text-[12px] font-bold transition-all disabled:opacity-30 ${scope === value ? 'bg-white/10 text-white' : 'text-zinc-500 hover:text-white'}`}
+            >
+              {value === 'session' ? 'This Session' : 'Whole Library'}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          {messages.length > 0 && (
+            <button onClick={onClear} title="Clear conversation" className="text-zinc-600 hover:text-white">
+              <span className="material-icons-outlined text-[18px]">delete_sweep</span>
+            </button>
+          )}
+          <button onClick={onClose} className="text-zinc-600 hover:text-white">
+            <span className="material-icons-outlined text-[20px]">close</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar px-6 py-6 space-y-6">
+        {messages.length === 0 && (
+          <div className="pt-10 text-center">
+            <span className="material-icons-outlined text-zinc-700 text-[40px]">forum</span>
+            <p className="text-[13px] text-zinc-500 mt-3 mb-6">
+              {scope === 'session' ? 'Ask anything about this transcript.' : 'Ask across every session in your library.'}
+            </p>
+            <div className="space-y-2">
+              {SUGGESTIONS[scope].map(s => (
+                <button key={s} onClick={() => submit(s)} className="block w-full px-4 py-2.5 rounded-xl bg-white/5 text-[12px] font-semibold text-zinc-400 hover:text-white hover:bg-white/10 transition-all">{s}</button>
+              ))}
+            </div>
+          </div>
+        )}
+        {messages.map(message => (
+          <div key={message.id} className={message.role === 'user' ? 'flex justify-end' : ''}>
+            <div className={`max-w-[90%] px-4 py-3 rounded-2xl text-[14px] leading-relaxed whitespace-pre-wrap ${message.role === 'user' ? 'bg-[#007AFF] text-white' : 'bg-white/5 text-zinc-200'}`}>
+              {message.text}
+            </div>
+            {message.citations && message.citations.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-2">
+                {message.citations.map(c => (
+                  <button key={`${c.sessionId}-${c.segmentId}`} onClick={() => onOpenCitation(c.sessionId, c.segmentId)} className="flex items-center gap-1 px-2.5 py-1 rounded-lg bg-white/5 text-[11px] font-bold text-zinc-500 hover:text-[#007AFF] transition-colors max-w-full">
+                    <span className="material-icons-outlined text-[14px]">format_quote</span>
+                    <span className="truncate">{c.label}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+        {isThinking && <div className="text-[12px] font-bold text-zinc-600 animate-pulse">Reading transcripts...</div>}
+        <div ref={bottomRef} />
+      </div>
+
+      <form onSubmit={(e) => { e.preventDefault(); submit(question); }} className="p-4 border-t border-white/5 flex items-center gap-2">
+        <input
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="Ask a question..."
+          className="flex-1 px-4 py-3 bg-[#202020] rounded-xl border border-white/10 text-white text-[14px] focus:ring-0"
+        />
+        <button type="submit" disabled={!question.trim() || isThinking} className="w-11 h-11 rounded-xl bg-[#007AFF] text-white flex items-center justify-center disabled:opacity-30">
+          <span className="material-icons-outlined text-[20px]">send</span>
+        </button>
+      </form>
+    </aside>
+  );
+};
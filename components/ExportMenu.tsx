@@ -0,0 +1,36 @@
+import React, { useState } from 'react';
+import { EXPORT_FORMATS, ExportFormat } from '../services/exportService';
+
+interface ExportMenuProps {
+  disabled?: boolean;
+  label?: string;
+  direction?: 'up' | 'down';
+  onExport: (format: ExportFormat) => void;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ disabled, label = 'Export', direction = 'up', onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button disabled={disabled} onClick={() => setIsOpen(open => !open)} className={`flex flex-col items-center gap-1 transition-all group ${disabled ? 'opacity-20' : 'text-zinc-500 hover:text-white'}`}>
+        <span className="material-icons-outlined text-2xl group-hover:text-[#007AFF]">download</span>
+        <span className="text-[10px] font-black uppercase tracking-widest">{label}</span>
+      </button>
+      {isOpen && !disabled && (
+        <div className={`absolute ${direction === 'up' ? 'bottom-full mb-6' : 'top-full mt-4'} left-1/2 -translate-x-1/2 w-52 p-2 bg-[#252525] border border-white/10 rounded-2xl shadow-2xl z-40`}>
+          {EXPORT_FORMATS.map(({ format, label: formatLabel }) => (
+            <button
+              key={format}
+              onClick={() => { setIsOpen(false); onExport(format); }}
+              className="w-full flex items-center justify-between px-4 py-2.5 rounded-xl text-[13px] font-bold text-zinc-400 hover:bg-white/5 hover:text-white transition-all"
+            >
+              <span>{formatLabel}</span>
+              <span className="text-[10px] font-mono text-zinc-600 uppercase">.{format}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import React, { useState, useRef } from 'react';
+import { ImportJob } from '../types';
+
+interface FileImportScreenProps {
+  jobs: ImportJob[];
+  onFiles: (files: File[]) => void;
+  onRetry: (jobId: string) => void;
+  onOpen: (sessionId: string) => void;
+  onClearFinished: () => void;
+}
+
+const formatSize = (bytes: number): string => {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+};
+
+const STATUS_ICON: Record<ImportJob['status'], string> = {
+  queued: 'schedule',
+  processing: 'graphic_eq',
+  done: 'check_circle',
+  error: 'error_outline'
+};
+
+// Some systems leave the type empty for formats they don't know, so the extension decides then
+const MEDIA_EXTENSIONS = /\.(aac|aiff?|amr|flac|m4a|m4v|mkv|mov|mp3|mp4|mpe?g|oga|ogg|opus|wav|weba|webm|wma)$/i;
+
+const isMediaFile = (file: File) =>
+  file.type.startsWith('audio/') || file.type.startsWith('video/') || (!file.type && MEDIA_EXTENSIONS.test(file.name));
+
+export const FileImportScreen: React.FC<FileImportScreenProps> = ({ jobs, onFiles, onRetry, onOpen, onClearFinished }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const acceptFiles = (list: FileList | null) => {
+    const files = Array.from(list || []).filter(isMediaFile);
+    if (files.length > 0) onFiles(files);
+  };
+
+  return (
+    <div className="animate-in max-w-2xl mx-auto">
+      <h1 className="text-[40px] font-black mb-4 tracking-tight">Import Recordings</h1>
+      <p className="text-zinc-500 font-medium text-lg mb-12">Drop audio or video files. Large files are split automatically and each one becomes its own session.</p>
+
+      <div
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => { e.preventDefault(); setIsDragging(false); acceptFiles(e.dataTransfer.files); }}
+        onClick={() => inputRef.current?.click()}
+        className={`py-20 flex flex-col items-center justify-center rounded-3xl border border-dashed cursor-pointer transition-all mb-12 ${isDragging ? 'border-[#007AFF] bg-[#007AFF]/10' : 'border-white/10 bg-white/5 hover:bg-white/10'}`}
+      >
+        <span className="material-icons-outlined text-5xl text-zinc-500 mb-4">upload_file</span>
+        <span className="text-[14px] font-bold text-zinc-400">Drag files here or click to browse</span>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="audio/*,video/*"
+          multiple
+          className="hidden"
+          onChange={(e) => { acceptFiles(e.target.files); e.target.value = ''; }}
+        />
+      </div>
+
+      {jobs.length > 0 && (
+        <>
+          <div className="flex items-center justify-between mb-6 px-1">
+            <span className="uppercase tracking-[0.2em] font-black text-[11px] text-zinc-600">Queue</span>
+            <button onClick={onClearFinished} className="text-[11px] font-black uppercase text-zinc-600 hover:text-white transition-all">Clear finished</button>
+          </div>
+          <div className="space-y-4">
+            {jobs.map(job => (
+              <div key={job.id} className="p-6 bg-white/5 rounded-2xl border border-white/5">
+                <div className="flex items-center gap-4">
+                  <span className={`material-icons-outlined text-[20px] ${job.status === 'error' ? 'text-[#FF453A]' : job.status === 'done' ? 'text-green-500' : 'text-[#007AFF]'}`}>{STATUS_ICON[job.status]}</span>
+                  <div className="flex-1 min-w-0">
+                    <h4 className="font-bold text-white truncate">{job.fileName}</h4>
+                    <p className="text-[12px] text-zinc-500">{job.error || `${formatSize(job.size)} · ${job.status}`}</p>
+                  </div>
+                  {job.status === 'error' && (
+                    <button onClick={() => onRetry(job.id)} className="text-[11px] font-black uppercase text-zinc-400 hover:text-white underline">Retry</button>
+                  )}
+                  {job.status === 'done' && job.sessionId && (
+                    <button onClick={() => onOpen(job.sessionId!)} className="text-[11px] font-black uppercase text-zinc-400 hover:text-white underline">Open</button>
+                  )}
+                </div>
+                {(job.status === 'processing' || job.status === 'queued') && (
+                  <div className="mt-4 h-1 bg-white/5 rounded-full overflow-hidden">
+                    <div className="h-full bg-[#007AFF] transition-all" style={{ width: `${Math.round(job.progress * 100)}%` }}></div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
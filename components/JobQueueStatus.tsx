@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { QueuedJob } from '../services/jobQueueService';
+
+interface JobQueueStatusProps {
+  jobs: QueuedJob[];
+  isOnline: boolean;
+  now: number;
+  sessionTitles: Record<string, string>;
+  onRetry: (id: string) => void;
+  onDiscard: (id: string) => void;
+}
+
+const jobLabel = (job: QueuedJob) =>
+  job.kind === 'transcribe' ? `Transcribe part ${(job.chunk?.index ?? 0) + 1}` : 'Run analysis';
+
+const jobState = (job: QueuedJob, isOnline: boolean, now: number) => {
+  if (job.status === 'running') return 'Uploading…';
+  if (job.status === 'failed') return 'Gave up after several attempts';
+  if (!isOnline) return 'Waiting for connection';
+  const seconds = Math.ceil((job.nextAttemptAt - now) / 1000);
+  return seconds > 0 ? `Retrying in ${seconds < 60 ? `${seconds}s` : `${Math.ceil(seconds / 60)} min`}` : 'Up next';
+};
+
+export const JobQueueStatus: React.FC<JobQueueStatusProps> = ({ jobs, isOnline, now, sessionTitles, onRetry, onDiscard }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  if (isOnline && jobs.length === 0) return null;
+
+  const isWorking = jobs.some(job => job.status === 'running');
+  const hasFailed = jobs.some(job => job.status === 'failed');
+
+  return (
+    <div className="relative">
+      <button onClick={() => setIsOpen(open => !open)} title="Queued uploads" className={`flex items-center gap-2 text-[12px] font-bold transition-colors ${hasFailed ? 'text-red-400' : isOnline ? 'text-zinc-500 hover:text-white' : 'text-amber-400'}`}>
+        <span className={`material-icons-outlined text-[18px] ${isWorking ? 'animate-spin' : ''}`}>{isOnline ? 'sync' : 'cloud_off'}</span>
+        <span>{isOnline ? `${jobs.length} queued` : jobs.length > 0 ? `Offline · ${jobs.length} queued` : 'Offline'}</span>
+      </button>
+      {isOpen && (
+        <div className="absolute top-full mt-4 right-0 w-80 p-2 bg-[#252525] border border-white/10 rounded-2xl shadow-2xl z-40">
+          {jobs.length === 0 ? (
+            <p className="px-4 py-3 text-[12px] text-zinc-500">You're offline. New recordings are kept on this device and transcribed once the connection returns.</p>
+          ) : jobs.map(job => (
+            <div key={job.id} className="px-4 py-3 rounded-xl hover:bg-white/5 transition-all">
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-[13px] font-bold text-zinc-300 truncate">{jobLabel(job)}</span>
+                <div className="flex items-center gap-3 shrink-0">
+                  {job.status !== 'running' && (
+                    <>
+                      {job.status === 'failed' && <button onClick={() => onRetry(job.id)} className="text-[11px] font-black uppercase text-zinc-500 hover:text-white">Retry</button>}
+                      <button onClick={() => onDiscard(job.id)} title="Discard" className="text-zinc-600 hover:text-red-400 transition-colors">
+                        <span className="material-icons-outlined text-[16px]">close</span>
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+              <div className="text-[11px] text-zinc-600 truncate">{sessionTitles[job.sessionId] || 'Untitled session'}</div>
+              <div className={`text-[11px] font-bold ${job.status === 'failed' ? 'text-red-400' : 'text-zinc-500'}`}>{jobState(job, isOnline, now)}</div>
+              {job.lastError && <div className="text-[11px] text-zinc-600 truncate" title={job.lastError}>{job.lastError}</div>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
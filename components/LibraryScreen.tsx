@@ -0,0 +1,244 @@
+import React, { useState, useMemo } from 'react';
+import { LibraryFolder, Session } from '../types';
+import { ExportFormat } from '../services/exportService';
+import { DURATION_BUCKETS, DurationBucket, LibraryFilters, LibrarySort, filterLibrary, hasActiveFilters, libraryTags, normalizeTag } from '../services/libraryService';
+import { ExportMenu } from './ExportMenu';
+
+interface LibraryScreenProps {
+  sessions: Session[];
+  folders: LibraryFolder[];
+  filters: LibraryFilters;
+  onFiltersChange: (filters: LibraryFilters) => void;
+  hasMore: boolean;
+  onLoadMore: () => void;
+  onLoadAll: () => void;
+  onOpen: (session: Session) => void;
+  onTogglePin: (session: Session) => void;
+  onCreateFolder: (name: string) => void;
+  onRenameFolder: (id: string, name: string) => void;
+  onDeleteFolder: (id: string) => void;
+  onDelete: (ids: string[]) => void;
+  onMove: (ids: string[], folderId: string | undefined) => void;
+  onTag: (ids: string[], tag: string) => void;
+  onExport: (ids: string[], format: ExportFormat) => void;
+}
+
+const SORT_LABELS: Record<LibrarySort, string> = {
+  newest: 'Newest first',
+  oldest: 'Oldest first',
+  title: 'Title',
+  longest: 'Longest first'
+};
+
+const toDateInput = (ms?: number) => {
+  if (ms === undefined) return '';
+  const date = new Date(ms);
+  return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
+};
+
+const formatLength = (seconds?: number) => {
+  if (!seconds) return null;
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60 ? `${Math.max(1, minutes)} min` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+export const LibraryScreen: React.FC<LibraryScreenProps> = ({
+  sessions, folders, filters, onFiltersChange, hasMore, onLoadMore, onLoadAll, onOpen, onTogglePin,
+  onCreateFolder, onRenameFolder, onDeleteFolder, onDelete, onMove, onTag, onExport
+}) => {
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [newFolder, setNewFolder] = useState<string | null>(null);
+  const [bulkTag, setBulkTag] = useState('');
+
+  const visible = useMemo(() => filterLibrary(sessions, filters, folders), [sessions, filters, folders]);
+  const tags = useMemo(() => libraryTags(sessions), [sessions]);
+  const folderNames = useMemo(() => Object.fromEntries(folders.map(f => [f.id, f.name])), [folders]);
+  const activeFolder = folders.find(f => f.id === filters.folder);
+  const filtered = hasActiveFilters(filters);
+
+  const update = (patch: Partial<LibraryFilters>) => onFiltersChange({ ...filters, ...patch });
+  const selected = visible.filter(s => selectedIds.has(s.id)).map(s => s.id);
+
+  const toggle = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const finish = () => {
+    setSelectedIds(new Set());
+    setIsSelecting(false);
+  };
+
+  const submitFolder = () => {
+    if (newFolder?.trim()) onCreateFolder(newFolder.trim());
+    setNewFolder(null);
+  };
+
+  const renameFolder = () => {
+    if (!activeFolder) return;
+    const name = window.prompt('Rename folder', activeFolder.name);
+    if (name?.trim()) onRenameFolder(activeFolder.id, name.trim());
+  };
+
+  const deleteFolder = () => {
+    if (!activeFolder || !window.confirm(`Delete the folder "${activeFolder.name}"? Its sessions move to Unfiled.`)) return;
+    onDeleteFolder(activeFolder.id);
+    update({ folder: 'all' });
+  };
+
+  const deleteSelected = () => {
+    if (!window.confirm(`Delete ${selected.length} session${selected.length === 1 ? '' : 's'}? This also removes their audio and action items.`)) return;
+    onDelete(selected);
+    finish();
+  };
+
+  const tagSelected = () => {
+    const tag = normalizeTag(bulkTag);
+    if (!tag) return;
+    onTag(selected, tag);
+    setBulkTag('');
+  };
+
+  const folderTab = (id: string, label: string) => (
+    <button key={id} onClick={() => update({ folder: id })} className={`px-4 py-1.5 rounded-lg text-[12px] font-bold transition-all ${filters.folder === id ? 'bg-white/10 text-white' : 'text-zinc-500 hover:text-white'}`}>{label}</button>
+  );
+
+  return (
+    <div className="animate-in">
+      <div className="flex items-center justify-between mb-10">
+        <h1 className="text-[40px] font-black tracking-tight">Your Library</h1>
+        <button onClick={() => (isSelecting ? finish() : setIsSelecting(true))} className="text-[11px] font-black uppercase tracking-widest text-zinc-500 hover:text-white transition-all">
+          {isSelecting ? 'Cancel' : 'Select'}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1 mb-4">
+        {folderTab('all', 'All')}
+        {folderTab('unfiled', 'Unfiled')}
+        {folders.map(folder => folderTab(folder.id, folder.name))}
+        {newFolder === null ? (
+          <button onClick={() => setNewFolder('')} className="ml-1 w-8 h-8 rounded-lg text-zinc-600 hover:text-white hover:bg-white/5 flex items-center justify-center" title="New folder">
+            <span className="material-icons-outlined text-[18px]">create_new_folder</span>
+          </button>
+        ) : (
+          <input
+            type="text"
+            autoFocus
+            value={newFolder}
+            onChange={(e) => setNewFolder(e.target.value)}
+            onBlur={submitFolder}
+            onKeyDown={(e) => { if (e.key === 'Enter') submitFolder(); if (e.key === 'Escape') setNewFolder(null); }}
+            placeholder="Folder name"
+            className="ml-1 px-3 py-1.5 bg-[#202020] rounded-lg border border-white/10 text-white text-[12px] focus:ring-0"
+          />
+        )}
+        {activeFolder && (
+          <div className="ml-auto flex items-center gap-4">
+            <button onClick={renameFolder} className="text-[11px] font-black uppercase text-zinc-500 hover:text-white">Rename</button>
+            <button onClick={deleteFolder} className="text-[11px] font-black uppercase text-zinc-500 hover:text-[#FF453A]">Delete Folder</button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-10 text-[12px] font-bold text-zinc-500">
+        <select value={filters.tag || ''} onChange={(e) => update({ tag: e.target.value || undefined })} className="bg-white/5 border border-white/5 rounded-lg px-3 py-2 text-zinc-300">
+          <option value="">Any tag</option>
+          {tags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+        </select>
+        <label className="flex items-center gap-2">
+          <span>From</span>
+          <input type="date" value={toDateInput(filters.from)} onChange={(e) => update({ from: e.target.value ? new Date(`${e.target.value}T00:00:00`).getTime() : undefined })} className="bg-white/5 border border-white/5 rounded-lg px-3 py-2 text-zinc-300" />
+        </label>
+        <label className="flex items-center gap-2">
+          <span>To</span>
+          <input type="date" value={toDateInput(filters.to)} onChange={(e) => update({ to: e.target.value ? new Date(`${e.target.value}T23:59:59.999`).getTime() : undefined })} className="bg-white/5 border border-white/5 rounded-lg px-3 py-2 text-zinc-300" />
+        </label>
+        <select value={filters.duration} onChange={(e) => update({ duration: e.target.value as DurationBucket })} className="bg-white/5 border border-white/5 rounded-lg px-3 py-2 text-zinc-300">
+          {(Object.keys(DURATION_BUCKETS) as DurationBucket[]).map(bucket => <option key={bucket} value={bucket}>{DURATION_BUCKETS[bucket].label}</option>)}
+        </select>
+        <select value={filters.sort} onChange={(e) => update({ sort: e.target.value as LibrarySort })} className="ml-auto bg-white/5 border border-white/5 rounded-lg px-3 py-2 text-zinc-300">
+          {(Object.keys(SORT_LABELS) as LibrarySort[]).map(sort => <option key={sort} value={sort}>{SORT_LABELS[sort]}</option>)}
+        </select>
+      </div>
+
+      {isSelecting && (
+        <div className="flex flex-wrap items-center gap-6 mb-8 px-6 py-4 bg-white/5 rounded-2xl border border-white/5">
+          <button onClick={() => setSelectedIds(new Set(visible.map(s => s.id)))} className="text-[11px] font-black uppercase text-zinc-500 hover:text-white">Select All</button>
+          <span className="text-[13px] font-bold text-zinc-300">{selected.length} selected</span>
+          <select value="" disabled={selected.length === 0} onChange={(e) => { onMove(selected, e.target.value === 'unfiled' ? undefined : e.target.value); finish(); }} className="bg-[#202020] border border-white/10 rounded-lg px-3 py-2 text-[12px] font-bold text-zinc-300 disabled:opacity-30">
+            <option value="" disabled>Move to…</option>
+            <option value="unfiled">Unfiled</option>
+            {folders.map(folder => <option key={folder.id} value={folder.id}>{folder.name}</option>)}
+          </select>
+          <div className="flex items-center gap-2">
+            <input type="text" list="library-tags" value={bulkTag} onChange={(e) => setBulkTag(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && tagSelected()} placeholder="Add tag" className="w-32 px-3 py-2 bg-[#202020] rounded-lg border border-white/10 text-white text-[12px] focus:ring-0" />
+            <datalist id="library-tags">{tags.map(tag => <option key={tag} value={tag} />)}</datalist>
+            <button onClick={tagSelected} disabled={selected.length === 0 || !bulkTag.trim()} className="text-[11px] font-black uppercase text-zinc-500 hover:text-white disabled:opacity-30">Tag</button>
+          </div>
+          <div className="ml-auto flex items-center gap-8">
+            <ExportMenu disabled={selected.length === 0} label={`Export ${selected.length}`} direction="down" onExport={(format) => { onExport(selected, format); finish(); }} />
+            <button onClick={deleteSelected} disabled={selected.length === 0} className="flex flex-col items-center gap-1 text-zinc-500 hover:text-[#FF453A] disabled:opacity-20 transition-all">
+              <span className="material-icons-outlined text-2xl">delete</span>
+              <span className="text-[10px] font-black uppercase tracking-widest">Delete</span>
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-8">
+        {visible.map(session => (
+          <div key={session.id} onClick={() => (isSelecting ? toggle(session.id) : onOpen(session))} className={`relative p-6 rounded-2xl border-2 cursor-pointer transition-all group ${selectedIds.has(session.id) ? 'border-[#007AFF] bg-[#007AFF]/10' : 'border-transparent bg-white/5 hover:bg-white/10'}`}>
+            <div className="flex items-start justify-between gap-3 mb-3">
+              <h4 className="font-bold text-white leading-snug line-clamp-2 group-hover:text-[#007AFF] transition-colors">{session.title}</h4>
+              {isSelecting ? (
+                <span className="material-icons-outlined text-[#007AFF] flex-shrink-0">{selectedIds.has(session.id) ? 'check_circle' : 'radio_button_unchecked'}</span>
+              ) : (
+                <button onClick={(e) => { e.stopPropagation(); onTogglePin(session); }} title={session.pinned ? 'Unpin' : 'Pin'} className={`flex-shrink-0 ${session.pinned ? 'text-[#007AFF]' : 'text-zinc-700 opacity-0 group-hover:opacity-100 hover:text-white'}`}>
+                  <span className="material-icons-outlined text-[18px]">push_pin</span>
+                </button>
+              )}
+            </div>
+            <div className="text-[11px] font-mono text-zinc-600 mb-3">
+              {[new Date(session.timestamp).toLocaleDateString(), formatLength(session.duration)].filter(Boolean).join(' · ')}
+            </div>
+            {session.folderId && folderNames[session.folderId] && filters.folder === 'all' && (
+              <div className="flex items-center gap-1 text-[11px] font-bold text-zinc-500 mb-2">
+                <span className="material-icons-outlined text-[14px]">folder</span>
+                <span className="truncate">{folderNames[session.folderId]}</span>
+              </div>
+            )}
+            {session.tags && session.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {session.tags.map(tag => (
+                  <button key={tag} onClick={(e) => { e.stopPropagation(); update({ tag }); }} className="px-2 py-0.5 rounded-md bg-white/5 text-[11px] font-bold text-zinc-400 hover:text-white">#{tag}</button>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+        {visible.length === 0 && (
+          <div className="col-span-full py-20 text-center bg-white/5 rounded-3xl border border-dashed border-white/10 text-zinc-600 font-bold">
+            {filtered ? 'No sessions match these filters.' : 'No sessions captured yet.'}
+          </div>
+        )}
+      </div>
+
+      {hasMore && (
+        <div className="flex flex-col items-center gap-3 mt-16">
+          {filtered && <p className="text-[12px] text-zinc-600">Filters only cover the sessions loaded so far.</p>}
+          <div className="flex gap-4">
+            <button onClick={onLoadMore} className="px-8 py-3 rounded-xl bg-white/5 border border-white/5 text-[13px] font-bold text-zinc-400 hover:bg-white/10 hover:text-white transition-all">Load older sessions</button>
+            {filtered && (
+              <button onClick={onLoadAll} className="px-8 py-3 rounded-xl bg-white/5 border border-white/5 text-[13px] font-bold text-zinc-400 hover:bg-white/10 hover:text-white transition-all">Load entire library</button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
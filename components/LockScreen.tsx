@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { unlockVault } from '../services/vaultService';
+
+interface LockScreenProps {
+  onUnlock: () => void;
+}
+
+export const LockScreen: React.FC<LockScreenProps> = ({ onUnlock }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isUnlocking) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      if (await unlockVault(passphrase)) onUnlock();
+      else setError("That passphrase doesn't open this workspace.");
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="flex h-screen w-full items-center justify-center bg-[#141414] text-white">
+      <form onSubmit={submit} className="w-full max-w-sm p-10 bg-white/5 rounded-3xl border border-white/5 animate-in">
+        <div className="w-12 h-12 mb-6 bg-gradient-to-tr from-[#007AFF] to-[#00C2FF] rounded-xl flex items-center justify-center shadow-lg shadow-blue-500/20">
+          <span className="material-icons-outlined text-white">lock</span>
+        </div>
+        <h1 className="text-[24px] font-black tracking-tight mb-2">Workspace Locked</h1>
+        <p className="text-[13px] text-zinc-500 mb-8">Enter your passphrase to decrypt sessions and API keys on this device.</p>
+        <input
+          type="password"
+          autoFocus
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          className="w-full px-4 py-3 bg-[#202020] rounded-xl border border-white/10 text-white text-[14px] focus:ring-0"
+        />
+        {error && <p className="mt-3 text-[12px] font-bold text-red-400">{error}</p>}
+        <button type="submit" disabled={!passphrase || isUnlocking} className="mt-6 w-full py-3 rounded-xl bg-[#007AFF] text-white text-[13px] font-bold transition-all disabled:opacity-30">
+          {isUnlocking ? 'Unlocking…' : 'Unlock'}
+        </button>
+        <p className="mt-6 text-[11px] text-zinc-600">A forgotten passphrase can't be recovered. Clearing this site's data starts an empty workspace.</p>
+      </form>
+    </div>
+  );
+};
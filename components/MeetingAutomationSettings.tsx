@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { MeetingAutomationSettings as AutomationConfig, notificationsSupported } from '../services/reminderService';
+
+interface MeetingAutomationSettingsProps {
+  settings: AutomationConfig;
+  onSave: (settings: AutomationConfig) => void;
+}
+
+const Toggle: React.FC<{ checked: boolean; label: string; hint: string; disabled?: boolean; onChange: (checked: boolean) => void }> = ({ checked, label, hint, disabled, onChange }) => (
+  <label className={`flex items-start gap-4 ${disabled ? 'opacity-40' : 'cursor-pointer'}`}>
+    <input type="checkbox" checked={checked} disabled={disabled} onChange={(e) => onChange(e.target.checked)} className="mt-1 accent-[#007AFF]" />
+    <span>
+      <span className="block text-[14px] font-bold text-white">{label}</span>
+      <span className="block text-[12px] text-zinc-500 mt-1">{hint}</span>
+    </span>
+  </label>
+);
+
+export const MeetingAutomationSettings: React.FC<MeetingAutomationSettingsProps> = ({ settings, onSave }) => {
+  const [draft, setDraft] = useState(settings);
+  const update = (patch: Partial<AutomationConfig>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  return (
+    <div className="max-w-2xl mx-auto mt-16 p-10 bg-white/5 rounded-3xl border border-white/5 animate-in">
+      <div className="flex items-center gap-3 mb-2">
+        <span className="material-icons-outlined text-zinc-400">notifications_active</span>
+        <h2 className="text-[22px] font-black tracking-tight">Meeting Automation</h2>
+      </div>
+      <p className="text-[13px] text-zinc-500 mb-8">Works while this tab is open. Recordings started for a meeting keep its location and attendees.</p>
+
+      <div className="space-y-6">
+        <Toggle
+          checked={draft.notify}
+          disabled={!notificationsSupported()}
+          label="Remind me before meetings"
+          hint={notificationsSupported() ? 'Shows a browser notification ahead of each timed event.' : 'This browser does not support notifications.'}
+          onChange={(notify) => update({ notify })}
+        />
+        {draft.notify && (
+          <label className="flex items-center gap-3 pl-8 text-[13px] text-zinc-400">
+            <input type="number" min={1} max={120} value={draft.notifyMinutesBefore} onChange={(e) => update({ notifyMinutesBefore: Number(e.target.value) })} className="w-20 px-3 py-2 bg-[#202020] rounded-xl border border-white/10 text-white text-[14px] focus:ring-0" />
+            <span>minutes before</span>
+          </label>
+        )}
+        <Toggle checked={draft.autoStart} label="Start recording when a meeting begins" hint="Only within the first five minutes, and never over a recording in progress." onChange={(autoStart) => update({ autoStart })} />
+        <Toggle checked={draft.autoStop} label="Stop recording when the meeting ends" hint="Applies to recordings started for a calendar event." onChange={(autoStop) => update({ autoStop })} />
+      </div>
+
+      <button onClick={() => onSave(draft)} className="mt-8 px-8 py-3 rounded-xl bg-[#007AFF] text-white text-[13px] font-bold hover:scale-105 transition-all">Save Automation Settings</button>
+    </div>
+  );
+};
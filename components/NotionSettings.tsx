@@ -0,0 +1,41 @@
+import React, { useState } from 'react';
+import { NotionSettings as NotionConfig, DEFAULT_NOTION_ENDPOINT } from '../services/notionService';
+
+interface NotionSettingsProps {
+  settings: NotionConfig;
+  onSave: (settings: NotionConfig) => void;
+}
+
+export const NotionSettings: React.FC<NotionSettingsProps> = ({ settings, onSave }) => {
+  const [draft, setDraft] = useState(settings);
+  const update = (patch: Partial<NotionConfig>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  return (
+    <div className="max-w-2xl mx-auto mt-16 p-10 bg-white/5 rounded-3xl border border-white/5 animate-in">
+      <div className="flex items-center gap-3 mb-2">
+        <span className="material-icons-outlined text-zinc-400">integration_instructions</span>
+        <h2 className="text-[22px] font-black tracking-tight">Notion</h2>
+      </div>
+      <p className="text-[13px] text-zinc-500 mb-8">Publish sessions as pages in a Notion database. Share the database with your integration first.</p>
+
+      <div className="space-y-6">
+        <label className="block">
+          <span className="speaker-label">Token</span>
+          <input type="password" value={draft.token} onChange={(e) => update({ token: e.target.value })} placeholder="Proxy token, or secret_... for a pass-through relay" className="mt-2 w-full px-4 py-3 bg-[#202020] rounded-xl border border-white/10 text-white text-[14px] focus:ring-0" />
+          <span className="block mt-2 text-[12px] text-zinc-600">The bundled AI proxy keeps the integration token in its NOTION_TOKEN setting, so enter the proxy token here.</span>
+        </label>
+        <label className="block">
+          <span className="speaker-label">Database ID</span>
+          <input type="text" value={draft.databaseId} onChange={(e) => update({ databaseId: e.target.value })} placeholder="32-character ID from the database URL" className="mt-2 w-full px-4 py-3 bg-[#202020] rounded-xl border border-white/10 text-white text-[14px] focus:ring-0" />
+        </label>
+        <label className="block">
+          <span className="speaker-label">Relay Endpoint</span>
+          <input type="text" value={draft.endpoint} onChange={(e) => update({ endpoint: e.target.value })} placeholder={DEFAULT_NOTION_ENDPOINT} className="mt-2 w-full px-4 py-3 bg-[#202020] rounded-xl border border-white/10 text-white text-[14px] focus:ring-0" />
+          <span className="block mt-2 text-[12px] text-zinc-600">Notion blocks requests from browsers, so api.notion.com can't be used here. Run the AI proxy (npm run proxy) or point this at another relay.</span>
+        </label>
+      </div>
+
+      <button onClick={() => onSave(draft)} className="mt-8 px-8 py-3 rounded-xl bg-[#007AFF] text-white text-[13px] font-bold hover:scale-105 transition-all">Save Notion Settings</button>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useState, useMemo } from 'react';
+import { PostProcessingRule, PostProcessingRuleKind, Session } from '../types';
+import { previewRules, validateRule } from '../services/postProcessingService';
+
+interface PostProcessingRulesProps {
+  rules: PostProcessingRule[];
+  sessions: Session[];
+  onSave: (rules: PostProcessingRule[]) => void;
+  onApplyToSession: (sessionId: string, rules: PostProcessingRule[]) => void;
+}
+
+const KIND_LABELS: Record<PostProcessingRuleKind, string> = {
+  literal: 'Replace text',
+  regex: 'Replace pattern',
+  fillers: 'Remove filler words',
+  numbers: 'Format numbers'
+};
+
+const MAX_PREVIEW = 30;
+
+export const PostProcessingRules: React.FC<PostProcessingRulesProps> = ({ rules, sessions, onSave, onApplyToSession }) => {
+  const [draft, setDraft] = useState(rules);
+  const [previewSessionId, setPreviewSessionId] = useState('');
+
+  const problems = draft.map(validateRule);
+  const previewSession = sessions.find(s => s.id === previewSessionId);
+  const preview = useMemo(
+    () => previewSession && !problems.some(Boolean) ? previewRules(previewSession.segments, draft) : [],
+    [previewSession, draft]
+  );
+
+  const update = (id: string, patch: Partial<PostProcessingRule>) => setDraft(prev => prev.map(r => r.id === id ? { ...r, ...patch } : r));
+  const add = (kind: PostProcessingRuleKind) => setDraft(prev => [...prev, { id: `rule-${Date.now()}`, kind, enabled: true, ...(kind === 'literal' || kind === 'regex' ? { find: '', replace: '' } : {}) }]);
+  const move = (index: number, direction: number) => setDraft(prev => {
+    const next = [...prev];
+    const [rule] = next.splice(index, 1);
+    next.splice(Math.max(0, Math.min(next.length, index + direction)), 0, rule);
+    return next;
+  });
+
+  return (
+    <div className="max-w-2xl mx-auto mt-16 p-10 bg-white/5 rounded-3xl border border-white/5 animate-in">
+      <div className="flex items-center gap-3 mb-2">
+        <span className="material-icons-outlined text-zinc-400">rule</span>
+        <h2 className="text-[22px] font-black tracking-tight">Post-processing Rules</h2>
+      </div>
+      <p className="text-[13px] text-zinc-500 mb-8">Applied in order to every new segment before it is saved.</p>
+
+      <div className="space-y-3 mb-6">
+        {draft.map((rule, i) => (
+          <div key={rule.id} className="p-4 rounded-xl bg-[#202020] border border-white/5">
+            <div className="flex items-center gap-3">
+              <input type="checkbox" checked={rule.enabled} onChange={(e) => update(rule.id, { enabled: e.target.checked })} className="accent-[#007AFF]" />
+              <span className="text-[13px] font-bold text-white flex-1">{KIND_LABELS[rule.kind]}</span>
+              <button onClick={() => move(i, -1)} disabled={i === 0} className="text-zinc-600 hover:text-white disabled:opacity-20"><span className="material-icons-outlined text-[18px]">arrow_upward</span></button>
+              <button onClick={() => move(i, 1)} disabled={i === draft.length - 1} className="text-zinc-600 hover:text-white disabled:opacity-20"><span className="material-icons-outlined text-[18px]">arrow_downward</span></button>
+              <button onClick={() => setDraft(prev => prev.filter(r => r.id !== rule.id))} className="text-zinc-600 hover:text-[#FF453A]"><span className="material-icons-outlined text-[18px]">delete</span></button>
+            </div>
+            {(rule.kind === 'literal' || rule.kind === 'regex') && (
+              <div className="flex flex-wrap items-center gap-3 mt-3 pl-7">
+                <input value={rule.find || ''} onChange={(e) => update(rule.id, { find: e.target.value })} placeholder={rule.kind === 'regex' ? '\\bk8s\\b' : 'cube ernetes'} className={`flex-1 min-w-[140px] px-3 py-2 bg-[#141414] rounded-lg border border-white/10 text-white text-[13px] focus:ring-0 ${rule.kind === 'regex' ? 'font-mono' : ''}`} />
+                <span className="material-icons-outlined text-zinc-600 text-[18px]">arrow_forward</span>
+                <input value={rule.replace || ''} onChange={(e) => update(rule.id, { replace: e.target.value })} placeholder="Kubernetes" className="flex-1 min-w-[140px] px-3 py-2 bg-[#141414] rounded-lg border border-white/10 text-white text-[13px] focus:ring-0" />
+                <button onClick={() => update(rule.id, { caseSensitive: !rule.caseSensitive })} title="Match case" className={`px-2 py-1.5 rounded-lg text-[12px] font-black ${rule.caseSensitive ? 'bg-white/10 text-white' : 'text-zinc-600 hover:text-white'}`}>Aa</button>
+              </div>
+            )}
+            {problems[i] && rule.find && <p className="mt-2 pl-7 text-[12px] font-bold text-red-400">{problems[i]}</p>}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-10">
+        {(Object.keys(KIND_LABELS) as PostProcessingRuleKind[]).map(kind => (
+          <button key={kind} onClick={() => add(kind)} className="flex items-center gap-1 px-3 py-2 rounded-lg bg-white/5 text-[12px] font-bold text-zinc-400 hover:text-white hover:bg-white/10">
+            <span className="material-icons-outlined text-[16px]">add</span>{KIND_LABELS[kind]}
+          </button>
+        ))}
+      </div>
+
+      <label className="block mb-4">
+        <span className="speaker-label">Preview Against</span>
+        <select value={previewSessionId} onChange={(e) => setPreviewSessionId(e.target.value)} className="mt-2 w-full px-4 py-3 bg-[#202020] rounded-xl border border-white/10 text-white text-[14px] focus:ring-0">
+          <option value="">Choose a session…</option>
+          {sessions.map(s => <option key={s.id} value={s.id}>{s.title} · {new Date(s.timestamp).toLocaleDateString()}</option>)}
+        </select>
+      </label>
+      {previewSession && (
+        <div className="space-y-3 max-h-80 overflow-y-auto custom-scrollbar mb-4">
+          {preview.length === 0 && <p className="text-[13px] text-zinc-600">These rules don't change anything in this session.</p>}
+          {preview.slice(0, MAX_PREVIEW).map(change => (
+            <div key={change.segmentId} className="p-3 rounded-xl bg-[#202020] text-[13px] leading-relaxed">
+              <div className="text-zinc-500 line-through decoration-red-400/60">{change.before}</div>
+              <div className="text-zinc-200 mt-1">{change.after || <span className="italic text-zinc-600">Segment removed</span>}</div>
+            </div>
+          ))}
+          {preview.length > MAX_PREVIEW && <p className="text-[12px] text-zinc-600">…and {preview.length - MAX_PREVIEW} more segments.</p>}
+        </div>
+      )}
+
+      <div className="flex items-center gap-4 mt-8">
+        <button onClick={() => onSave(draft)} disabled={problems.some(Boolean)} className="px-8 py-3 rounded-xl bg-[#007AFF] text-white text-[13px] font-bold hover:scale-105 transition-all disabled:opacity-30 disabled:hover:scale-100">Save Rules</button>
+        {previewSession && preview.length > 0 && (
+          <button onClick={() => onApplyToSession(previewSession.id, draft)} className="text-[11px] font-black uppercase text-zinc-500 hover:text-white">Apply to This Session</button>
+        )}
+      </div>
+    </div>
+  );
+};
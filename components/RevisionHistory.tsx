@@ -0,0 +1,35 @@
+import React from 'react';
+import { TranscriptRevision } from '../types';
+
+interface RevisionHistoryProps {
+  revisions: TranscriptRevision[];
+  hasOriginal: boolean;
+  onRevert: (revisionId: string) => void;
+  onRestoreOriginal: () => void;
+}
+
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({ revisions, hasOriginal, onRevert, onRestoreOriginal }) => (
+  <div className="mb-10 p-6 bg-white/5 rounded-2xl border border-white/5 animate-in">
+    <div className="flex items-center justify-between mb-4">
+      <h4 className="speaker-label">Edit History</h4>
+      {hasOriginal && (
+        <button onClick={onRestoreOriginal} className="text-[11px] font-black uppercase text-zinc-500 hover:text-white">Restore Machine Transcript</button>
+      )}
+    </div>
+    {revisions.length === 0 ? (
+      <p className="text-[13px] text-zinc-600">No edits yet. The machine transcript is kept once you change anything.</p>
+    ) : (
+      <ul className="space-y-1 max-h-64 overflow-y-auto custom-scrollbar">
+        {[...revisions].reverse().map(revision => (
+          <li key={revision.id} className="flex items-center justify-between gap-4 px-3 py-2 rounded-lg hover:bg-white/5">
+            <div className="min-w-0">
+              <div className="text-[13px] font-semibold text-zinc-200 truncate">{revision.description}</div>
+              <div className="text-[11px] font-mono text-zinc-600">{new Date(revision.createdAt).toLocaleString()}</div>
+            </div>
+            <button onClick={() => onRevert(revision.id)} title="Restore the transcript as it was before this edit" className="text-[11px] font-black uppercase text-zinc-500 hover:text-[#007AFF] flex-shrink-0">Revert</button>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
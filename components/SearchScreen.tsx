@@ -0,0 +1,88 @@
+import React from 'react';
+import { SearchFilters, SearchHit, SearchSnippet } from '../services/searchService';
+
+interface SearchScreenProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  filters: SearchFilters;
+  onFiltersChange: (filters: SearchFilters) => void;
+  speakers: string[];
+  results: SearchHit[];
+  onOpen: (sessionId: string, segmentId: string | null) => void;
+}
+
+const toDateInput = (ms?: number) => {
+  if (ms === undefined) return '';
+  const date = new Date(ms);
+  return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
+};
+
+const Highlighted: React.FC<{ snippet: SearchSnippet }> = ({ snippet }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  snippet.highlights.forEach(([start, end], i) => {
+    if (start < cursor) return;
+    parts.push(snippet.text.slice(cursor, start));
+    parts.push(<mark key={i} className="bg-[#007AFF]/30 text-white rounded px-0.5">{snippet.text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  parts.push(snippet.text.slice(cursor));
+  return <>{parts}</>;
+};
+
+export const SearchScreen: React.FC<SearchScreenProps> = ({ query, onQueryChange, filters, onFiltersChange, speakers, results, onOpen }) => {
+  const update = (patch: Partial<SearchFilters>) => onFiltersChange({ ...filters, ...patch });
+
+  return (
+    <div className="animate-in max-w-2xl mx-auto">
+      <h1 className="text-[40px] font-black mb-12 tracking-tight">Universal Search</h1>
+      <div className="bg-[#202020] p-6 rounded-3xl border border-white/10 flex items-center mb-6 shadow-2xl">
+        <span className="material-icons-outlined text-zinc-500 mr-5">search</span>
+        <input type="text" placeholder='Search keywords, "exact phrases" or prefixes*...' className="bg-transparent border-none text-white text-lg w-full focus:ring-0 placeholder-zinc-800 font-semibold" value={query} onChange={(e) => onQueryChange(e.target.value)} autoFocus />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-12 text-[12px] font-bold text-zinc-500">
+        <label className="flex items-center gap-2">
+          <span>From</span>
+          <input type="date" value={toDateInput(filters.from)} onChange={(e) => update({ from: e.target.value ? new Date(`${e.target.value}T00:00:00`).getTime() : undefined })} className="bg-white/5 border border-white/5 rounded-lg px-3 py-2 text-zinc-300" />
+        </label>
+        <label className="flex items-center gap-2">
+          <span>To</span>
+          <input type="date" value={toDateInput(filters.to)} onChange={(e) => update({ to: e.target.value ? new Date(`${e.target.value}T23:59:59.999`).getTime() : undefined })} className="bg-white/5 border border-white/5 rounded-lg px-3 py-2 text-zinc-300" />
+        </label>
+        <select value={filters.speaker || ''} onChange={(e) => update({ speaker: e.target.value || undefined })} className="bg-white/5 border border-white/5 rounded-lg px-3 py-2 text-zinc-300">
+          <option value="">Any speaker</option>
+          {speakers.map(speaker => <option key={speaker} value={speaker}>{speaker}</option>)}
+        </select>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input type="checkbox" checked={Boolean(filters.hasActionItems)} onChange={(e) => update({ hasActionItems: e.target.checked || undefined })} />
+          <span>Has action items</span>
+        </label>
+      </div>
+
+      <div className="space-y-4">
+        {results.map(hit => (
+          <div key={hit.sessionId} onClick={() => onOpen(hit.sessionId, null)} className="p-8 bg-white/5 rounded-2xl border border-white/5 cursor-pointer hover:bg-white/10 transition-all shadow-xl group">
+            <div className="flex items-baseline justify-between gap-4 mb-2">
+              <h4 className="font-bold text-white group-hover:text-[#007AFF] transition-colors">{hit.title}</h4>
+              <span className="text-[11px] font-mono text-zinc-600 flex-shrink-0">{new Date(hit.timestamp).toLocaleDateString()}</span>
+            </div>
+            {query && hit.snippets.length === 0 && <p className="text-[14px] text-zinc-500">No transcript matches; the title matched.</p>}
+            <div className="space-y-2">
+              {hit.snippets.map(snippet => (
+                <p
+                  key={snippet.segmentId}
+                  onClick={(e) => { e.stopPropagation(); onOpen(hit.sessionId, snippet.segmentId); }}
+                  className="text-[14px] text-zinc-400 leading-relaxed p-2 -mx-2 rounded-lg hover:bg-white/5"
+                >
+                  <Highlighted snippet={snippet} />
+                </p>
+              ))}
+            </div>
+          </div>
+        ))}
+        {query && results.length === 0 && <div className="py-12 text-center text-zinc-600 text-[13px] font-bold">No matches.</div>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React, { useRef } from 'react';
+import { TranscriptionSegment } from '../types';
+
+interface SegmentEditorProps {
+  segment: TranscriptionSegment;
+  canMergeNext: boolean;
+  onSave: (text: string) => void;
+  onSplit: (text: string, offset: number) => void;
+  onMergeNext: () => void;
+}
+
+export const SegmentEditor: React.FC<SegmentEditorProps> = ({ segment, canMergeNext, onSave, onSplit, onMergeNext }) => {
+  const textRef = useRef<HTMLTextAreaElement>(null);
+
+  const save = () => {
+    const text = textRef.current?.value.trim() || '';
+    if (text && text !== segment.text) onSave(text);
+  };
+
+  const split = () => {
+    const area = textRef.current;
+    if (!area) return;
+    onSplit(area.value, area.selectionStart);
+  };
+
+  return (
+    <div className="group relative py-3">
+      <textarea
+        ref={textRef}
+        defaultValue={segment.text}
+        onBlur={save}
+        rows={Math.max(2, Math.ceil(segment.text.length / 80))}
+        className="w-full bg-white/[0.03] rounded-xl border border-white/5 px-4 py-3 text-[17px] leading-relaxed text-zinc-200 focus:border-[#007AFF]/50 focus:ring-0 resize-y"
+      />
+      <div className="flex items-center gap-4 mt-1 px-1 opacity-0 group-focus-within:opacity-100 group-hover:opacity-100 transition-opacity">
+        {/* mousedown would blur the textarea and lose the caret position */}
+        <button onMouseDown={(e) => e.preventDefault()} onClick={split} title="Split at cursor" className="flex items-center gap-1 text-[11px] font-black uppercase tracking-widest text-zinc-600 hover:text-white">
+          <span className="material-icons-outlined text-[16px]">content_cut</span>
+          <span>Split</span>
+        </button>
+        {canMergeNext && (
+          <button onMouseDown={(e) => e.preventDefault()} onClick={onMergeNext} title="Merge with the next segment" className="flex items-center gap-1 text-[11px] font-black uppercase tracking-widest text-zinc-600 hover:text-white">
+            <span className="material-icons-outlined text-[16px]">merge</span>
+            <span>Merge Next</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { LibraryFolder, Session } from '../types';
+import { normalizeTag } from '../services/libraryService';
+
+interface SessionOrganizerProps {
+  session: Session;
+  folders: LibraryFolder[];
+  knownTags: string[];
+  suggestions: string[];
+  onChange: (patch: Partial<Pick<Session, 'tags' | 'folderId' | 'pinned'>>) => void;
+}
+
+export const SessionOrganizer: React.FC<SessionOrganizerProps> = ({ session, folders, knownTags, suggestions, onChange }) => {
+  const [draft, setDraft] = useState('');
+  const tags = session.tags || [];
+  const folderId = session.folderId && folders.some(f => f.id === session.folderId) ? session.folderId : '';
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    if (tag && !tags.includes(tag)) onChange({ tags: [...tags, tag] });
+    setDraft('');
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 -mt-6 mb-12">
+      <button onClick={() => onChange({ pinned: !session.pinned })} title={session.pinned ? 'Unpin' : 'Pin to sidebar'} className={`w-8 h-8 rounded-lg flex items-center justify-center transition-all ${session.pinned ? 'bg-[#007AFF]/20 text-[#007AFF]' : 'bg-white/5 text-zinc-500 hover:text-white'}`}>
+        <span className="material-icons-outlined text-[18px]">push_pin</span>
+      </button>
+      <select value={folderId} onChange={(e) => onChange({ folderId: e.target.value || undefined })} className="bg-white/5 border border-white/5 rounded-lg px-3 py-1.5 text-[12px] font-bold text-zinc-300">
+        <option value="">Unfiled</option>
+        {folders.map(folder => <option key={folder.id} value={folder.id}>{folder.name}</option>)}
+      </select>
+      {tags.map(tag => (
+        <span key={tag} className="flex items-center gap-1 pl-2.5 pr-1.5 py-1 rounded-md bg-white/5 text-[12px] font-bold text-zinc-300">
+          #{tag}
+          <button onClick={() => onChange({ tags: tags.filter(t => t !== tag) })} className="text-zinc-600 hover:text-white">
+            <span className="material-icons-outlined text-[14px] align-middle">close</span>
+          </button>
+        </span>
+      ))}
+      <input
+        type="text"
+        list="session-tags"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && addTag(draft)}
+        placeholder="Add tag"
+        className="w-28 px-2.5 py-1 bg-transparent rounded-md border border-dashed border-white/10 text-[12px] text-white focus:ring-0"
+      />
+      <datalist id="session-tags">{knownTags.filter(t => !tags.includes(t)).map(tag => <option key={tag} value={tag} />)}</datalist>
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          <span className="text-[10px] font-black uppercase tracking-widest text-zinc-700">Suggested</span>
+          {suggestions.map(tag => (
+            <button key={tag} onClick={() => addTag(tag)} className="px-2 py-1 rounded-md border border-white/5 text-[11px] font-bold text-zinc-500 hover:text-white hover:border-white/20">+ {tag}</button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+
+interface SessionPlayerProps {
+  src: string;
+  audioRef: React.RefObject<HTMLAudioElement | null>;
+  onTimeUpdate: (ms: number) => void;
+}
+
+const formatClock = (ms: number): string => {
+  const total = Math.floor(ms / 1000);
+  return `${Math.floor(total / 60).toString().padStart(2, '0')}:${(total % 60).toString().padStart(2, '0')}`;
+};
+
+export const SessionPlayer: React.FC<SessionPlayerProps> = ({ src, audioRef, onTimeUpdate }) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [length, setLength] = useState(0);
+
+  const toggle = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) audio.play();
+    else audio.pause();
+  };
+
+  return (
+    <div className="flex items-center gap-6 p-6 mb-12 bg-white/5 rounded-2xl border border-white/5">
+      <audio
+        ref={audioRef}
+        src={src}
+        preload="metadata"
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onLoadedMetadata={(e) => setLength(Number.isFinite(e.currentTarget.duration) ? e.currentTarget.duration * 1000 : 0)}
+        onTimeUpdate={(e) => {
+          const ms = e.currentTarget.currentTime * 1000;
+          setPosition(ms);
+          onTimeUpdate(ms);
+        }}
+      />
+      <button onClick={toggle} className="w-12 h-12 flex items-center justify-center rounded-xl bg-[#007AFF] hover:scale-105 transition-all">
+        <span className="material-icons-outlined text-2xl text-white">{isPlaying ? 'pause' : 'play_arrow'}</span>
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={length || 0}
+        value={Math.min(position, length)}
+        onChange={(e) => { if (audioRef.current) audioRef.current.currentTime = Number(e.target.value) / 1000; }}
+        className="flex-1 accent-[#007AFF]"
+      />
+      <span className="text-[13px] font-mono text-zinc-500 font-bold">{formatClock(position)} / {formatClock(length)}</span>
+    </div>
+  );
+};
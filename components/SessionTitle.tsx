@@ -0,0 +1,34 @@
+import React, { useState } from 'react';
+
+interface SessionTitleProps {
+  title: string;
+  editable: boolean;
+  onRename: (title: string) => void;
+}
+
+export const SessionTitle: React.FC<SessionTitleProps> = ({ title, editable, onRename }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft !== null && draft.trim() && draft.trim() !== title) onRename(draft.trim());
+    setDraft(null);
+  };
+
+  if (draft !== null) {
+    return (
+      <input
+        type="text"
+        autoFocus
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => { if (e.key === 'Enter') commit(); if (e.key === 'Escape') setDraft(null); }}
+        className="flex-1 min-w-0 mr-6 bg-transparent border-none p-0 text-[56px] font-black tracking-tighter text-white focus:ring-0"
+      />
+    );
+  }
+
+  return (
+    <h1 onDoubleClick={() => editable && setDraft(title)} title={editable ? 'Double-click to rename' : undefined} className="text-[56px] font-black tracking-tighter">{title}</h1>
+  );
+};
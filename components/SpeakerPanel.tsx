@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { speakerName } from '../services/diarizationService';
+
+interface SpeakerPanelProps {
+  speakers: string[];
+  names?: Record<string, string>;
+  onRename: (speaker: string, name: string) => void;
+}
+
+export const SpeakerPanel: React.FC<SpeakerPanelProps> = ({ speakers, names, onRename }) => {
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const commit = () => {
+    if (editing) onRename(editing, draft);
+    setEditing(null);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mb-12">
+      <span className="speaker-label mr-2">Speakers</span>
+      {speakers.map(speaker => editing === speaker ? (
+        <input
+          key={speaker}
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commit();
+            if (e.key === 'Escape') setEditing(null);
+          }}
+          className="px-4 py-2 rounded-xl bg-[#202020] border border-[#007AFF]/50 text-[13px] font-bold text-white focus:ring-0 w-40"
+        />
+      ) : (
+        <button
+          key={speaker}
+          onClick={() => { setEditing(speaker); setDraft(speakerName(speaker, names)); }}
+          title="Rename speaker"
+          className="flex items-center gap-2 px-4 py-2 rounded-xl bg-white/5 border border-white/5 text-[13px] font-bold text-zinc-300 hover:bg-white/10 hover:text-white transition-all"
+        >
+          <span className="material-icons-outlined text-[16px] text-zinc-500">person</span>
+          <span>{speakerName(speaker, names)}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
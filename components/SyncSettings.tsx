@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { SyncBackend, SyncSettings as SyncConfig, isSyncConfigured } from '../services/syncService';
+
+interface SyncSettingsProps {
+  settings: SyncConfig;
+  isSyncing: boolean;
+  isEncrypted: boolean;
+  onSave: (settings: SyncConfig) => void;
+  onSync: () => void;
+}
+
+export const SyncSettings: React.FC<SyncSettingsProps> = ({ settings, isSyncing, isEncrypted, onSave, onSync }) => {
+  const [draft, setDraft] = useState(settings);
+  const update = (patch: Partial<SyncConfig>) => setDraft(prev => ({ ...prev, ...patch }));
+  const isS3 = draft.backend === 's3';
+
+  const input = (label: string, value: string, onChange: (value: string) => void, placeholder = '', type = 'text') => (
+    <label className="block">
+      <span className="speaker-label">{label}</span>
+      <input type={type} value={value} onChange={(e) => onChange(e.target.value)} placeholder={placeholder} className="mt-2 w-full px-4 py-3 bg-[#202020] rounded-xl border border-white/10 text-white text-[14px] focus:ring-0" />
+    </label>
+  );
+
+  return (
+    <div className="max-w-2xl mx-auto mt-16 p-10 bg-white/5 rounded-3xl border border-white/5 animate-in">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-3">
+          <span className="material-icons-outlined text-zinc-400">cloud_sync</span>
+          <h2 className="text-[22px] font-black tracking-tight">Workspace Sync</h2>
+        </div>
+        {isSyncConfigured(settings) && (
+          <button onClick={onSync} disabled={isSyncing} className={`text-[11px] font-black uppercase ${isSyncing ? 'text-[#007AFF] animate-pulse' : 'text-zinc-500 hover:text-white'}`}>
+            {isSyncing ? 'Syncing' : 'Sync Now'}
+          </button>
+        )}
+      </div>
+      <p className="text-[13px] text-zinc-500 mb-2">Keep one copy of the workspace on your own WebDAV server or S3-compatible bucket and merge it across devices. Recordings stay on each device.</p>
+      {settings.lastError ? (
+        <p className="text-[12px] font-bold text-red-400 mb-8">{settings.lastError}</p>
+      ) : settings.lastSyncedAt ? (
+        <p className="text-[12px] text-zinc-600 mb-8">Last synced {new Date(settings.lastSyncedAt).toLocaleString()}</p>
+      ) : <div className="mb-8" />}
+
+      <div className="space-y-6">
+        <div className="flex gap-3">
+          {(['webdav', 's3'] as SyncBackend[]).map(backend => (
+            <button key={backend} onClick={() => update({ backend })} className={`px-5 py-2.5 rounded-xl text-[13px] font-bold transition-all ${draft.backend === backend ? 'bg-white/10 text-white' : 'text-zinc-500 hover:bg-white/5'}`}>
+              {backend === 'webdav' ? 'WebDAV' : 'S3-compatible'}
+            </button>
+          ))}
+        </div>
+        {input(isS3 ? 'Endpoint' : 'Folder URL', draft.url, url => update({ url }), isS3 ? 'http://localhost:9000' : 'http://localhost:8790')}
+        {isS3 && (
+          <div className="grid grid-cols-2 gap-4">
+            {input('Bucket', draft.bucket, bucket => update({ bucket }), 'transcribeai')}
+            {input('Region', draft.region, region => update({ region }), 'us-east-1')}
+          </div>
+        )}
+        <div className="grid grid-cols-2 gap-4">
+          {input(isS3 ? 'Access Key ID' : 'Username', draft.username, username => update({ username }))}
+          {input(isS3 ? 'Secret Access Key' : 'Password', draft.password, password => update({ password }), '', 'password')}
+        </div>
+        {input('File Name', draft.fileName, fileName => update({ fileName }))}
+        <label className="flex items-center gap-2 text-[13px] font-bold text-zinc-400 cursor-pointer">
+          <input type="checkbox" checked={draft.autoSync} onChange={(e) => update({ autoSync: e.target.checked })} />
+          <span>Sync automatically every 15 minutes</span>
+        </label>
+        <div className={`flex items-start gap-2 text-[12px] font-bold ${isEncrypted ? 'text-zinc-400' : 'text-amber-400'}`}>
+          <span className="material-icons-outlined text-[16px]">{isEncrypted ? 'lock' : 'lock_open'}</span>
+          <span>{isEncrypted
+            ? 'The synced copy is encrypted with your vault passphrase. Every device needs the same passphrase to sync.'
+            : 'The synced copy is plain JSON that the server can read. Turn on the Encrypted Vault to encrypt it.'}</span>
+        </div>
+        <span className="block text-[12px] text-zinc-600">The server must allow CORS from this app and expose the ETag header. Run npm run sync-server for a local test server.</span>
+      </div>
+
+      <button onClick={() => onSave(draft)} className="mt-8 px-8 py-3 rounded-xl bg-[#007AFF] text-white text-[13px] font-bold hover:scale-105 transition-all">Save Sync Settings</button>
+    </div>
+  );
+};
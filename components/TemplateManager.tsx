@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { AnalysisTemplate } from '../types';
+import { validateTemplateSchema } from '../services/analysisService';
+
+interface TemplateManagerProps {
+  templates: AnalysisTemplate[];
+  onSave: (template: AnalysisTemplate) => void;
+  onDelete: (id: string) => void;
+}
+
+const EXAMPLE_SCHEMA = `{
+  "type": "object",
+  "properties": {
+    "decisions": { "type": "array", "items": { "type": "string" } },
+    "openQuestions": { "type": "array", "items": { "type": "string" } }
+  },
+  "required": ["decisions", "openQuestions"]
+}`;
+
+const emptyDraft = { id: '', name: '', instructions: '', schema: EXAMPLE_SCHEMA };
+
+export const TemplateManager: React.FC<TemplateManagerProps> = ({ templates, onSave, onDelete }) => {
+  const [draft, setDraft] = useState(emptyDraft);
+  const [draftError, setDraftError] = useState<string | null>(null);
+
+  const edit = (template: AnalysisTemplate) => {
+    setDraft({ id: template.id, name: template.name, instructions: template.instructions, schema: JSON.stringify(template.schema, null, 2) });
+    setDraftError(null);
+  };
+
+  const submit = () => {
+    if (!draft.name.trim() || !draft.instructions.trim()) {
+      setDraftError('Give the template a name and instructions.');
+      return;
+    }
+    let schema: Record<string, unknown>;
+    try {
+      schema = JSON.parse(draft.schema);
+    } catch {
+      setDraftError('The schema is not valid JSON.');
+      return;
+    }
+    const problem = validateTemplateSchema(schema);
+    if (problem) {
+      setDraftError(problem);
+      return;
+    }
+    onSave({ id: draft.id || `template-${Date.now()}`, name: draft.name.trim(), instructions: draft.instructions.trim(), schema });
+    setDraft(emptyDraft);
+    setDraftError(null);
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto mt-16 p-10 bg-white/5 rounded-3xl border border-white/5 animate-in">
+      <div className="flex items-center gap-3 mb-2">
+        <span className="material-icons-outlined text-zinc-400">auto_awesome</span>
+        <h2 className="text-[22px] font-black tracking-tight">Analysis Templates</h2>
+      </div>
+      <p className="text-[13px] text-zinc-500 mb-8">Each template is a set of instructions plus a JSON schema describing the sections of its report.</p>
+
+      <div className="space-y-2 mb-10">
+        {templates.map(template => (
+          <div key={template.id} className="flex items-center justify-between px-4 py-3 rounded-xl bg-[#202020] border border-white/5">
+            <div className="min-w-0">
+              <span className="text-[14px] font-bold text-white">{template.name}</span>
+              {template.builtIn && <span className="ml-3 text-[10px] font-black uppercase tracking-widest text-zinc-600">Built-in</span>}
+            </div>
+            {!template.builtIn && (
+              <div className="flex items-center gap-4">
+                <button onClick={() => edit(template)} className="text-[11px] font-black uppercase text-zinc-500 hover:text-white">Edit</button>
+                <button onClick={() => onDelete(template.id)} className="text-[11px] font-black uppercase text-zinc-500 hover:text-[#FF453A]">Delete</button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-6">
+        <label className="block">
+          <span className="speaker-label">{draft.id ? 'Edit Template' : 'New Template'}</span>
+          <input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="Retrospective" className="mt-2 w-full px-4 py-3 bg-[#202020] rounded-xl border border-white/10 text-white text-[14px] focus:ring-0" />
+        </label>
+        <label className="block">
+          <span className="speaker-label">Instructions</span>
+          <textarea value={draft.instructions} onChange={(e) => setDraft({ ...draft, instructions: e.target.value })} rows={3} placeholder="This is a sprint retrospective. Capture what went well, what didn't and agreed changes." className="mt-2 w-full px-4 py-3 bg-[#202020] rounded-xl border border-white/10 text-white text-[14px] focus:ring-0" />
+        </label>
+        <label className="block">
+          <span className="speaker-label">Output Schema (JSON)</span>
+          <textarea value={draft.schema} onChange={(e) => setDraft({ ...draft, schema: e.target.value })} rows={10} spellCheck={false} className="mt-2 w-full px-4 py-3 bg-[#202020] rounded-xl border border-white/10 text-white text-[13px] font-mono focus:ring-0" />
+        </label>
+      </div>
+      {draftError && <p className="mt-4 text-[13px] font-bold text-red-400">{draftError}</p>}
+
+      <div className="flex items-center gap-4 mt-8">
+        <button onClick={submit} className="px-8 py-3 rounded-xl bg-[#007AFF] text-white text-[13px] font-bold hover:scale-105 transition-all">{draft.id ? 'Update Template' : 'Add Template'}</button>
+        {draft.id && <button onClick={() => { setDraft(emptyDraft); setDraftError(null); }} className="text-[11px] font-black uppercase text-zinc-500 hover:text-white">Cancel</button>}
+      </div>
+    </div>
+  );
+};
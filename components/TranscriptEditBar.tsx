@@ -0,0 +1,37 @@
+import React, { useState, useMemo } from 'react';
+import { TranscriptionSegment } from '../types';
+import { countMatches, FindOptions } from '../services/transcriptEditService';
+
+interface TranscriptEditBarProps {
+  segments: TranscriptionSegment[];
+  revisionCount: number;
+  showHistory: boolean;
+  onReplaceAll: (query: string, replacement: string, options: FindOptions) => void;
+  onToggleHistory: () => void;
+  onDone: () => void;
+}
+
+export const TranscriptEditBar: React.FC<TranscriptEditBarProps> = ({ segments, revisionCount, showHistory, onReplaceAll, onToggleHistory, onDone }) => {
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [options, setOptions] = useState<FindOptions>({});
+  const matches = useMemo(() => countMatches(segments, query, options), [segments, query, options]);
+
+  return (
+    <div className="sticky top-0 z-10 mb-10 p-4 bg-[#1C1C1E]/95 backdrop-blur-xl rounded-2xl border border-white/5 flex flex-wrap items-center gap-3">
+      <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Find" className="w-44 px-3 py-2 bg-[#202020] rounded-lg border border-white/10 text-white text-[13px] focus:ring-0" />
+      <input value={replacement} onChange={(e) => setReplacement(e.target.value)} placeholder="Replace with" className="w-44 px-3 py-2 bg-[#202020] rounded-lg border border-white/10 text-white text-[13px] focus:ring-0" />
+      <button onClick={() => setOptions(o => ({ ...o, caseSensitive: !o.caseSensitive }))} title="Match case" className={`px-2 py-1.5 rounded-lg text-[12px] font-black ${options.caseSensitive ? 'bg-white/10 text-white' : 'text-zinc-600 hover:text-white'}`}>Aa</button>
+      <button onClick={() => setOptions(o => ({ ...o, wholeWord: !o.wholeWord }))} title="Whole word" className={`px-2 py-1.5 rounded-lg text-[12px] font-black underline ${options.wholeWord ? 'bg-white/10 text-white' : 'text-zinc-600 hover:text-white'}`}>ab</button>
+      <span className="text-[12px] font-mono text-zinc-500 w-20">{query ? `${matches} match${matches === 1 ? '' : 'es'}` : ''}</span>
+      <button disabled={matches === 0} onClick={() => onReplaceAll(query, replacement, options)} className="px-4 py-2 rounded-lg bg-[#007AFF] text-white text-[12px] font-bold disabled:opacity-30">Replace All</button>
+      <div className="ml-auto flex items-center gap-4">
+        <button onClick={onToggleHistory} className={`flex items-center gap-1 text-[12px] font-bold ${showHistory ? 'text-[#007AFF]' : 'text-zinc-500 hover:text-white'}`}>
+          <span className="material-icons-outlined text-[18px]">history</span>
+          <span>History{revisionCount > 0 ? ` (${revisionCount})` : ''}</span>
+        </button>
+        <button onClick={onDone} className="text-[12px] font-bold text-zinc-500 hover:text-white">Done</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { TranscriptionProviderId } from '../types';
+import { TranscriptionSettings as TranscriptionConfig, GROQ_MODELS, DEFAULT_OPENAI_ENDPOINT, PROVIDER_LABELS } from '../services/transcriptionService';
+
+interface TranscriptionSettingsProps {
+  settings: TranscriptionConfig;
+  onSave: (settings: TranscriptionConfig) => void;
+}
+
+const PROVIDERS: TranscriptionProviderId[] = ['groq', 'openai-compatible'];
+
+export const TranscriptionSettings: React.FC<TranscriptionSettingsProps> = ({ settings, onSave }) => {
+  const [draft, setDraft] = useState(settings);
+  const updateGroq = (patch: Partial<TranscriptionConfig['groq']>) => setDraft(prev => ({ ...prev, groq: { ...prev.groq, ...patch } }));
+  const updateOpenAi = (patch: Partial<TranscriptionConfig['openai']>) => setDraft(prev => ({ ...prev, openai: { ...prev.openai, ...patch } }));
+
+  return (
+    <div className="max-w-2xl mx-auto mt-16 p-10 bg-white/5 rounded-3xl border border-white/5 animate-in">
+      <div className="flex items-center gap-3 mb-2">
+        <span className="material-icons-outlined text-zinc-400">graphic_eq</span>
+        <h2 className="text-[22px] font-black tracking-tight">Transcription Engine</h2>
+      </div>
+      <p className="text-[13px] text-zinc-500 mb-8">Choose where audio is sent. Each session remembers the engine that transcribed it.</p>
+
+      <div className="space-y-6">
+        <div className="flex gap-3">
+          {PROVIDERS.map(provider => (
+            <button key={provider} onClick={() => setDraft({ ...draft, provider })} className={`px-5 py-2.5 rounded-xl text-[13px] font-bold transition-all ${draft.provider === provider ? 'bg-white/10 text-white' : 'text-zinc-500 hover:bg-white/5'}`}>
+              {PROVIDER_LABELS[provider]}
+            </button>
+          ))}
+        </div>
+
+        {draft.provider === 'groq' ? (
+          <>
+            <label className="block">
+              <span className="speaker-label">Groq API Key</span>
+              <input type="password" value={draft.groq.apiKey} onChange={(e) => updateGroq({ apiKey: e.target.value })} placeholder="gsk_..." className="mt-2 w-full px-4 py-3 bg-[#202020] rounded-xl border border-white/10 text-white text-[14px] focus:ring-0" />
+            </label>
+            <label className="block">
+              <span className="speaker-label">Model</span>
+              <select value={draft.groq.model} onChange={(e) => updateGroq({ model: e.target.value })} className="mt-2 w-full px-4 py-3 bg-[#202020] rounded-xl border border-white/10 text-white text-[14px] focus:ring-0">
+                {GROQ_MODELS.map(model => <option key={model} value={model}>{model}</option>)}
+              </select>
+            </label>
+          </>
+        ) : (
+          <>
+            <label className="block">
+              <span className="speaker-label">Endpoint</span>
+              <input type="text" value={draft.openai.endpoint} onChange={(e) => updateOpenAi({ endpoint: e.target.value })} placeholder={DEFAULT_OPENAI_ENDPOINT} className="mt-2 w-full px-4 py-3 bg-[#202020] rounded-xl border border-white/10 text-white text-[14px] focus:ring-0" />
+              <span className="block mt-2 text-[12px] text-zinc-600">Base URL of a server exposing /audio/transcriptions, such as a self-hosted faster-whisper or whisper.cpp server.</span>
+            </label>
+            <label className="block">
+              <span className="speaker-label">Model</span>
+              <input type="text" value={draft.openai.model} onChange={(e) => updateOpenAi({ model: e.target.value })} placeholder="whisper-1" className="mt-2 w-full px-4 py-3 bg-[#202020] rounded-xl border border-white/10 text-white text-[14px] focus:ring-0" />
+            </label>
+            <label className="block">
+              <span className="speaker-label">API Key (optional)</span>
+              <input type="password" value={draft.openai.apiKey} onChange={(e) => updateOpenAi({ apiKey: e.target.value })} className="mt-2 w-full px-4 py-3 bg-[#202020] rounded-xl border border-white/10 text-white text-[14px] focus:ring-0" />
+            </label>
+          </>
+        )}
+
+        <label className="block">
+          <span className="speaker-label">Language</span>
+          <input type="text" value={draft.language} onChange={(e) => setDraft({ ...draft, language: e.target.value })} placeholder="Auto-detect (or e.g. en, de, fr)" className="mt-2 w-full px-4 py-3 bg-[#202020] rounded-xl border border-white/10 text-white text-[14px] focus:ring-0" />
+        </label>
+      </div>
+
+      <button onClick={() => onSave(draft)} className="mt-8 px-8 py-3 rounded-xl bg-[#007AFF] text-white text-[13px] font-bold hover:scale-105 transition-all">Save Engine Settings</button>
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+
+interface VaultSettingsProps {
+  enabled: boolean;
+  onEnable: (passphrase: string) => Promise<void>;
+  onChangePassphrase: (current: string, next: string) => Promise<boolean>;
+  onDisable: (passphrase: string) => Promise<boolean>;
+  onLock: () => void;
+}
+
+const MIN_PASSPHRASE = 8;
+
+export const VaultSettings: React.FC<VaultSettingsProps> = ({ enabled, onEnable, onChangePassphrase, onDisable, onLock }) => {
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setCurrent('');
+    setNext('');
+    setConfirm('');
+  };
+
+  const newPassphraseProblem = next.length < MIN_PASSPHRASE
+    ? `Use at least ${MIN_PASSPHRASE} characters.`
+    : next !== confirm ? 'The passphrases do not match.' : null;
+
+  const run = async (action: () => Promise<boolean | void>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      if ((await action()) === false) setError('The current passphrase is wrong.');
+      else reset();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const field = (label: string, value: string, onChange: (value: string) => void) => (
+    <label className="block">
+      <span className="speaker-label">{label}</span>
+      <input type="password" value={value} onChange={(e) => onChange(e.target.value)} className="mt-2 w-full px-4 py-3 bg-[#202020] rounded-xl border border-white/10 text-white text-[14px] focus:ring-0" />
+    </label>
+  );
+
+  return (
+    <div className="max-w-2xl mx-auto mt-16 p-10 bg-white/5 rounded-3xl border border-white/5 animate-in">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-3">
+          <span className="material-icons-outlined text-zinc-400">{enabled ? 'lock' : 'lock_open'}</span>
+          <h2 className="text-[22px] font-black tracking-tight">Encrypted Vault</h2>
+        </div>
+        {enabled && (
+          <button onClick={onLock} className="text-[11px] font-black uppercase text-zinc-500 hover:text-white">Lock Now</button>
+        )}
+      </div>
+      <p className="text-[13px] text-zinc-500 mb-8">
+        {enabled
+          ? 'Sessions, recordings, action items and API keys are encrypted on this device. The app asks for your passphrase when it starts.'
+          : 'Encrypt stored sessions, recordings and API keys with a passphrase. It never leaves this device and cannot be recovered if forgotten.'}
+      </p>
+
+      <div className="space-y-6">
+        {enabled && field('Current Passphrase', current, setCurrent)}
+        {field(enabled ? 'New Passphrase' : 'Passphrase', next, setNext)}
+        {field('Confirm', confirm, setConfirm)}
+      </div>
+      {error && <p className="mt-4 text-[12px] font-bold text-red-400">{error}</p>}
+      {!enabled && next && newPassphraseProblem && <p className="mt-4 text-[12px] text-zinc-500">{newPassphraseProblem}</p>}
+
+      <div className="flex items-center gap-6 mt-8">
+        {enabled ? (
+          <>
+            <button onClick={() => run(() => onChangePassphrase(current, next))} disabled={isWorking || !current || Boolean(newPassphraseProblem)} className="px-8 py-3 rounded-xl bg-[#007AFF] text-white text-[13px] font-bold hover:scale-105 transition-all disabled:opacity-30 disabled:hover:scale-100">Change Passphrase</button>
+            <button onClick={() => run(() => onDisable(current))} disabled={isWorking || !current} className="text-[11px] font-black uppercase text-zinc-500 hover:text-[#FF453A] disabled:opacity-30">Turn Off Encryption</button>
+          </>
+        ) : (
+          <button onClick={() => run(() => onEnable(next))} disabled={isWorking || Boolean(newPassphraseProblem)} className="px-8 py-3 rounded-xl bg-[#007AFF] text-white text-[13px] font-bold hover:scale-105 transition-all disabled:opacity-30 disabled:hover:scale-100">Encrypt Workspace</button>
+        )}
+        {isWorking && <span className="text-[12px] font-bold text-[#007AFF] animate-pulse">Working…</span>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+
+interface VocabularySettingsProps {
+  terms: string[];
+  onSave: (terms: string[]) => void;
+}
+
+export const VocabularySettings: React.FC<VocabularySettingsProps> = ({ terms, onSave }) => {
+  const [input, setInput] = useState('');
+
+  const add = () => {
+    // Pasting a comma- or newline-separated list adds every term at once
+    const added = input.split(/[,\n]/).map(t => t.trim()).filter(Boolean);
+    if (added.length === 0) return;
+    onSave([...terms, ...added]);
+    setInput('');
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto mt-16 p-10 bg-white/5 rounded-3xl border border-white/5 animate-in">
+      <div className="flex items-center gap-3 mb-2">
+        <span className="material-icons-outlined text-zinc-400">spellcheck</span>
+        <h2 className="text-[22px] font-black tracking-tight">Custom Vocabulary</h2>
+      </div>
+      <p className="text-[13px] text-zinc-500 mb-8">Names, products and acronyms Whisper should spell your way. They are sent as a hint with every chunk.</p>
+
+      <div className="flex flex-wrap gap-2 mb-6">
+        {terms.map(term => (
+          <span key={term} className="flex items-center gap-1 pl-3 pr-1.5 py-1 rounded-lg bg-[#202020] border border-white/5 text-[13px] font-semibold text-zinc-200">
+            {term}
+            <button onClick={() => onSave(terms.filter(t => t !== term))} className="text-zinc-600 hover:text-[#FF453A]">
+              <span className="material-icons-outlined text-[16px]">close</span>
+            </button>
+          </span>
+        ))}
+        {terms.length === 0 && <span className="text-[13px] text-zinc-600">No terms yet.</span>}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') add(); }}
+          placeholder="Acme Cloud, GraphQL, Dr. Nguyen"
+          className="flex-1 px-4 py-3 bg-[#202020] rounded-xl border border-white/10 text-white text-[14px] focus:ring-0"
+        />
+        <button onClick={add} disabled={!input.trim()} className="px-6 py-3 rounded-xl bg-[#007AFF] text-white text-[13px] font-bold disabled:opacity-30">Add</button>
+      </div>
+    </div>
+  );
+};
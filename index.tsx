@@ -1,16 +1,31 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { LockScreen } from './components/LockScreen';
+import { isVaultLocked } from './services/vaultService';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// App reads settings and the library as it mounts, so it waits for the vault
+const Root: React.FC = () => {
+  const [isLocked, setIsLocked] = useState(isVaultLocked);
+  return isLocked ? <LockScreen onUnlock={() => setIsLocked(false)} /> : <App />;
+};
+
+// Dev builds skip it so the cache never serves stale modules
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).catch(console.error);
+  });
+}
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <Root />
   </React.StrictMode>
 );
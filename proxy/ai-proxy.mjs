@@ -0,0 +1,136 @@
+// Minimal AI proxy so API keys stay on a server instead of shipping to the browser.
+//
+//   GEMINI_API_KEY=... GROQ_API_KEY=... NOTION_TOKEN=... PROXY_TOKEN=... node proxy/ai-proxy.mjs
+//
+// POST /generate                  { prompt, schema? } -> { text }, the same protocol as the local stub
+// POST /v1/audio/transcriptions   multipart upload, forwarded to Groq's OpenAI-compatible API
+// *    /notion/v1/...             forwarded to Notion's API, which browsers can't call directly
+// GET  /feed?url=...              fetches a subscribed ICS calendar; Google, Outlook and iCloud send no CORS headers
+//
+// PROXY_TOKEN is required: every request must send `Authorization: Bearer <token>`.
+// The proxy listens on 127.0.0.1 unless HOST says otherwise, and only answers
+// browsers on ALLOWED_ORIGIN (comma-separated, defaults to the dev and preview servers).
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT || 8788);
+const HOST = process.env.HOST || '127.0.0.1';
+const GEMINI_MODEL = process.env.GEMINI_MODEL || 'gemini-2.5-flash';
+const GROQ_TRANSCRIPTION_URL = 'https://api.groq.com/openai/v1/audio/transcriptions';
+const NOTION_API = 'https://api.notion.com';
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+const { GEMINI_API_KEY, GROQ_API_KEY, NOTION_TOKEN, PROXY_TOKEN } = process.env;
+const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGIN || 'http://localhost:3000,http://localhost:4173').split(',').map(o => o.trim());
+
+// Without a token anyone who reaches the port spends the server's keys
+if (!PROXY_TOKEN) {
+  console.error('Set PROXY_TOKEN before starting the proxy.');
+  process.exit(1);
+}
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      // Stop buffering; the socket is closed once the 413 has been written
+      req.removeAllListeners('data');
+      reject(Object.assign(new Error('Request body too large.'), { status: 413 }));
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const send = (res, status, body, contentType = 'application/json') => {
+  const origin = res.req.headers.origin;
+  res.writeHead(status, {
+    'Content-Type': contentType,
+    ...(ALLOWED_ORIGINS.includes(origin) ? { 'Access-Control-Allow-Origin': origin } : {}),
+    Vary: 'Origin',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type, Notion-Version',
+    'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS'
+  });
+  res.end(typeof body === 'string' || Buffer.isBuffer(body) ? body : JSON.stringify(body));
+};
+
+const generate = async (body) => {
+  if (!GEMINI_API_KEY) throw Object.assign(new Error('GEMINI_API_KEY is not set on the proxy.'), { status: 503 });
+  const { prompt, schema } = JSON.parse(body.toString('utf8') || '{}');
+  const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}:generateContent`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-goog-api-key': GEMINI_API_KEY },
+    body: JSON.stringify({
+      contents: [{ role: 'user', parts: [{ text: String(prompt || '') }] }],
+      ...(schema ? { generationConfig: { responseMimeType: 'application/json', responseJsonSchema: schema } } : {})
+    })
+  });
+  if (!response.ok) throw Object.assign(new Error(`Gemini answered ${response.status}.`), { status: 502 });
+  const data = await response.json();
+  return { text: (data.candidates?.[0]?.content?.parts || []).map(part => part.text || '').join('') };
+};
+
+const transcribe = async (req, body) => {
+  if (!GROQ_API_KEY) throw Object.assign(new Error('GROQ_API_KEY is not set on the proxy.'), { status: 503 });
+  return fetch(GROQ_TRANSCRIPTION_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': req.headers['content-type'] || 'application/octet-stream', Authorization: `Bearer ${GROQ_API_KEY}` },
+    body
+  });
+};
+
+const notion = async (req, body) => {
+  if (!NOTION_TOKEN) throw Object.assign(new Error('NOTION_TOKEN is not set on the proxy.'), { status: 503 });
+  return fetch(`${NOTION_API}${req.url.slice('/notion'.length)}`, {
+    method: req.method,
+    headers: {
+      'Content-Type': 'application/json',
+      'Notion-Version': req.headers['notion-version'] || '2022-06-28',
+      Authorization: `Bearer ${NOTION_TOKEN}`
+    },
+    body: ['GET', 'DELETE'].includes(req.method) ? undefined : body
+  });
+};
+
+const feed = async (req) => {
+  const target = new URL(req.url, 'http://relay').searchParams.get('url') || '';
+  const url = target.replace(/^webcal:/i, 'https:');
+  if (!/^https?:\/\//i.test(url)) throw Object.assign(new Error('Pass the calendar address as ?url=.'), { status: 400 });
+  return fetch(url, { headers: { Accept: 'text/calendar, */*' } }).catch(() => {
+    throw Object.assign(new Error(`Could not reach ${new URL(url).host}.`), { status: 502 });
+  });
+};
+
+http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204, '');
+  const isNotion = req.url.startsWith('/notion/v1/');
+  const isFeed = req.url === '/feed' || req.url.startsWith('/feed?');
+  if (req.method !== (isFeed ? 'GET' : 'POST') && !isNotion) return send(res, 405, { error: 'Method not allowed.' });
+  if (req.headers.authorization !== `Bearer ${PROXY_TOKEN}`) return send(res, 401, { error: 'Missing or wrong proxy token.' });
+
+  try {
+    const body = await readBody(req);
+    if (isFeed) {
+      const upstream = await feed(req);
+      return send(res, upstream.status, Buffer.from(await upstream.arrayBuffer()), upstream.headers.get('content-type') || 'text/calendar');
+    }
+    if (isNotion) {
+      const upstream = await notion(req, body);
+      return send(res, upstream.status, Buffer.from(await upstream.arrayBuffer()), upstream.headers.get('content-type') || 'application/json');
+    }
+    if (req.url === '/generate') return send(res, 200, await generate(body));
+    if (req.url === '/v1/audio/transcriptions') {
+      const upstream = await transcribe(req, body);
+      return send(res, upstream.status, Buffer.from(await upstream.arrayBuffer()), upstream.headers.get('content-type') || 'application/json');
+    }
+    send(res, 404, { error: 'Not found.' });
+  } catch (err) {
+    if (err.status === 413) {
+      res.setHeader('Connection', 'close');
+      res.on('finish', () => req.destroy());
+    }
+    send(res, err.status || 500, { error: err.message });
+  }
+}).listen(PORT, HOST, () => console.log(`AI proxy listening on http://${HOST}:${PORT}`));
@@ -0,0 +1,76 @@
+// Stand-in model for working offline or without a Gemini key. It speaks the
+// same protocol as the AI proxy's /generate route and answers instantly.
+//
+//   node proxy/llm-stub.mjs
+//
+// Then choose Local Stub in Settings > AI Model with endpoint http://localhost:8787.
+// Prompts without a schema get a fixed sentence back; prompts with one get the
+// smallest JSON value that fits it, so diarization falls back to one speaker and
+// analyses come back empty but well-formed.
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT || 8787);
+const HOST = process.env.HOST || '127.0.0.1';
+const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGIN || 'http://localhost:3000,http://localhost:4173').split(',').map(o => o.trim());
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+const send = (res, status, body = '') => {
+  const origin = res.req.headers.origin;
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    ...(ALLOWED_ORIGINS.includes(origin) ? { 'Access-Control-Allow-Origin': origin } : {}),
+    Vary: 'Origin',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS'
+  });
+  res.end(typeof body === 'string' ? body : JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      req.removeAllListeners('data');
+      reject(Object.assign(new Error('Request body too large.'), { status: 413 }));
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+/** The smallest value matching a JSON schema: empty lists, blank strings, first enum entry. */
+const sample = (schema = {}) => {
+  if (Array.isArray(schema.enum)) return schema.enum[0];
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([key, property]) => [key, sample(property)]));
+    case 'array': return [];
+    case 'number':
+    case 'integer': return 0;
+    case 'boolean': return false;
+    case 'string': return '';
+    default: return null;
+  }
+};
+
+http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (req.method !== 'POST') return send(res, 405, { error: 'Method not allowed.' });
+  if (req.url !== '/generate') return send(res, 404, { error: 'Not found.' });
+
+  try {
+    const { prompt, schema } = JSON.parse((await readBody(req)).toString('utf8') || '{}');
+    if (typeof prompt !== 'string') return send(res, 400, { error: 'Send { prompt, schema? }.' });
+    send(res, 200, { text: schema ? JSON.stringify(sample(schema)) : `Stub reply to a ${prompt.length}-character prompt.` });
+  } catch (err) {
+    if (err.status === 413) {
+      res.setHeader('Connection', 'close');
+      res.on('finish', () => req.destroy());
+    }
+    send(res, err.status || 400, { error: err.message });
+  }
+}).listen(PORT, HOST, () => console.log(`Model stub listening on http://${HOST}:${PORT}`));
@@ -0,0 +1,120 @@
+// Tiny WebDAV-style file server for trying workspace sync locally: GET and PUT
+// with ETags and the conditional headers the app sends, plus CORS.
+//
+//   SYNC_DIR=./.sync-data SYNC_USER=me SYNC_PASSWORD=secret node proxy/sync-server.mjs
+//
+// Then choose WebDAV in Settings > Workspace Sync with URL http://localhost:8790.
+// It listens on 127.0.0.1 unless HOST says otherwise, and only answers browsers
+// on ALLOWED_ORIGIN (comma-separated, defaults to the dev and preview servers).
+import http from 'node:http';
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+const PORT = Number(process.env.PORT || 8790);
+const HOST = process.env.HOST || '127.0.0.1';
+const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGIN || 'http://localhost:3000,http://localhost:4173').split(',').map(o => o.trim());
+const ROOT = path.resolve(process.env.SYNC_DIR || '.sync-data');
+const { SYNC_USER, SYNC_PASSWORD } = process.env;
+const MAX_BODY_BYTES = 200 * 1024 * 1024;
+
+const etagOf = (data) => `"${createHash('sha256').update(data).digest('hex').slice(0, 32)}"`;
+
+const send = (res, status, body = '', headers = {}) => {
+  const origin = res.req.headers.origin;
+  res.writeHead(status, {
+    ...(ALLOWED_ORIGINS.includes(origin) ? { 'Access-Control-Allow-Origin': origin } : {}),
+    Vary: 'Origin',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type, If-Match, If-None-Match',
+    'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+    'Access-Control-Expose-Headers': 'ETag',
+    ...headers
+  });
+  res.end(body);
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      // Stop buffering; the socket is closed once the 413 has been written
+      req.removeAllListeners('data');
+      reject(Object.assign(new Error('Request body too large.'), { status: 413 }));
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const readExisting = async (file) => {
+  try {
+    return await readFile(file);
+  } catch (err) {
+    if (err.code === 'ENOENT') return null;
+    throw err;
+  }
+};
+
+// The conditional check and the write happen under one lock per file, so two
+// PUTs racing with the same If-Match can't both succeed.
+const locks = new Map();
+
+const withFileLock = (file, run) => {
+  const previous = locks.get(file) || Promise.resolve();
+  const current = previous.then(run, run);
+  const settled = current.catch(() => {});
+  locks.set(file, settled);
+  settled.then(() => { if (locks.get(file) === settled) locks.delete(file); });
+  return current;
+};
+
+const authorized = (req) => {
+  if (!SYNC_USER) return true;
+  const expected = `Basic ${Buffer.from(`${SYNC_USER}:${SYNC_PASSWORD || ''}`).toString('base64')}`;
+  return req.headers.authorization === expected;
+};
+
+http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (!authorized(req)) return send(res, 401, 'Unauthorized', { 'WWW-Authenticate': 'Basic realm="sync"' });
+
+  try {
+    let file;
+    try {
+      file = path.join(ROOT, decodeURIComponent(new URL(req.url, 'http://localhost').pathname));
+    } catch {
+      return send(res, 400, 'Bad path');
+    }
+    if (!file.startsWith(ROOT + path.sep)) return send(res, 400, 'Bad path');
+
+    if (req.method === 'GET') {
+      const existing = await readExisting(file);
+      if (!existing) return send(res, 404, 'Not found');
+      return send(res, 200, existing, { 'Content-Type': 'application/json', ETag: etagOf(existing) });
+    }
+    if (req.method === 'PUT') {
+      const body = await readBody(req);
+      const ifMatch = req.headers['if-match'];
+      const ifNoneMatch = req.headers['if-none-match'];
+      return await withFileLock(file, async () => {
+        const existing = await readExisting(file);
+        if (ifNoneMatch === '*' && existing) return send(res, 412, 'Already exists');
+        if (ifMatch && (!existing || ifMatch !== etagOf(existing))) return send(res, 412, 'Changed since read');
+        await mkdir(path.dirname(file), { recursive: true });
+        await writeFile(file, body);
+        send(res, existing ? 204 : 201, '', { ETag: etagOf(body) });
+      });
+    }
+    send(res, 405, 'Method not allowed');
+  } catch (err) {
+    if (err.status === 413) {
+      res.setHeader('Connection', 'close');
+      res.on('finish', () => req.destroy());
+    }
+    send(res, err.status || 500, err.message);
+  }
+}).listen(PORT, HOST, () => console.log(`Sync server storing files in ${ROOT} on http://${HOST}:${PORT}`));
@@ -0,0 +1,65 @@
+// App shell cache. Pages are network-first so a deploy shows up on the next
+// load; static assets and the CDN styles/fonts are served from the cache and
+// refreshed in the background. API calls are never cached.
+
+const CACHE = 'transcribeai-shell-v1';
+const SHELL = ['./', './index.html', './manifest.webmanifest', './icon.svg'];
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'cdnjs.cloudflare.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'esm.sh'];
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE);
+    await cache.addAll(SHELL);
+    // Vite fingerprints the bundle names, so read them off the page being cached
+    const html = await (await cache.match('./')).text();
+    const assets = [...html.matchAll(/(?:src|href)="([^"]+)"/g)].map(match => match[1]);
+    await Promise.all(assets.map(url => cache.add(url).catch(() => {})));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => name !== CACHE).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+const networkFirst = async request => {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put('./', response.clone());
+    return response;
+  } catch {
+    return (await cache.match('./')) || Response.error();
+  }
+};
+
+const staleWhileRevalidate = async (event, request) => {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  const refresh = fetch(request).then(response => {
+    if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+    return response;
+  });
+  if (cached) {
+    event.waitUntil(refresh.catch(() => {}));
+    return cached;
+  }
+  return refresh;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  const scope = new URL(self.registration.scope);
+
+  if (request.mode === 'navigate' && url.origin === scope.origin && url.pathname.startsWith(scope.pathname)) {
+    event.respondWith(networkFirst(request));
+  } else if ((url.origin === scope.origin && url.pathname.startsWith(scope.pathname)) || CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(event, request));
+  }
+});
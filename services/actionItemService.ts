@@ -0,0 +1,137 @@
+import { ActionItem, Session } from '../types';
+import { STORES, withStore, runTransaction } from './database';
+import { speakerName } from './diarizationService';
+import { getLlmClient } from './llmClient';
+import { sealRecord, openRecord } from './vaultService';
+
+export interface ExtractedActionItem {
+  text: string;
+  owner?: string;
+  dueDate?: string;
+  segmentId?: string;
+}
+
+// Two phrasings of the same task usually share most of their words
+const SAME_ITEM_THRESHOLD = 0.6;
+
+const words = (text: string) => new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []);
+
+const similarity = (a: string, b: string): number => {
+  const left = words(a);
+  const right = words(b);
+  if (left.size === 0 || right.size === 0) return 0;
+  let shared = 0;
+  left.forEach(w => { if (right.has(w)) shared++; });
+  return shared / (left.size + right.size - shared);
+};
+
+const openItems = (records: unknown[]) => Promise.all(records.map(record => openRecord<ActionItem>(record)));
+
+export const getActionItems = async (): Promise<ActionItem[]> => {
+  const items = await openItems(await withStore<unknown[]>(STORES.actionItems, 'readonly', store => store.getAll()));
+  return items.sort((a, b) => (a.dueDate || '9999').localeCompare(b.dueDate || '9999') || b.createdAt - a.createdAt);
+};
+
+export const getActionItemsForSession = async (sessionId: string): Promise<ActionItem[]> =>
+  openItems(await withStore<unknown[]>(STORES.actionItems, 'readonly', store => store.index('sessionId').getAll(sessionId)));
+
+export const saveActionItem = async (item: ActionItem): Promise<void> => {
+  const record = await sealRecord(STORES.actionItems, item);
+  await withStore(STORES.actionItems, 'readwrite', store => store.put(record));
+};
+
+export const deleteActionItemsForSession = async (sessionId: string): Promise<void> => {
+  const items = await getActionItemsForSession(sessionId);
+  await runTransaction(STORES.actionItems, store => items.forEach(item => store.delete(item.id)));
+};
+
+/**
+ * Asks the model for owners, due dates and the segment each task came from. The
+ * plain strings from the summary are the fallback when this fails.
+ */
+export const extractActionItems = async (session: Session, fallback: string[]): Promise<ExtractedActionItem[]> => {
+  try {
+    const transcript = session.segments
+      .map(s => `[${s.id}] ${speakerName(s.speaker, session.speakerNames)}: ${s.text}`)
+      .join('\n');
+    const meetingDate = new Date(session.timestamp).toISOString().slice(0, 10);
+
+    const items = await getLlmClient().generateJson<ExtractedActionItem[]>(
+      `List every action item agreed in this meeting (held on ${meetingDate}). For each, give the owner's name if one was assigned, a due date as YYYY-MM-DD if one was stated (resolve relative dates like "Friday" against the meeting date), and the id in square brackets of the line where it was agreed.\n\n${transcript}`,
+      {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            text: { type: 'string' },
+            owner: { type: 'string' },
+            dueDate: { type: 'string' },
+            segmentId: { type: 'string' }
+          },
+          required: ['text']
+        }
+      }
+    ) || [];
+
+    const segmentIds = new Set(session.segments.map(s => s.id));
+    return items.map(item => ({
+      text: item.text,
+      owner: item.owner || undefined,
+      dueDate: /^\d{4}-\d{2}-\d{2}$/.test(item.dueDate || '') ? item.dueDate : undefined,
+      segmentId: item.segmentId && segmentIds.has(item.segmentId) ? item.segmentId : undefined
+    }));
+  } catch (err) {
+    console.error(err);
+    return fallback.map(text => ({ text }));
+  }
+};
+
+/**
+ * Folds a fresh extraction into the session's existing items. Items the user
+ * has edited are never changed; untouched ones pick up new details; anything
+ * unmatched is added as a new open item.
+ */
+export const mergeActionItems = async (sessionId: string, extracted: ExtractedActionItem[]): Promise<ActionItem[]> => {
+  const existing = await getActionItemsForSession(sessionId);
+  const now = Date.now();
+  const changed: ActionItem[] = [];
+  const claimed = new Set<string>();
+
+  extracted.forEach((candidate, i) => {
+    const match = existing
+      .filter(item => !claimed.has(item.id))
+      .map(item => ({ item, score: similarity(item.text, candidate.text) }))
+      .filter(({ score }) => score >= SAME_ITEM_THRESHOLD)
+      .sort((a, b) => b.score - a.score)[0]?.item;
+
+    if (match) {
+      claimed.add(match.id);
+      if (match.edited) return;
+      changed.push({
+        ...match,
+        text: candidate.text,
+        owner: candidate.owner || match.owner,
+        dueDate: candidate.dueDate || match.dueDate,
+        segmentId: candidate.segmentId || match.segmentId,
+        updatedAt: now
+      });
+      return;
+    }
+
+    changed.push({
+      id: `action-${now}-${i}`,
+      text: candidate.text,
+      owner: candidate.owner,
+      dueDate: candidate.dueDate,
+      segmentId: candidate.segmentId,
+      status: 'open',
+      sessionId,
+      createdAt: now,
+      updatedAt: now
+    });
+  });
+
+  const records = await Promise.all(changed.map(item => sealRecord(STORES.actionItems, item)));
+  await runTransaction(STORES.actionItems, store => records.forEach(record => store.put(record)));
+  return getActionItemsForSession(sessionId);
+};
@@ -0,0 +1,195 @@
+import { AnalysisResult, AnalysisTemplate, TemplateAnalysis } from '../types';
+import { getLlmClient } from './llmClient';
+import { recordCollectionChanges } from './changeLogService';
+
+// The built-in summary fills Session.analysis through summarizeTranscript; every
+// other template is a prompt plus a JSON schema the model must answer in.
+export const SUMMARY_TEMPLATE_ID = 'summary';
+const TEMPLATES_KEY = 'analysis_templates';
+
+const stringList = (description: string) => ({ type: 'array', description, items: { type: 'string' } });
+
+export const BUILT_IN_TEMPLATES: AnalysisTemplate[] = [
+  {
+    id: SUMMARY_TEMPLATE_ID,
+    name: 'Summary',
+    instructions: 'Summarize the meeting with key points and action items.',
+    schema: {
+      type: 'object',
+      properties: {
+        summary: { type: 'string' },
+        keyPoints: stringList('Key points'),
+        actionItems: stringList('Action items')
+      },
+      required: ['summary', 'keyPoints', 'actionItems']
+    },
+    builtIn: true
+  },
+  {
+    id: 'standup',
+    name: 'Standup',
+    instructions: 'This is a daily standup. For each participant, extract what they did yesterday, what they plan today and any blockers.',
+    schema: {
+      type: 'object',
+      properties: {
+        updates: {
+          type: 'array',
+          description: 'Per-person updates',
+          items: {
+            type: 'object',
+            properties: {
+              person: { type: 'string' },
+              yesterday: stringList('Yesterday'),
+              today: stringList('Today'),
+              blockers: stringList('Blockers')
+            },
+            required: ['person', 'yesterday', 'today', 'blockers']
+          }
+        },
+        teamBlockers: stringList('Blockers needing follow-up')
+      },
+      required: ['updates', 'teamBlockers']
+    },
+    builtIn: true
+  },
+  {
+    id: 'interview',
+    name: 'Interview',
+    instructions: 'This is a job interview. Assess the candidate based only on what was said.',
+    schema: {
+      type: 'object',
+      properties: {
+        overview: { type: 'string', description: 'Overview' },
+        strengths: stringList('Strengths'),
+        concerns: stringList('Concerns'),
+        signals: {
+          type: 'array',
+          description: 'Candidate signals',
+          items: {
+            type: 'object',
+            properties: {
+              competency: { type: 'string' },
+              evidence: { type: 'string' },
+              rating: { type: 'string', enum: ['strong', 'mixed', 'weak'] }
+            },
+            required: ['competency', 'evidence', 'rating']
+          }
+        },
+        followUpQuestions: stringList('Follow-up questions')
+      },
+      required: ['overview', 'strengths', 'concerns', 'signals']
+    },
+    builtIn: true
+  },
+  {
+    id: 'lecture',
+    name: 'Lecture',
+    instructions: 'This is a lecture or class. Extract study material for a student.',
+    schema: {
+      type: 'object',
+      properties: {
+        concepts: stringList('Core concepts'),
+        glossary: {
+          type: 'array',
+          description: 'Glossary',
+          items: {
+            type: 'object',
+            properties: { term: { type: 'string' }, definition: { type: 'string' } },
+            required: ['term', 'definition']
+          }
+        },
+        quiz: {
+          type: 'array',
+          description: 'Quiz questions',
+          items: {
+            type: 'object',
+            properties: { question: { type: 'string' }, answer: { type: 'string' } },
+            required: ['question', 'answer']
+          }
+        }
+      },
+      required: ['concepts', 'glossary', 'quiz']
+    },
+    builtIn: true
+  },
+  {
+    id: 'sales',
+    name: 'Sales Call',
+    instructions: 'This is a sales call. Capture what the prospect needs and how to move the deal forward.',
+    schema: {
+      type: 'object',
+      properties: {
+        needs: stringList('Prospect needs'),
+        objections: {
+          type: 'array',
+          description: 'Objections',
+          items: {
+            type: 'object',
+            properties: { objection: { type: 'string' }, response: { type: 'string' } },
+            required: ['objection', 'response']
+          }
+        },
+        nextSteps: stringList('Next steps'),
+        dealRisk: { type: 'string', description: 'Deal risk', enum: ['low', 'medium', 'high'] }
+      },
+      required: ['needs', 'objections', 'nextSteps', 'dealRisk']
+    },
+    builtIn: true
+  }
+];
+
+export const getCustomTemplates = (): AnalysisTemplate[] =>
+  JSON.parse(localStorage.getItem(TEMPLATES_KEY) || '[]');
+
+export const getTemplates = (): AnalysisTemplate[] => [...BUILT_IN_TEMPLATES, ...getCustomTemplates()];
+
+export const saveCustomTemplates = (templates: AnalysisTemplate[]) => {
+  recordCollectionChanges('templates', getCustomTemplates().map(t => t.id), templates.map(t => t.id));
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates.map(t => ({ ...t, builtIn: false }))));
+};
+
+export const saveTemplate = (template: AnalysisTemplate) => {
+  saveCustomTemplates([...getCustomTemplates().filter(t => t.id !== template.id), template]);
+};
+
+export const deleteTemplate = (id: string) => {
+  saveCustomTemplates(getCustomTemplates().filter(t => t.id !== id));
+};
+
+const isJsonObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+/** Returns an error message if the schema can't be used as a response schema. */
+export const validateTemplateSchema = (schema: unknown): string | null => {
+  if (!isJsonObject(schema)) return 'Schema must be a JSON object.';
+  const { type, properties } = schema;
+  if (type !== 'object' || !isJsonObject(properties)) {
+    return 'The top-level schema must be { "type": "object", "properties": { ... } }.';
+  }
+  if (Object.keys(properties).length === 0) return 'Define at least one output section.';
+  return null;
+};
+
+export const summarizeTranscript = async (transcript: string): Promise<AnalysisResult> => {
+  const summary = BUILT_IN_TEMPLATES.find(t => t.id === SUMMARY_TEMPLATE_ID)!;
+  const result = await getLlmClient().generateJson<Partial<AnalysisResult> | null>(
+    `${summary.instructions}\n\nBase every answer strictly on the transcript below.\n\nTranscript:\n${transcript}`,
+    summary.schema
+  );
+  return { summary: result?.summary || '', keyPoints: result?.keyPoints || [], actionItems: result?.actionItems || [] };
+};
+
+export const runTemplateAnalysis = async (transcript: string, template: AnalysisTemplate): Promise<TemplateAnalysis> => {
+  const result = await getLlmClient().generateJson<Record<string, unknown>>(
+    `${template.instructions}\n\nBase every answer strictly on the transcript below. Use empty lists when something was not discussed.\n\nTranscript:\n${transcript}`,
+    template.schema
+  );
+
+  return {
+    id: `analysis-${Date.now()}`,
+    templateId: template.id,
+    templateName: template.name,
+    createdAt: Date.now(),
+    result: result || {}
+  };
+};
@@ -0,0 +1,19 @@
+import { STORES, withStore } from './database';
+import { sealBlob, openBlob } from './vaultService';
+
+// Session recordings are far too large for localStorage, so the audio lives in
+// its own IndexedDB store keyed by session id.
+
+export const saveAudio = async (sessionId: string, audio: Blob): Promise<void> => {
+  const record = await sealBlob(audio);
+  await withStore(STORES.recordings, 'readwrite', store => store.put(record, sessionId));
+};
+
+export const getAudio = async (sessionId: string): Promise<Blob | null> => {
+  const record = await withStore<unknown>(STORES.recordings, 'readonly', store => store.get(sessionId));
+  return record ? openBlob(record) : null;
+};
+
+export const deleteAudio = async (sessionId: string): Promise<void> => {
+  await withStore(STORES.recordings, 'readwrite', store => store.delete(sessionId));
+};
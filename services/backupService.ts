@@ -0,0 +1,282 @@
+import { ActionItem, AnalysisTemplate, CalendarEvent, CalendarFeed, LibraryFolder, PostProcessingRule, Session } from '../types';
+import { getSessions, saveSession, deleteSession, getTombstones, saveTombstones } from './storageService';
+import { getAudio, saveAudio, deleteAudio } from './audioStorageService';
+import { getActionItems, saveActionItem, deleteActionItemsForSession } from './actionItemService';
+import { getStoredSchedule, saveSchedule, getFeeds, saveFeeds } from './calendarService';
+import { getFolders, saveFolders } from './libraryService';
+import { getCustomTemplates, saveCustomTemplates } from './analysisService';
+import { getVocabulary, saveVocabulary, vocabularyKey, getRules, saveRules } from './postProcessingService';
+import { ChangeLog, getChangeLog, mergeCollection } from './changeLogService';
+import { triggerDownload } from './exportService';
+import { SESSION_SCHEMA_VERSION, CALENDAR_EVENT_SCHEMA_VERSION, migrateSession, migrateCalendarEvent } from './migrationService';
+
+export const ARCHIVE_FORMAT = 'transcribeai-workspace';
+const ARCHIVE_VERSION = 1;
+
+// Plain settings that travel with a backup. API keys never do.
+const SETTINGS_KEYS = ['transcription_settings', 'meeting_automation', 'notion_settings', 'llm_settings', 'feed_relay'];
+
+export interface WorkspaceArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  schema: { session: number; calendarEvent: number };
+  exportedAt: number;
+  sessions: Session[];
+  actionItems: ActionItem[];
+  schedule: CalendarEvent[];    // imported by hand; subscribed feeds refill themselves
+  feeds: CalendarFeed[];
+  folders: LibraryFolder[];
+  templates: AnalysisTemplate[];
+  vocabulary: string[];
+  rules: PostProcessingRule[];
+  settings: Record<string, unknown>;
+  tombstones: Record<string, number>;
+  changes: ChangeLog;                     // deletions in the lists above
+  recordings?: Record<string, string>;   // session id -> data URL
+}
+
+// An archive of any version, before its records are migrated
+type RawArchive = Partial<Omit<WorkspaceArchive, 'format' | 'schema' | 'sessions' | 'schedule'>> & {
+  format?: unknown;
+  schema?: Partial<WorkspaceArchive['schema']>;
+  sessions?: unknown[];
+  schedule?: unknown[];
+};
+
+export type ConflictStrategy = 'newest' | 'local' | 'incoming' | 'both';
+
+export interface SessionConflict {
+  local: Session;
+  incoming: Session;
+}
+
+export interface ImportPlan {
+  archive: WorkspaceArchive;
+  restore: boolean;        // a backup restore brings back what was deleted here; sync keeps it deleted
+  added: Session[];
+  updated: Session[];
+  unchanged: number;
+  conflicts: SessionConflict[];
+  removed: string[];       // local sessions the archive deleted after their last change
+}
+
+export interface ImportResult {
+  added: number;
+  updated: number;
+  removed: number;
+  copies: number;
+}
+
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupFormatError';
+  }
+}
+
+const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+const dataUrlToBlob = async (url: string) => (await fetch(url)).blob();
+
+export const buildArchive = async ({ includeRecordings = false }: { includeRecordings?: boolean } = {}): Promise<WorkspaceArchive> => {
+  const sessions = await getSessions({ limit: Infinity });
+  const recordings: Record<string, string> = {};
+  if (includeRecordings) {
+    for (const session of sessions.filter(s => s.hasAudio)) {
+      const audio = await getAudio(session.id);
+      if (audio) recordings[session.id] = await blobToDataUrl(audio);
+    }
+  }
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    schema: { session: SESSION_SCHEMA_VERSION, calendarEvent: CALENDAR_EVENT_SCHEMA_VERSION },
+    exportedAt: Date.now(),
+    sessions,
+    actionItems: await getActionItems(),
+    schedule: getStoredSchedule().filter(e => !e.feedId),
+    feeds: getFeeds().map(({ id, name, url }) => ({ id, name, url })),
+    folders: getFolders(),
+    templates: getCustomTemplates(),
+    vocabulary: getVocabulary(),
+    rules: getRules(),
+    settings: Object.fromEntries(SETTINGS_KEYS.flatMap(key => {
+      const value = localStorage.getItem(key);
+      return value ? [[key, JSON.parse(value)]] : [];
+    })),
+    tombstones: getTombstones(),
+    changes: getChangeLog(),
+    ...(includeRecordings ? { recordings } : {})
+  };
+};
+
+export const downloadArchive = (archive: WorkspaceArchive) => {
+  const blob = new Blob([JSON.stringify(archive)], { type: 'application/json' });
+  triggerDownload(blob, `transcribeai-backup-${new Date(archive.exportedAt).toISOString().slice(0, 10)}.json`);
+};
+
+/** Reads any archive version, plus the bare session array the app kept in localStorage before IndexedDB. */
+export const parseArchive = (text: string): WorkspaceArchive => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new BackupFormatError("This file isn't a workspace backup.");
+  }
+  const raw: RawArchive | null = Array.isArray(parsed) ? { format: ARCHIVE_FORMAT, version: 0, sessions: parsed } : parsed as RawArchive | null;
+  if (raw?.format !== ARCHIVE_FORMAT) throw new BackupFormatError("This file isn't a workspace backup.");
+  if ((raw.version ?? 0) > ARCHIVE_VERSION) throw new BackupFormatError("This backup was made by a newer version of the app.");
+
+  const schema = { session: 0, calendarEvent: 0, ...raw.schema };
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    schema: { session: SESSION_SCHEMA_VERSION, calendarEvent: CALENDAR_EVENT_SCHEMA_VERSION },
+    exportedAt: raw.exportedAt || 0,
+    sessions: (raw.sessions || []).map(s => migrateSession(s, schema.session)),
+    actionItems: raw.actionItems || [],
+    schedule: (raw.schedule || []).map(e => migrateCalendarEvent(e, schema.calendarEvent)),
+    feeds: raw.feeds || [],
+    folders: raw.folders || [],
+    templates: raw.templates || [],
+    vocabulary: raw.vocabulary || [],
+    rules: raw.rules || [],
+    settings: raw.settings || {},
+    tombstones: raw.tombstones || {},
+    changes: raw.changes || {},
+    recordings: raw.recordings
+  };
+};
+
+const changedAt = (session: Session) => session.updatedAt ?? session.timestamp;
+
+const sameContent = (a: Session, b: Session) =>
+  JSON.stringify({ ...a, updatedAt: undefined }) === JSON.stringify({ ...b, updatedAt: undefined });
+
+/**
+ * Sorts archive sessions against the local library. With `sync`, sessions
+ * deleted here stay deleted, and with `since` (the last sync) a session only
+ * conflicts when both sides changed after it. Without them, any difference is
+ * a conflict for the caller's strategy to settle.
+ */
+export const planImport = (
+  archive: WorkspaceArchive,
+  local: Session[],
+  { sync = false, since }: { sync?: boolean; since?: number } = {}
+): ImportPlan => {
+  const byId = new Map(local.map(s => [s.id, s]));
+  const tombstones = sync ? getTombstones() : {};
+  const plan: ImportPlan = { archive, restore: !sync, added: [], updated: [], unchanged: 0, conflicts: [], removed: [] };
+
+  archive.sessions.forEach(incoming => {
+    const current = byId.get(incoming.id);
+    if (!current) {
+      // Deleted here after its last change elsewhere: it stays deleted
+      if (tombstones[incoming.id] !== undefined && tombstones[incoming.id] >= changedAt(incoming)) plan.unchanged++;
+      else plan.added.push(incoming);
+      return;
+    }
+    if (sameContent(current, incoming)) {
+      plan.unchanged++;
+      return;
+    }
+    const localChanged = since === undefined || changedAt(current) > since;
+    const incomingChanged = since === undefined || changedAt(incoming) > since;
+    if (localChanged && incomingChanged) plan.conflicts.push({ local: current, incoming });
+    else if (incomingChanged) plan.updated.push(incoming);
+    else plan.unchanged++;
+  });
+
+  Object.entries(archive.tombstones).forEach(([id, deletedAt]) => {
+    const current = byId.get(id);
+    if (current && changedAt(current) <= deletedAt) plan.removed.push(id);
+  });
+  return plan;
+};
+
+export const applyImport = async (
+  plan: ImportPlan,
+  { strategy, replaceSettings = false }: { strategy: ConflictStrategy; replaceSettings?: boolean }
+): Promise<ImportResult> => {
+  const { archive } = plan;
+  const result: ImportResult = { added: 0, updated: 0, removed: 0, copies: 0 };
+  const written: Session[] = [];
+  const localTombstones = getTombstones();
+
+  // A restored session is stamped now, or the old deletion would win again at the next sync
+  const write = async (session: Session) => {
+    const deletedAt = localTombstones[session.id];
+    await saveSession(session, { touch: deletedAt !== undefined && deletedAt >= changedAt(session) });
+    written.push(session);
+  };
+
+  for (const session of plan.added) {
+    await write(session);
+    result.added++;
+  }
+  for (const session of plan.updated) {
+    await write(session);
+    result.updated++;
+  }
+  for (const { local, incoming } of plan.conflicts) {
+    if (strategy === 'incoming' || (strategy === 'newest' && changedAt(incoming) > changedAt(local))) {
+      await write(incoming);
+      result.updated++;
+    } else if (strategy === 'both') {
+      await saveSession({ ...incoming, id: `${incoming.id}-copy-${Date.now()}`, title: `${incoming.title} (conflicted copy)`, hasAudio: false, pinned: false });
+      result.copies++;
+    }
+  }
+  for (const id of plan.removed) {
+    await deleteSession(id);
+    await deleteAudio(id);
+    await deleteActionItemsForSession(id);
+    result.removed++;
+  }
+
+  for (const session of written) {
+    const audio = archive.recordings?.[session.id];
+    if (audio) await saveAudio(session.id, await dataUrlToBlob(audio));
+  }
+
+  const tombstones = getTombstones();
+  Object.entries(archive.tombstones).forEach(([id, deletedAt]) => {
+    tombstones[id] = Math.max(tombstones[id] || 0, deletedAt);
+  });
+  written.forEach(session => { delete tombstones[session.id]; });
+  saveTombstones(tombstones);
+
+  const removed = new Set(plan.removed);
+  const localItems = new Map((await getActionItems()).map(item => [item.id, item]));
+  for (const item of archive.actionItems) {
+    const current = localItems.get(item.id);
+    if (removed.has(item.sessionId) || tombstones[item.sessionId] !== undefined) continue;
+    if (!current || current.updatedAt < item.updatedAt) await saveActionItem(item);
+  }
+
+  const options = { restore: plan.restore };
+  const feedEvents = getStoredSchedule().filter(e => e.feedId);
+  mergeCollection('schedule', {
+    local: getStoredSchedule().filter(e => !e.feedId),
+    incoming: archive.schedule,
+    keyOf: e => e.id,
+    save: events => saveSchedule([...feedEvents, ...events])
+  }, archive.changes, options);
+  mergeCollection('feeds', { local: getFeeds(), incoming: archive.feeds, keyOf: f => f.url, save: saveFeeds }, archive.changes, options);
+  mergeCollection('folders', { local: getFolders(), incoming: archive.folders, keyOf: f => f.id, save: saveFolders }, archive.changes, options);
+  mergeCollection('templates', { local: getCustomTemplates(), incoming: archive.templates, keyOf: t => t.id, save: saveCustomTemplates }, archive.changes, options);
+  mergeCollection('vocabulary', { local: getVocabulary(), incoming: archive.vocabulary, keyOf: vocabularyKey, save: saveVocabulary }, archive.changes, options);
+  mergeCollection('rules', { local: getRules(), incoming: archive.rules, keyOf: r => r.id, save: saveRules }, archive.changes, options);
+  if (replaceSettings) {
+    SETTINGS_KEYS.forEach(key => {
+      if (archive.settings[key] !== undefined) localStorage.setItem(key, JSON.stringify(archive.settings[key]));
+    });
+  }
+  return result;
+};
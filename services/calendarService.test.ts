@@ -0,0 +1,168 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { CalendarEvent } from '../types';
+import {
+  expandEvent,
+  expandSchedule,
+  filterUpcomingEvents,
+  findActiveEvent,
+  parseICS,
+  resolveTimeZone,
+  upgradeLegacyEvent
+} from './calendarService';
+
+// Exports trimmed from real Google Calendar, Outlook (Exchange) and iCloud
+// calendars. The test run pins TZ=UTC, so floating and all-day times are UTC.
+
+const fixture = (name: string) => parseICS(readFileSync(new URL(`./__fixtures__/ics/${name}.ics`, import.meta.url), 'utf8'));
+
+const utc = (iso: string) => Date.parse(`${iso}Z`);
+const starts = (events: CalendarEvent[]) => events.map(e => new Date(e.start!).toISOString());
+const byTitle = (events: CalendarEvent[], title: string) => events.find(e => e.title === title)!;
+
+describe('Google Calendar export', () => {
+  const events = fixture('google');
+  const standup = byTitle(events, 'Team Standup');
+
+  it('keeps the series, its moved occurrence and the all-day event, and skips the cancelled one', () => {
+    expect(events.map(e => e.title)).toEqual(['Team Standup', 'Team Standup (moved)', 'Planning Offsite']);
+  });
+
+  it('reads the zone, rule, attendees and location', () => {
+    expect(standup.timeZone).toBe('America/Los_Angeles');
+    expect(standup.rrule).toMatchObject({ freq: 'WEEKLY', interval: 1, byDay: [{ weekday: 1 }, { weekday: 3 }, { weekday: 5 }] });
+    expect(standup.attendees).toEqual(['Dana Ko', 'sam@example.com']);
+    expect(standup.location).toBe('https://meet.google.com/abc-defg-hij');
+  });
+
+  it('keeps the 9:00 wall-clock time across the March DST change', () => {
+    const occurrences = expandEvent(standup, utc('2025-03-03T00:00:00'), utc('2025-03-11T00:00:00'));
+    expect(starts(occurrences)).toEqual([
+      '2025-03-03T17:00:00.000Z',
+      '2025-03-07T17:00:00.000Z',   // Mar 5 is an EXDATE
+      '2025-03-10T16:00:00.000Z'
+    ]);
+  });
+
+  it('applies the RECURRENCE-ID override and the cancelled occurrence', () => {
+    const week = expandSchedule(events, utc('2025-03-12T00:00:00'), utc('2025-03-15T00:00:00'))
+      .filter(e => e.uid === standup.uid);
+    expect(week.map(e => [e.title, new Date(e.start!).toISOString()])).toEqual([
+      ['Team Standup (moved)', '2025-03-12T18:00:00.000Z']
+    ]);
+  });
+
+  it('spans whole days for a multi-day all-day event', () => {
+    const offsite = byTitle(events, 'Planning Offsite');
+    expect(offsite.allDay).toBe(true);
+    expect(offsite.location).toBe('Lake Tahoe, CA');
+    expect([offsite.start, offsite.end]).toEqual([utc('2025-03-10T00:00:00'), utc('2025-03-13T00:00:00')]);
+  });
+
+  it('finds the meeting in progress and ignores all-day events', () => {
+    const now = utc('2025-03-10T16:05:00');
+    expect(findActiveEvent(events, now)?.title).toBe('Team Standup');
+    expect(filterUpcomingEvents(events, now).map(e => e.title)).toEqual(['Planning Offsite', 'Team Standup']);
+    expect(findActiveEvent(events, utc('2025-03-10T16:20:00'))).toBeUndefined();
+  });
+});
+
+describe('Outlook export', () => {
+  const events = fixture('outlook');
+
+  it('maps Windows zone names to IANA zones', () => {
+    expect(resolveTimeZone('Pacific Standard Time')).toBe('America/Los_Angeles');
+    expect(byTitle(events, 'Quarterly Review').timeZone).toBe('America/Los_Angeles');
+    expect(byTitle(events, 'Berlin Sync').timeZone).toBe('Europe/Berlin');
+  });
+
+  it('unfolds long lines and quoted parameters', () => {
+    const review = byTitle(events, 'Quarterly Review');
+    expect(review.uid).toMatch(/^040000008200E00074C5B7101A82E008.+E6F70$/);
+    expect(review.attendees).toEqual(['Lee, Morgan']);
+  });
+
+  it('expands a monthly BYDAY=2TU rule up to an inclusive UNTIL', () => {
+    const review = byTitle(events, 'Quarterly Review');
+    expect(starts(expandEvent(review, utc('2025-01-01T00:00:00'), utc('2026-01-01T00:00:00')))).toEqual([
+      '2025-01-14T18:00:00.000Z',
+      '2025-02-11T18:00:00.000Z',
+      '2025-03-11T17:00:00.000Z',
+      '2025-04-08T17:00:00.000Z',
+      '2025-05-13T17:00:00.000Z',
+      '2025-06-10T17:00:00.000Z'
+    ]);
+  });
+
+  it('counts EXDATEs toward COUNT and follows the European DST change', () => {
+    const sync = byTitle(events, 'Berlin Sync');
+    const occurrences = expandEvent(sync, utc('2025-03-01T00:00:00'), utc('2025-05-01T00:00:00'));
+    expect(starts(occurrences)).toEqual([
+      '2025-03-24T15:00:00.000Z',
+      '2025-03-25T15:00:00.000Z',
+      '2025-03-26T15:00:00.000Z',
+      '2025-03-29T15:00:00.000Z',
+      '2025-03-30T14:00:00.000Z',
+      '2025-03-31T14:00:00.000Z',
+      '2025-04-01T14:00:00.000Z',
+      '2025-04-02T14:00:00.000Z'
+    ]);
+  });
+
+  it('reads a single all-day event', () => {
+    const holiday = byTitle(events, 'Company Holiday');
+    expect(holiday.allDay).toBe(true);
+    expect(holiday.date).toBe('2025-07-04');
+    expect(holiday.rrule).toBeUndefined();
+  });
+});
+
+describe('iCloud export', () => {
+  const events = fixture('icloud');
+
+  it('unescapes text and keeps the London zone across BST', () => {
+    const oneOnOne = byTitle(events, '1:1 with Priya');
+    expect(oneOnOne.location).toBe("Café Nero, 12 King's Road\nLondon");
+    expect(starts(expandEvent(oneOnOne, utc('2025-03-01T00:00:00'), utc('2025-04-20T00:00:00')))).toEqual([
+      '2025-03-26T14:00:00.000Z',
+      '2025-04-09T13:00:00.000Z'
+    ]);
+  });
+
+  it('uses DURATION when there is no DTEND and stops after COUNT', () => {
+    const review = byTitle(events, 'Annual Review');
+    const occurrences = expandEvent(review, utc('2025-01-01T00:00:00'), utc('2031-01-01T00:00:00'));
+    expect(starts(occurrences)).toEqual(['2025-04-02T08:00:00.000Z', '2026-04-02T08:00:00.000Z', '2027-04-02T08:00:00.000Z']);
+    expect(occurrences[0].end! - occurrences[0].start!).toBe(45 * 60 * 1000);
+  });
+
+  it('expands BYMONTHDAY=-1 to the last day of each month', () => {
+    const expenses = byTitle(events, 'Submit expenses');
+    expect(expandEvent(expenses, utc('2025-03-01T00:00:00'), utc('2025-07-01T00:00:00')).map(e => e.date))
+      .toEqual(['2025-03-31', '2025-04-30', '2025-05-31', '2025-06-30']);
+  });
+});
+
+describe('expandEvent', () => {
+  // Reminders expand the schedule every second, so a window years after
+  // DTSTART must give the same answer as walking every period from the start
+  it('matches a full expansion when the window starts years after DTSTART', () => {
+    const events = [...fixture('google'), ...fixture('outlook'), ...fixture('icloud')].filter(e => e.rrule && e.rrule.count === undefined);
+    for (const event of events) {
+      for (const from of [utc('2025-10-18T00:00:00'), utc('2028-02-28T23:00:00')]) {
+        const to = from + 40 * 24 * 60 * 60 * 1000;
+        const expected = expandEvent(event, 0, to).filter(o => o.end! > from || o.start! >= from);
+        expect(starts(expandEvent(event, from, to))).toEqual(starts(expected));
+      }
+    }
+  });
+});
+
+describe('upgradeLegacyEvent', () => {
+  it('turns HH:mm weekday events into a weekly rule', () => {
+    const legacy: CalendarEvent = { id: 'old', title: 'Legacy', startTime: '09:30', endTime: '10:00', days: [2, 4] };
+    const upgraded = upgradeLegacyEvent(legacy);
+    expect(upgraded.rrule).toMatchObject({ freq: 'WEEKLY', byDay: [{ weekday: 2 }, { weekday: 4 }] });
+    expect(upgraded.end! - upgraded.start!).toBe(30 * 60 * 1000);
+  });
+});
@@ -0,0 +1,596 @@
+import { CalendarEvent, CalendarFeed, RecurrenceRule, RecurrenceWeekday, RecurrenceFrequency, Session } from '../types';
+import { recordCollectionChanges } from './changeLogService';
+import { FeedRelaySettings } from './feedRelayService';
+
+const SCHEDULE_KEY = 'transcribe_schedule';
+const FEEDS_KEY = 'calendar_feeds';
+export const FEED_REFRESH_MS = 30 * 60 * 1000;
+// A recording started a little early still belongs to the meeting
+const SESSION_LINK_GRACE_MS = 10 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Enough for a daily event authored a century ago; guards against rules that never match
+const MAX_RECURRENCE_PERIODS = 50000;
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+// Outlook exports Windows zone names instead of IANA ids
+const WINDOWS_TIME_ZONES: Record<string, string> = {
+  'Dateline Standard Time': 'Etc/GMT+12',
+  'Hawaiian Standard Time': 'Pacific/Honolulu',
+  'Alaskan Standard Time': 'America/Anchorage',
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'US Mountain Standard Time': 'America/Phoenix',
+  'Mountain Standard Time': 'America/Denver',
+  'Central Standard Time': 'America/Chicago',
+  'Eastern Standard Time': 'America/New_York',
+  'Atlantic Standard Time': 'America/Halifax',
+  'E. South America Standard Time': 'America/Sao_Paulo',
+  'UTC': 'UTC',
+  'GMT Standard Time': 'Europe/London',
+  'Greenwich Standard Time': 'Atlantic/Reykjavik',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Romance Standard Time': 'Europe/Paris',
+  'Central Europe Standard Time': 'Europe/Budapest',
+  'Central European Standard Time': 'Europe/Warsaw',
+  'E. Europe Standard Time': 'Europe/Chisinau',
+  'FLE Standard Time': 'Europe/Kiev',
+  'GTB Standard Time': 'Europe/Bucharest',
+  'Israel Standard Time': 'Asia/Jerusalem',
+  'Russian Standard Time': 'Europe/Moscow',
+  'Arabian Standard Time': 'Asia/Dubai',
+  'India Standard Time': 'Asia/Kolkata',
+  'SE Asia Standard Time': 'Asia/Bangkok',
+  'China Standard Time': 'Asia/Shanghai',
+  'Singapore Standard Time': 'Asia/Singapore',
+  'Tokyo Standard Time': 'Asia/Tokyo',
+  'Korea Standard Time': 'Asia/Seoul',
+  'AUS Eastern Standard Time': 'Australia/Sydney',
+  'New Zealand Standard Time': 'Pacific/Auckland'
+};
+
+// --- Civil (wall-clock) time ---------------------------------------------
+
+interface CivilDate {
+  year: number;
+  month: number;   // 1-12
+  day: number;
+}
+
+interface CivilTime extends CivilDate {
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone, hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/** Wall-clock time of an instant, in `timeZone` or the local zone when floating. */
+const civilAt = (epoch: number, timeZone?: string): CivilTime => {
+  if (!timeZone) {
+    const d = new Date(epoch);
+    return { year: d.getFullYear(), month: d.getMonth() + 1, day: d.getDate(), hour: d.getHours(), minute: d.getMinutes(), second: d.getSeconds() };
+  }
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(epoch)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute, second: parts.second };
+};
+
+const offsetAt = (epoch: number, timeZone: string) => {
+  const c = civilAt(epoch, timeZone);
+  return Date.UTC(c.year, c.month - 1, c.day, c.hour, c.minute, c.second) - Math.floor(epoch / 1000) * 1000;
+};
+
+/**
+ * Instant of a wall-clock time. The offset is re-checked at the result so times
+ * on either side of a DST change land correctly; a time skipped by spring-forward
+ * resolves to the later offset, like most calendar apps.
+ */
+const civilToEpoch = (c: CivilTime, timeZone?: string): number => {
+  if (!timeZone) return new Date(c.year, c.month - 1, c.day, c.hour, c.minute, c.second).getTime();
+  const asUtc = Date.UTC(c.year, c.month - 1, c.day, c.hour, c.minute, c.second);
+  const firstGuess = asUtc - offsetAt(asUtc, timeZone);
+  return asUtc - offsetAt(firstGuess, timeZone);
+};
+
+const addDays = (c: CivilDate, days: number): CivilDate => {
+  const d = new Date(Date.UTC(c.year, c.month - 1, c.day + days));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+};
+
+const weekdayOf = (c: CivilDate) => new Date(Date.UTC(c.year, c.month - 1, c.day)).getUTCDay();
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+const dayNumber = (c: CivilDate) => Date.UTC(c.year, c.month - 1, c.day) / DAY_MS;
+
+const isValidTimeZone = (timeZone: string) => {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** Maps a TZID to an IANA zone, or undefined to treat the time as floating. */
+export const resolveTimeZone = (tzid?: string): string | undefined => {
+  if (!tzid) return undefined;
+  const name = tzid.replace(/^"|"$/g, '').trim();
+  if (WINDOWS_TIME_ZONES[name]) return WINDOWS_TIME_ZONES[name];
+  if (isValidTimeZone(name)) return name;
+  // e.g. "/mozilla.org/20050126_1/America/New_York"
+  const segments = name.split('/');
+  for (let i = 1; i < segments.length; i++) {
+    const candidate = segments.slice(i).join('/');
+    if (isValidTimeZone(candidate)) return candidate;
+  }
+  return undefined;
+};
+
+// --- Recurrence expansion --------------------------------------------------
+
+const matchesWeekday = (rule: RecurrenceWeekday, date: CivilDate, monthLength: number) => {
+  if (weekdayOf(date) !== rule.weekday) return false;
+  if (!rule.ordinal) return true;
+  return rule.ordinal > 0
+    ? Math.ceil(date.day / 7) === rule.ordinal
+    : Math.ceil((monthLength - date.day + 1) / 7) === -rule.ordinal;
+};
+
+const matchesMonthDay = (monthDays: number[], date: CivilDate, monthLength: number) =>
+  monthDays.some(n => (n > 0 ? n : monthLength + n + 1) === date.day);
+
+const datesInMonth = (rule: RecurrenceRule, first: CivilDate, year: number, month: number): CivilDate[] => {
+  const length = daysInMonth(year, month);
+  if (!rule.byDay && !rule.byMonthDay) return first.day <= length ? [{ year, month, day: first.day }] : [];
+  const dates: CivilDate[] = [];
+  for (let day = 1; day <= length; day++) {
+    const date = { year, month, day };
+    if (rule.byMonthDay && !matchesMonthDay(rule.byMonthDay, date, length)) continue;
+    if (rule.byDay && !rule.byDay.some(w => matchesWeekday(w, date, length))) continue;
+    dates.push(date);
+  }
+  return dates;
+};
+
+/** Candidate dates of the nth period (day, week, month or year) of a rule. */
+const periodDates = (rule: RecurrenceRule, first: CivilDate, n: number): CivilDate[] => {
+  switch (rule.freq) {
+    case 'DAILY': {
+      const date = addDays(first, n * rule.interval);
+      const length = daysInMonth(date.year, date.month);
+      if (rule.byMonthDay && !matchesMonthDay(rule.byMonthDay, date, length)) return [];
+      if (rule.byDay && !rule.byDay.some(w => w.weekday === weekdayOf(date))) return [];
+      return [date];
+    }
+    case 'WEEKLY': {
+      const weekStart = addDays(first, n * 7 * rule.interval - ((weekdayOf(first) - rule.weekStart + 7) % 7));
+      const weekdays = rule.byDay ? rule.byDay.map(w => w.weekday) : [weekdayOf(first)];
+      return Array.from({ length: 7 }, (_, i) => addDays(weekStart, i)).filter(date => weekdays.includes(weekdayOf(date)));
+    }
+    case 'MONTHLY': {
+      const index = first.month - 1 + n * rule.interval;
+      return datesInMonth(rule, first, first.year + Math.floor(index / 12), (index % 12) + 1);
+    }
+    case 'YEARLY': {
+      const year = first.year + n * rule.interval;
+      return (rule.byMonth || [first.month]).flatMap(month => datesInMonth(rule, first, year, month));
+    }
+  }
+};
+
+// Longest a single period can be, in days, so skipping ahead never overshoots
+const MAX_PERIOD_DAYS: Record<RecurrenceFrequency, number> = { DAILY: 1, WEEKLY: 7, MONTHLY: 31, YEARLY: 366 };
+
+const occurrenceDates = (rule: RecurrenceRule, first: CivilDate, n: number): CivilDate[] => {
+  let dates = periodDates(rule, first, n).filter(date => rule.freq === 'YEARLY' || !rule.byMonth || rule.byMonth.includes(date.month));
+  dates.sort((a, b) => dayNumber(a) - dayNumber(b));
+  if (rule.bySetPos) {
+    const picked = rule.bySetPos.map(pos => dates[pos > 0 ? pos - 1 : dates.length + pos]).filter(Boolean);
+    dates = Array.from(new Set(picked)).sort((a, b) => dayNumber(a) - dayNumber(b));
+  }
+  return dates;
+};
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+/** A single occurrence carrying the legacy display fields in local time. */
+const toOccurrence = (event: CalendarEvent, start: number, end: number): CalendarEvent => {
+  const local = new Date(start);
+  const localEnd = new Date(end);
+  const { rrule, exdates, ...rest } = event;
+  return {
+    ...rest,
+    id: rrule ? `${event.id}@${start}` : event.id,
+    seriesId: rrule ? event.id : event.seriesId,
+    start,
+    end,
+    startTime: event.allDay ? '00:00' : `${pad(local.getHours())}:${pad(local.getMinutes())}`,
+    endTime: event.allDay ? '23:59' : `${pad(localEnd.getHours())}:${pad(localEnd.getMinutes())}`,
+    days: [local.getDay()],
+    date: `${local.getFullYear()}-${pad(local.getMonth() + 1)}-${pad(local.getDate())}`
+  };
+};
+
+/** Occurrences of one event that overlap [from, to). */
+export const expandEvent = (event: CalendarEvent, from: number, to: number): CalendarEvent[] => {
+  if (event.start === undefined) return [];
+  const end = event.end ?? event.start;
+  if (!event.rrule) return event.start < to && (end > from || event.start >= from) ? [toOccurrence(event, event.start, end)] : [];
+
+  const rule = event.rrule;
+  const first = civilAt(event.start, event.timeZone);
+  const firstDay = dayNumber(first);
+  // All-day spans recur in days so they stay whole across DST; timed ones keep their exact length
+  const spanDays = Math.round(dayNumber(civilAt(end, event.timeZone)) - firstDay);
+  const duration = end - event.start;
+  const excluded = new Set(event.exdates || []);
+  const occurrences: CalendarEvent[] = [];
+  let emitted = 0;
+
+  // Jump to the period holding the first occurrence that could still overlap
+  // `from`. COUNT has to be tallied from the first occurrence, so it can't skip.
+  let startPeriod = 0;
+  if (rule.count === undefined) {
+    const earliestDay = dayNumber(civilAt(from - Math.max(duration, spanDays * DAY_MS), event.timeZone)) - 1;
+    startPeriod = Math.max(0, Math.floor((earliestDay - firstDay) / (MAX_PERIOD_DAYS[rule.freq] * rule.interval)));
+  }
+
+  for (let n = startPeriod; n < startPeriod + MAX_RECURRENCE_PERIODS; n++) {
+    for (const date of occurrenceDates(rule, first, n)) {
+      if (dayNumber(date) < firstDay) continue;
+      const start = civilToEpoch({ ...date, hour: first.hour, minute: first.minute, second: first.second }, event.timeZone);
+      if (rule.until !== undefined && start > rule.until) return occurrences;
+      if (rule.count !== undefined && ++emitted > rule.count) return occurrences;
+      if (start >= to) return occurrences;
+      const occurrenceEnd = event.allDay
+        ? civilToEpoch({ ...addDays(date, spanDays), hour: 0, minute: 0, second: 0 }, event.timeZone)
+        : start + duration;
+      if ((occurrenceEnd > from || start >= from) && !excluded.has(start)) occurrences.push(toOccurrence(event, start, occurrenceEnd));
+    }
+  }
+  return occurrences;
+};
+
+/** Every occurrence overlapping [from, to), with per-occurrence overrides applied, sorted by start. */
+export const expandSchedule = (events: CalendarEvent[], from: number, to: number): CalendarEvent[] => {
+  const overridden = new Set(events.filter(e => e.recurrenceId !== undefined).map(e => `${e.uid}|${e.recurrenceId}`));
+  return events
+    .flatMap(event => expandEvent(event, from, to))
+    .filter(occurrence => !(occurrence.seriesId && occurrence.recurrenceId === undefined && overridden.has(`${occurrence.uid}|${occurrence.start}`)))
+    .sort((a, b) => a.start! - b.start!);
+};
+
+// --- ICS parsing -----------------------------------------------------------
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const parseProperty = (line: string): IcsProperty | null => {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) { colon = i; break; }
+  }
+  if (colon < 0) return null;
+  const [name, ...rawParams] = line.slice(0, colon).match(/(?:[^;"]|"[^"]*")+/g) || [];
+  if (!name) return null;
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf('=');
+    if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+const unescapeText = (value: string) =>
+  value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1').trim();
+
+interface ParsedDate {
+  epoch: number;
+  allDay: boolean;
+  timeZone?: string;
+}
+
+const parseDate = (value: string, params: Record<string, string>, defaultZone?: string): ParsedDate | null => {
+  const dateOnly = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (dateOnly || params.VALUE === 'DATE') {
+    if (!dateOnly) return null;
+    const [, y, m, d] = dateOnly.map(Number);
+    return { epoch: civilToEpoch({ year: y, month: m, day: d, hour: 0, minute: 0, second: 0 }), allDay: true };
+  }
+  const dateTime = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (!dateTime) return null;
+  const [y, m, d, h, mi, s] = dateTime.slice(1, 7).map(Number);
+  if (dateTime[7]) return { epoch: Date.UTC(y, m - 1, d, h, mi, s), allDay: false, timeZone: 'UTC' };
+  const timeZone = resolveTimeZone(params.TZID) || defaultZone;
+  return { epoch: civilToEpoch({ year: y, month: m, day: d, hour: h, minute: mi, second: s }, timeZone), allDay: false, timeZone };
+};
+
+const parseDuration = (value: string): number | null => {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, w, d, h, m, s] = match;
+  const ms = ((Number(w || 0) * 7 + Number(d || 0)) * 86400 + Number(h || 0) * 3600 + Number(m || 0) * 60 + Number(s || 0)) * 1000;
+  return sign === '-' ? -ms : ms;
+};
+
+const parseWeekday = (token: string): RecurrenceWeekday | null => {
+  const match = token.trim().match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/i);
+  if (!match) return null;
+  return { weekday: WEEKDAYS.indexOf(match[2].toUpperCase()), ...(match[1] ? { ordinal: Number(match[1]) } : {}) };
+};
+
+const numberList = (value?: string) => value ? value.split(',').map(Number).filter(n => Number.isInteger(n) && n !== 0) : undefined;
+
+const parseRecurrence = (value: string, start: ParsedDate): RecurrenceRule | null => {
+  const parts: Record<string, string> = {};
+  for (const pair of value.split(';')) {
+    const [key, val] = pair.split('=');
+    if (key && val) parts[key.toUpperCase()] = val.toUpperCase();
+  }
+  const freq = parts.FREQ as RecurrenceFrequency;
+  // Sub-daily frequencies don't occur in meeting calendars
+  if (!FREQUENCIES.includes(freq)) return null;
+
+  let until: number | undefined;
+  if (parts.UNTIL) {
+    const parsed = parseDate(parts.UNTIL, start.timeZone ? { TZID: start.timeZone } : {});
+    // A date-only UNTIL includes that whole day
+    if (parsed) until = parsed.allDay ? parsed.epoch + DAY_MS - 1 : parsed.epoch;
+  }
+  const byDay = parts.BYDAY?.split(',').map(parseWeekday).filter((w): w is RecurrenceWeekday => w !== null);
+
+  return {
+    freq,
+    interval: Math.max(1, Number(parts.INTERVAL) || 1),
+    ...(parts.COUNT ? { count: Number(parts.COUNT) } : {}),
+    ...(until !== undefined ? { until } : {}),
+    ...(byDay?.length ? { byDay } : {}),
+    ...(numberList(parts.BYMONTHDAY) ? { byMonthDay: numberList(parts.BYMONTHDAY) } : {}),
+    ...(numberList(parts.BYMONTH) ? { byMonth: numberList(parts.BYMONTH) } : {}),
+    ...(numberList(parts.BYSETPOS) ? { bySetPos: numberList(parts.BYSETPOS) } : {}),
+    weekStart: parts.WKST ? Math.max(0, WEEKDAYS.indexOf(parts.WKST)) : 1
+  };
+};
+
+const attendeeName = (property: IcsProperty) =>
+  property.params.CN || property.value.replace(/^mailto:/i, '');
+
+/**
+ * Parses VEVENTs from an iCalendar file, keeping recurrence rules, exceptions
+ * and time zones so occurrences can be computed later with `expandSchedule`.
+ */
+export const parseICS = (text: string): CalendarEvent[] => {
+  const lines = text.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const events: CalendarEvent[] = [];
+  const cancelled: { uid: string; recurrenceId: number }[] = [];
+  const components: string[] = [];
+  let calendarZone: string | undefined;
+  let props: IcsProperty[] = [];
+
+  for (const line of lines) {
+    const property = parseProperty(line.trim());
+    if (!property) continue;
+
+    if (property.name === 'BEGIN') {
+      components.push(property.value.toUpperCase());
+      if (property.value.toUpperCase() === 'VEVENT') props = [];
+      continue;
+    }
+    if (property.name === 'END') {
+      const ended = components.pop();
+      if (ended !== 'VEVENT') continue;
+
+      const get = (name: string) => props.find(p => p.name === name);
+      const dtstart = get('DTSTART');
+      const start = dtstart && parseDate(dtstart.value, dtstart.params, calendarZone);
+      if (!start) continue;
+
+      const uid = get('UID')?.value;
+      const recurrenceIdProp = get('RECURRENCE-ID');
+      const recurrenceId = recurrenceIdProp ? parseDate(recurrenceIdProp.value, recurrenceIdProp.params, calendarZone)?.epoch : undefined;
+
+      if (get('STATUS')?.value.toUpperCase() === 'CANCELLED') {
+        if (uid && recurrenceId !== undefined) cancelled.push({ uid, recurrenceId });
+        continue;
+      }
+
+      const dtend = get('DTEND');
+      const duration = get('DURATION');
+      let end = dtend ? parseDate(dtend.value, dtend.params, calendarZone)?.epoch : undefined;
+      if (end === undefined && duration) {
+        const ms = parseDuration(duration.value);
+        if (ms !== null) end = start.epoch + ms;
+      }
+      if (end === undefined || end < start.epoch) end = start.allDay ? start.epoch + DAY_MS : start.epoch;
+
+      const rruleProp = get('RRULE');
+      const rrule = rruleProp && recurrenceId === undefined ? parseRecurrence(rruleProp.value, start) : null;
+      const exdates = props
+        .filter(p => p.name === 'EXDATE')
+        .flatMap(p => p.value.split(',').map(v => parseDate(v.trim(), p.params, calendarZone)?.epoch))
+        .filter((epoch): epoch is number => epoch !== undefined);
+      const attendees = props.filter(p => p.name === 'ATTENDEE').map(attendeeName).filter(Boolean);
+      const location = get('LOCATION') ? unescapeText(get('LOCATION')!.value) : '';
+
+      const event: CalendarEvent = {
+        id: `${uid || `ics-${events.length}`}${recurrenceId !== undefined ? `@${recurrenceId}` : ''}`,
+        uid,
+        title: get('SUMMARY') ? unescapeText(get('SUMMARY')!.value) || 'Untitled event' : 'Untitled event',
+        startTime: '',
+        endTime: '',
+        days: [],
+        start: start.epoch,
+        end,
+        allDay: start.allDay,
+        ...(start.timeZone ? { timeZone: start.timeZone } : {}),
+        ...(location ? { location } : {}),
+        ...(rrule ? { rrule } : {}),
+        ...(exdates.length ? { exdates } : {}),
+        ...(recurrenceId !== undefined ? { recurrenceId } : {}),
+        ...(attendees.length ? { attendees } : {})
+      };
+      events.push(withDisplayFields(event));
+      continue;
+    }
+
+    const current = components[components.length - 1];
+    if (current === 'VCALENDAR' && property.name === 'X-WR-TIMEZONE') calendarZone = resolveTimeZone(property.value);
+    // Alarms nest inside events and have their own DESCRIPTION/SUMMARY
+    else if (current === 'VEVENT') props.push(property);
+  }
+
+  for (const { uid, recurrenceId } of cancelled) {
+    const series = events.find(e => e.uid === uid && e.rrule);
+    if (series) series.exdates = [...(series.exdates || []), recurrenceId];
+  }
+  return events;
+};
+
+// --- Schedule storage and queries -----------------------------------------
+
+/** Fills startTime/endTime/days/date from the event's first occurrence. */
+const withDisplayFields = (event: CalendarEvent): CalendarEvent => {
+  const occurrence = toOccurrence(event, event.start!, event.end ?? event.start!);
+  return {
+    ...event,
+    startTime: occurrence.startTime,
+    endTime: occurrence.endTime,
+    days: event.rrule?.byDay && event.rrule.freq === 'WEEKLY' ? event.rrule.byDay.map(w => w.weekday) : occurrence.days,
+    date: occurrence.date
+  };
+};
+
+// Events saved before recurrence support only had HH:mm times and weekdays
+export const upgradeLegacyEvent = (event: CalendarEvent): CalendarEvent => {
+  if (event.start !== undefined) return event;
+  const [sh, sm] = event.startTime.split(':').map(Number);
+  const [eh, em] = event.endTime.split(':').map(Number);
+  const anchor = event.date ? new Date(`${event.date}T00:00:00`) : new Date();
+  const start = new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate(), sh || 0, sm || 0).getTime();
+  let end = new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate(), eh || 0, em || 0).getTime();
+  if (end < start) end += DAY_MS;
+  if (event.date || event.days.length === 0) return { ...event, start, end };
+  const rrule: RecurrenceRule = { freq: 'WEEKLY', interval: 1, byDay: event.days.map(weekday => ({ weekday })), weekStart: 1 };
+  return { ...event, start, end, rrule };
+};
+
+export const getStoredSchedule = (): CalendarEvent[] => {
+  const stored: CalendarEvent[] = JSON.parse(localStorage.getItem(SCHEDULE_KEY) || '[]');
+  return stored.map(upgradeLegacyEvent);
+};
+
+// Feed events are refilled by their feed, so only hand-made ones are tracked
+const manualEventIds = (events: CalendarEvent[]) => events.filter(e => !e.feedId).map(e => e.id);
+
+export const saveSchedule = (events: CalendarEvent[]) => {
+  recordCollectionChanges('schedule', manualEventIds(getStoredSchedule()), manualEventIds(events));
+  localStorage.setItem(SCHEDULE_KEY, JSON.stringify(events));
+};
+
+const endOfDay = (now: number) => {
+  const d = new Date(now);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1).getTime();
+};
+
+/** Occurrences still running or yet to start, up to `until` (the end of today by default). */
+export const filterUpcomingEvents = (events: CalendarEvent[], now = Date.now(), until = endOfDay(now)): CalendarEvent[] =>
+  expandSchedule(events, now, until);
+
+/** The timed occurrence in progress right now, if any. All-day events never count as a meeting. */
+export const findActiveEvent = (events: CalendarEvent[], now = Date.now()): CalendarEvent | undefined =>
+  expandSchedule(events, now, now + 1).find(event => !event.allDay && event.start! <= now && (event.end ?? 0) > now);
+
+/** Sessions recorded for an occurrence, or for older sessions, those that started during it. */
+export const sessionsForEvent = (event: CalendarEvent, sessions: Session[]): Session[] => {
+  if (event.start === undefined || event.allDay) return [];
+  const end = Math.max(event.end ?? event.start, event.start + 1);
+  return sessions.filter(s => s.eventId
+    ? s.eventId === event.id
+    : s.timestamp >= event.start! - SESSION_LINK_GRACE_MS && s.timestamp < end);
+};
+
+// --- Subscribed feeds ------------------------------------------------------
+
+export const getFeeds = (): CalendarFeed[] => JSON.parse(localStorage.getItem(FEEDS_KEY) || '[]');
+
+export const saveFeeds = (feeds: CalendarFeed[]) => {
+  recordCollectionChanges('feeds', getFeeds().map(f => f.url), feeds.map(f => f.url));
+  localStorage.setItem(FEEDS_KEY, JSON.stringify(feeds));
+};
+
+/** Fetches a feed through the relay, which takes the calendar address as `?url=`. */
+export const fetchFeed = async (feed: CalendarFeed, relay: FeedRelaySettings): Promise<CalendarEvent[]> => {
+  let response: Response;
+  try {
+    response = await fetch(`${relay.endpoint}?url=${encodeURIComponent(feed.url.replace(/^webcal:/i, 'https:'))}`, {
+      headers: relay.token ? { Authorization: `Bearer ${relay.token}` } : {}
+    });
+  } catch {
+    // A direct address or a relay without CORS fails the same way as a stopped one
+    throw new Error(`The feed relay at ${relay.endpoint} can't be reached. Start it with npm run proxy, or change the relay below.`);
+  }
+  if (response.status === 401) throw new Error("The feed relay turned down the token. Enter the proxy token below.");
+  if (!response.ok) throw new Error(`Feed request failed (${response.status}).`);
+  return parseICS(await response.text()).map(event => ({
+    ...event,
+    id: `${feed.id}:${event.id}`,
+    isExternal: true,
+    feedId: feed.id
+  }));
+};
+
+/** Swaps in a feed's latest events. Events imported by hand win over feed copies with the same UID. */
+export const mergeFeedEvents = (schedule: CalendarEvent[], feedId: string, feedEvents: CalendarEvent[]): CalendarEvent[] => {
+  const manualUids = new Set(schedule.filter(e => !e.isExternal && e.uid).map(e => e.uid));
+  return [
+    ...schedule.filter(e => e.feedId !== feedId),
+    ...feedEvents.filter(e => !e.uid || !manualUids.has(e.uid))
+  ];
+};
+
+/** Replaces hand-imported events while keeping everything that came from feeds. */
+export const replaceManualEvents = (schedule: CalendarEvent[], imported: CalendarEvent[]): CalendarEvent[] => {
+  const importedUids = new Set(imported.filter(e => e.uid).map(e => e.uid));
+  return [
+    ...imported,
+    ...schedule.filter(e => e.isExternal && (!e.uid || !importedUids.has(e.uid)))
+  ];
+};
+
+/** Refreshes every feed; a failing feed keeps its previous events and records the error. */
+export const syncFeeds = async (
+  feeds: CalendarFeed[],
+  schedule: CalendarEvent[],
+  relay: FeedRelaySettings
+): Promise<{ feeds: CalendarFeed[]; schedule: CalendarEvent[] }> => {
+  let merged = schedule;
+  const synced: CalendarFeed[] = [];
+  for (const feed of feeds) {
+    try {
+      merged = mergeFeedEvents(merged, feed.id, await fetchFeed(feed, relay));
+      synced.push({ ...feed, lastSyncedAt: Date.now(), lastError: undefined });
+    } catch (err: any) {
+      synced.push({ ...feed, lastError: err.message || 'Feed could not be loaded.' });
+    }
+  }
+  return { feeds: synced, schedule: merged };
+};
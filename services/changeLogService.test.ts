@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getChangeLog, mergeCollection, recordCollectionChanges } from './changeLogService';
+
+interface Folder {
+  id: string;
+}
+
+const folders = (...ids: string[]): Folder[] => ids.map(id => ({ id }));
+
+const merge = (local: Folder[], incoming: Folder[], remoteLog = {}, restore = false) => {
+  let saved: Folder[] = [];
+  mergeCollection('folders', { local, incoming, keyOf: f => f.id, save: items => { saved = items; } }, remoteLog, { restore });
+  return saved.map(f => f.id);
+};
+
+beforeEach(() => {
+  const store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => { store.set(key, value); }
+  });
+});
+
+describe('mergeCollection', () => {
+  it('keeps an entry deleted here out of the merge', () => {
+    recordCollectionChanges('folders', ['a', 'b'], ['a']);
+    expect(merge(folders('a'), folders('a', 'b'))).toEqual(['a']);
+  });
+
+  it('applies a deletion made on the other side', () => {
+    expect(merge(folders('a', 'b'), folders('a'), { folders: { b: { deleted: true, at: Date.now() } } })).toEqual(['a']);
+    expect(getChangeLog().folders?.b.deleted).toBe(true);
+  });
+
+  it('lets an entry added back after the deletion win', () => {
+    recordCollectionChanges('folders', [], ['b']);
+    const remote = { folders: { b: { deleted: true, at: 1 } } };
+    recordCollectionChanges('folders', ['b'], []);
+    recordCollectionChanges('folders', [], ['b']);
+    expect(merge(folders('b'), [], remote)).toEqual(['b']);
+  });
+
+  it('brings deleted entries back when restoring a backup', () => {
+    recordCollectionChanges('folders', ['a', 'b'], ['a']);
+    expect(merge(folders('a'), folders('a', 'b'), {}, true)).toEqual(['a', 'b']);
+    expect(getChangeLog().folders?.b.deleted).toBe(false);
+  });
+});
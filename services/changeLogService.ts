@@ -0,0 +1,84 @@
+// Folders, templates, rules, vocabulary, feeds and hand-made events are kept in
+// localStorage as whole lists. Each save notes which entries disappeared or came
+// back, so a merge can tell "deleted here" from "not seen here yet".
+
+export type SyncedCollection = 'schedule' | 'feeds' | 'folders' | 'templates' | 'vocabulary' | 'rules';
+
+export interface CollectionChange {
+  deleted: boolean;
+  at: number;
+}
+
+export type ChangeLog = Partial<Record<SyncedCollection, Record<string, CollectionChange>>>;
+
+const CHANGE_LOG_KEY = 'collection_changes';
+
+export const getChangeLog = (): ChangeLog => JSON.parse(localStorage.getItem(CHANGE_LOG_KEY) || '{}');
+
+const saveCollectionLog = (collection: SyncedCollection, entries: Record<string, CollectionChange>) => {
+  localStorage.setItem(CHANGE_LOG_KEY, JSON.stringify({ ...getChangeLog(), [collection]: entries }));
+};
+
+/** Call with the keys a list held before and after a save. */
+export const recordCollectionChanges = (collection: SyncedCollection, before: string[], after: string[]) => {
+  const entries = { ...getChangeLog()[collection] };
+  const kept = new Set(after);
+  const had = new Set(before);
+  const now = Date.now();
+  let changed = false;
+  before.filter(key => !kept.has(key)).forEach(key => {
+    entries[key] = { deleted: true, at: now };
+    changed = true;
+  });
+  // Only worth noting when it undoes a deletion another device may still hold
+  after.filter(key => !had.has(key) && entries[key]?.deleted).forEach(key => {
+    entries[key] = { deleted: false, at: now };
+    changed = true;
+  });
+  if (changed) saveCollectionLog(collection, entries);
+};
+
+interface CollectionMerge<T> {
+  local: T[];
+  incoming: T[];
+  keyOf: (item: T) => string;
+  save: (items: T[]) => void;
+}
+
+/**
+ * Merges an archived list into the local one. For each entry the newest
+ * deletion or re-addition on either side wins. With `restore`, everything in
+ * the archive comes back, including entries deleted here since.
+ */
+export const mergeCollection = <T>(
+  collection: SyncedCollection,
+  { local, incoming, keyOf, save }: CollectionMerge<T>,
+  remoteLog: ChangeLog = {},
+  { restore = false }: { restore?: boolean } = {}
+) => {
+  const entries = { ...getChangeLog()[collection] };
+  Object.entries(remoteLog[collection] || {}).forEach(([key, change]) => {
+    if (!entries[key] || entries[key].at < change.at) entries[key] = change;
+  });
+  if (restore) {
+    const now = Date.now();
+    incoming.forEach(item => {
+      if (entries[keyOf(item)]?.deleted) entries[keyOf(item)] = { deleted: false, at: now };
+    });
+  }
+
+  const localKeys = new Set(local.map(keyOf));
+  const isDeleted = (item: T) => entries[keyOf(item)]?.deleted === true;
+  const added = incoming.filter(item => !localKeys.has(keyOf(item)) && !isDeleted(item));
+  const seen = new Set<string>();
+  const items = [...local.filter(item => !isDeleted(item)), ...added].filter(item => {
+    const key = keyOf(item);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  save(items);
+  // The save noted its own changes with the current time; the merged history replaces them
+  saveCollectionLog(collection, entries);
+};
@@ -0,0 +1,67 @@
+import { ChatCitation, ChatMessage, Session } from '../types';
+import { speakerName } from './diarizationService';
+import { searchSegments } from './searchService';
+import { getLlmClient } from './llmClient';
+
+const HISTORY_TURNS = 6;
+const LIBRARY_CONTEXT_SEGMENTS = 24;
+
+interface ContextLine {
+  sessionId: string;
+  segmentId: string;
+  label: string;
+  text: string;
+}
+
+const ANSWER_SCHEMA = {
+  type: 'object',
+  properties: {
+    answer: { type: 'string' },
+    citations: { type: 'array', items: { type: 'string' }, description: 'Ids of the lines the answer relies on' }
+  },
+  required: ['answer', 'citations']
+};
+
+const offsetLabel = (session: Session, timestamp: number) => {
+  const seconds = Math.max(0, Math.round((timestamp - session.timestamp) / 1000));
+  return `${Math.floor(seconds / 60).toString().padStart(2, '0')}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+const ask = async (question: string, history: ChatMessage[], lines: ContextLine[], scope: string): Promise<ChatMessage> => {
+  // Short ids keep the prompt small and are easy for the model to cite
+  const byRef = new Map(lines.map((line, i) => [`L${i + 1}`, line]));
+  const context = Array.from(byRef.entries()).map(([ref, line]) => `[${ref}] (${line.label}) ${line.text}`).join('\n');
+  const conversation = history.slice(-HISTORY_TURNS).map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.text}`).join('\n');
+
+  const reply = await getLlmClient().generateJson<{ answer: string; citations: string[] }>(
+    `You answer questions about ${scope} using only the numbered transcript lines below. If the lines do not contain the answer, say so plainly. Cite the ids of every line you relied on.\n\nTranscript lines:\n${context || '(no matching lines)'}\n\n${conversation ? `Conversation so far:\n${conversation}\n\n` : ''}Question: ${question}`,
+    ANSWER_SCHEMA
+  );
+
+  const citations: ChatCitation[] = Array.from(new Set(reply?.citations || []))
+    .map(ref => byRef.get(ref.replace(/[\[\]]/g, '')))
+    .filter((line): line is ContextLine => Boolean(line))
+    .map(({ sessionId, segmentId, label }) => ({ sessionId, segmentId, label }));
+
+  return { id: `msg-${Date.now()}`, role: 'assistant', text: reply?.answer || "I couldn't produce an answer.", citations };
+};
+
+export const askSession = (session: Session, question: string, history: ChatMessage[]): Promise<ChatMessage> =>
+  ask(question, history, session.segments.map(segment => ({
+    sessionId: session.id,
+    segmentId: segment.id,
+    label: `${speakerName(segment.speaker, session.speakerNames)} ${offsetLabel(session, segment.timestamp)}`,
+    text: segment.text
+  })), `the meeting "${session.title}"`);
+
+/** Retrieves the most relevant segments across the library before asking. */
+export const askLibrary = (question: string, history: ChatMessage[]): Promise<ChatMessage> => {
+  const retrievalQuery = [...history.filter(m => m.role === 'user').slice(-2).map(m => m.text), question].join(' ');
+  const lines = searchSegments(retrievalQuery, LIBRARY_CONTEXT_SEGMENTS).map(match => ({
+    sessionId: match.sessionId,
+    segmentId: match.segmentId,
+    label: match.sessionTitle,
+    text: match.text
+  }));
+  return ask(question, history, lines, 'a library of recorded meetings');
+};
@@ -0,0 +1,281 @@
+import { PauseInterval } from '../types';
+
+// Rolling capture for live sessions. Instead of one MediaRecorder buffering the
+// whole meeting, short overlapping recorders run back to back on the same stream
+// so every chunk is a standalone, decodable file small enough for Whisper.
+
+export const CHUNK_INTERVAL_MS = 30_000;
+export const CHUNK_OVERLAP_MS = 2_000;
+
+export interface AudioChunk {
+  index: number;
+  blob: Blob;
+  offsetMs: number;   // recorded (un-paused) ms since the recording started
+  durationMs: number;
+}
+
+export interface ChunkedRecorder {
+  pause: () => void;
+  resume: () => void;
+  stop: () => Promise<Blob | null>;  // resolves with the full, continuous recording
+}
+
+interface ChunkOptions {
+  chunkMs?: number;
+  overlapMs?: number;
+}
+
+interface ActiveRecorder {
+  recorder: MediaRecorder;
+  index: number;
+  startedAt: number;  // on the recorded clock
+  discard: boolean;
+}
+
+export const startChunkedRecorder = (
+  stream: MediaStream,
+  onChunk: (chunk: AudioChunk) => void,
+  { chunkMs = CHUNK_INTERVAL_MS, overlapMs = CHUNK_OVERLAP_MS }: ChunkOptions = {}
+): ChunkedRecorder => {
+  const pending = new Set<Promise<void>>();
+  const active: ActiveRecorder[] = [];
+  let index = 0;
+  let stopped = false;
+  let paused = false;
+  let timer: number | undefined;
+
+  // Rotation runs on recorded time, so a pause freezes chunk boundaries instead
+  // of cutting a chunk short while nothing is being captured.
+  let recordedMs = 0;
+  let resumedAt = Date.now();
+  const clock = () => paused ? recordedMs : recordedMs + (Date.now() - resumedAt);
+
+  const spawn = () => {
+    const recorder = new MediaRecorder(stream);
+    const parts: Blob[] = [];
+    const entry: ActiveRecorder = { recorder, index: index++, startedAt: clock(), discard: false };
+    active.push(entry);
+
+    const done = new Promise<void>(resolve => {
+      recorder.ondataavailable = (e) => { if (e.data.size > 0) parts.push(e.data); };
+      recorder.onstop = () => {
+        if (!entry.discard && parts.length > 0) {
+          onChunk({
+            index: entry.index,
+            blob: new Blob(parts, { type: recorder.mimeType || 'audio/webm' }),
+            offsetMs: entry.startedAt,
+            durationMs: clock() - entry.startedAt
+          });
+        }
+        resolve();
+      };
+    });
+    pending.add(done);
+    done.then(() => pending.delete(done));
+    recorder.start();
+  };
+
+  const finish = (entry: ActiveRecorder) => {
+    active.splice(active.indexOf(entry), 1);
+    if (entry.recorder.state !== 'inactive') entry.recorder.stop();
+  };
+
+  const schedule = () => {
+    window.clearTimeout(timer);
+    if (stopped || paused) return;
+    const now = clock();
+    const oldest = active[0];
+    const newest = active[active.length - 1];
+    if (oldest && now - oldest.startedAt >= chunkMs) finish(oldest);
+    if (!newest || now - newest.startedAt >= chunkMs - overlapMs) spawn();
+
+    const nextSpawn = active[active.length - 1].startedAt + chunkMs - overlapMs;
+    const nextStop = active[0].startedAt + chunkMs;
+    timer = window.setTimeout(schedule, Math.max(0, Math.min(nextSpawn, nextStop) - now));
+  };
+
+  // Alongside the rotating chunks, one recorder keeps the whole session as a
+  // single file for playback.
+  const master = new MediaRecorder(stream);
+  const masterParts: Blob[] = [];
+  const masterDone = new Promise<Blob | null>(resolve => {
+    master.ondataavailable = (e) => { if (e.data.size > 0) masterParts.push(e.data); };
+    master.onstop = () => resolve(masterParts.length > 0 ? new Blob(masterParts, { type: master.mimeType || 'audio/webm' }) : null);
+  });
+  master.start();
+  schedule();
+
+  return {
+    pause: () => {
+      if (stopped || paused) return;
+      recordedMs = clock();
+      paused = true;
+      window.clearTimeout(timer);
+      [master, ...active.map(a => a.recorder)].forEach(recorder => { if (recorder.state === 'recording') recorder.pause(); });
+    },
+    resume: () => {
+      if (stopped || !paused) return;
+      paused = false;
+      resumedAt = Date.now();
+      [master, ...active.map(a => a.recorder)].forEach(recorder => { if (recorder.state === 'paused') recorder.resume(); });
+      schedule();
+    },
+    stop: async () => {
+      if (stopped) return masterDone;
+      const now = clock();
+      stopped = true;
+      window.clearTimeout(timer);
+      // A recorder that only started inside the overlap window holds nothing the
+      // previous one didn't already capture.
+      const newest = active[active.length - 1];
+      if (newest && active.length > 1 && now - newest.startedAt < overlapMs) {
+        newest.discard = true;
+      }
+      [...active].forEach(finish);
+      if (master.state !== 'inactive') master.stop();
+      await Promise.all(pending);
+      return masterDone;
+    }
+  };
+};
+
+/**
+ * Maps an offset on the recorded timeline onto wall-clock time by pushing it
+ * past every pause that began before that point.
+ */
+export const recordedOffsetToTimestamp = (startedAt: number, pauses: PauseInterval[], offsetMs: number): number => {
+  let timestamp = startedAt + offsetMs;
+  for (const pause of [...pauses].sort((a, b) => a.start - b.start)) {
+    if (pause.start > timestamp) break;
+    timestamp += (pause.end ?? Date.now()) - pause.start;
+  }
+  return timestamp;
+};
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+
+/** How many words at the start of `next` repeat the end of `previous`. */
+export const countBoundaryOverlap = (previous: string, next: string, maxWords = 40): number => {
+  const prevWords = previous.trim().split(/\s+/).map(normalizeWord).filter(Boolean);
+  const nextWords = next.trim().split(/\s+/).filter(Boolean).map(normalizeWord);
+  const limit = Math.min(maxWords, prevWords.length, nextWords.length);
+
+  for (let size = limit; size > 0; size--) {
+    const tail = prevWords.slice(prevWords.length - size);
+    if (tail.every((word, i) => word === nextWords[i])) return size;
+  }
+  return 0;
+};
+
+/**
+ * Drops the leading words of `next` that repeat the tail of `previous`, which
+ * happens whenever both chunks heard the same overlap window.
+ */
+export const dedupeChunkBoundary = (previous: string, next: string, maxWords = 40): string =>
+  next.trim().split(/\s+/).filter(Boolean).slice(countBoundaryOverlap(previous, next, maxWords)).join(' ');
+
+// Groq rejects uploads above 25 MB; anything larger is decoded and re-encoded as
+// 16 kHz mono WAV pieces, which Whisper resamples to anyway.
+export const WHISPER_MAX_BYTES = 25 * 1024 * 1024;
+const SPLIT_SAMPLE_RATE = 16_000;
+const SPLIT_CHUNK_SECONDS = 10 * 60;
+// Decoding holds every sample of the file in memory as 32-bit floats. Decoding
+// straight to 16 kHz keeps that near 460 MB for two hours of stereo; longer
+// files are refused rather than risk crashing the tab.
+const MAX_DECODED_BYTES = 512 * 1024 * 1024;
+const ASSUMED_CHANNELS = 2;
+// Used to estimate the length when the file has no duration in its metadata
+const MIN_EXPECTED_BITRATE = 32_000;
+
+const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);            // PCM
+  view.setUint16(22, 1, true);            // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+const mixDown = (decoded: AudioBuffer): Float32Array => {
+  if (decoded.numberOfChannels === 1) return decoded.getChannelData(0);
+  const mixed = new Float32Array(decoded.length);
+  for (let channel = 0; channel < decoded.numberOfChannels; channel++) {
+    const data = decoded.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) mixed[i] += data[i] / decoded.numberOfChannels;
+  }
+  return mixed;
+};
+
+/**
+ * Returns the file as a single chunk when it fits the upload limit, otherwise
+ * decodes it and cuts it into overlapping, time-offset WAV chunks.
+ */
+export const splitAudioFile = async (file: Blob, overlapMs = CHUNK_OVERLAP_MS): Promise<AudioChunk[]> => {
+  if (file.size <= WHISPER_MAX_BYTES) {
+    return [{ index: 0, blob: file, offsetMs: 0, durationMs: 0 }];
+  }
+
+  const seconds = (await readMediaDuration(file)) ?? file.size * 8 / MIN_EXPECTED_BITRATE;
+  if (seconds * SPLIT_SAMPLE_RATE * ASSUMED_CHANNELS * 4 > MAX_DECODED_BYTES) {
+    const maxMinutes = Math.floor(MAX_DECODED_BYTES / (SPLIT_SAMPLE_RATE * ASSUMED_CHANNELS * 4) / 60);
+    throw new Error(`This file is too long to split in the browser (the limit is about ${maxMinutes} minutes). Split it into shorter parts and import those.`);
+  }
+
+  // The context's sample rate is the rate decodeAudioData resamples to
+  const decoder = new AudioContext({ sampleRate: SPLIT_SAMPLE_RATE });
+  let decoded: AudioBuffer;
+  try {
+    decoded = await decoder.decodeAudioData(await file.arrayBuffer());
+  } finally {
+    decoder.close();
+  }
+  const samples = mixDown(decoded);
+
+  const chunkSamples = SPLIT_CHUNK_SECONDS * SPLIT_SAMPLE_RATE;
+  const overlapSamples = Math.round(overlapMs / 1000 * SPLIT_SAMPLE_RATE);
+  const chunks: AudioChunk[] = [];
+  for (let start = 0; start < samples.length; start += chunkSamples - overlapSamples) {
+    const end = Math.min(start + chunkSamples, samples.length);
+    chunks.push({
+      index: chunks.length,
+      blob: encodeWav(samples.subarray(start, end), SPLIT_SAMPLE_RATE),
+      offsetMs: Math.round(start / SPLIT_SAMPLE_RATE * 1000),
+      durationMs: Math.round((end - start) / SPLIT_SAMPLE_RATE * 1000)
+    });
+    if (end === samples.length) break;
+  }
+  return chunks;
+};
+
+/** Reads the duration (in seconds) from the media element's metadata. */
+export const readMediaDuration = (file: Blob): Promise<number | undefined> => new Promise(resolve => {
+  const url = URL.createObjectURL(file);
+  const media = document.createElement(file.type.startsWith('video/') ? 'video' : 'audio');
+  const finish = (duration?: number) => {
+    URL.revokeObjectURL(url);
+    resolve(duration !== undefined && Number.isFinite(duration) ? Math.round(duration) : undefined);
+  };
+  media.preload = 'metadata';
+  media.onloadedmetadata = () => finish(media.duration);
+  media.onerror = () => finish();
+  media.src = url;
+});
@@ -0,0 +1,88 @@
+// Shared IndexedDB handle for everything too large or too numerous for
+// localStorage. Bump DB_VERSION and extend `upgrade` when adding stores.
+
+const DB_NAME = 'transcribeai_pro';
+const DB_VERSION = 3;
+
+export const STORES = {
+  sessions: 'sessions',
+  recordings: 'recordings',
+  actionItems: 'actionItems',
+  jobs: 'jobs',
+  jobAudio: 'jobAudio'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+const upgrade = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains(STORES.sessions)) {
+    const sessions = db.createObjectStore(STORES.sessions, { keyPath: 'id' });
+    sessions.createIndex('timestamp', 'timestamp');
+    sessions.createIndex('title', 'title');
+  }
+  if (!db.objectStoreNames.contains(STORES.recordings)) {
+    db.createObjectStore(STORES.recordings);
+  }
+  if (!db.objectStoreNames.contains(STORES.actionItems)) {
+    const items = db.createObjectStore(STORES.actionItems, { keyPath: 'id' });
+    items.createIndex('sessionId', 'sessionId');
+    items.createIndex('status', 'status');
+  }
+  if (!db.objectStoreNames.contains(STORES.jobs)) {
+    db.createObjectStore(STORES.jobs, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(STORES.jobAudio)) {
+    db.createObjectStore(STORES.jobAudio);
+  }
+};
+
+let connection: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!connection) {
+    connection = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        connection = null;
+        reject(request.error);
+      };
+    });
+  }
+  return connection;
+};
+
+/** Runs one request in its own transaction and resolves once it has committed. */
+export const withStore = async <T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(name, mode);
+    const request = run(tx.objectStore(name));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+/** Runs several writes in one transaction; resolves once all have committed. */
+export const runTransaction = async (
+  name: StoreName,
+  run: (store: IDBObjectStore) => void
+): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(name, 'readwrite');
+    run(tx.objectStore(name));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const isQuotaError = (err: unknown): boolean =>
+  err instanceof DOMException && (err.name === 'QuotaExceededError' || err.name === 'NS_ERROR_DOM_QUOTA_REACHED');
@@ -0,0 +1,136 @@
+import { TranscriptionSegment, WordTiming } from '../types';
+import { VerboseTranscription, WhisperSegment } from './whisperService';
+import { countBoundaryOverlap, dedupeChunkBoundary } from './chunkingService';
+import { getLlmClient, llmSetupProblem } from './llmClient';
+
+export const DEFAULT_SPEAKER = 'Speaker 1';
+const HISTORY_LINES = 12;
+
+/**
+ * Asks the model to attribute each Whisper segment to a speaker. Recent, already
+ * labelled lines are included so labels stay stable from one chunk to the next.
+ * Without a model set up every line keeps the last speaker; callers report that
+ * through `llmSetupProblem` rather than per chunk.
+ */
+export const diarizeSegments = async (
+  segments: WhisperSegment[],
+  history: TranscriptionSegment[]
+): Promise<string[]> => {
+  if (segments.length === 0) return [];
+  const lastSpeaker = history[history.length - 1]?.speaker || DEFAULT_SPEAKER;
+  if (llmSetupProblem()) return segments.map(() => lastSpeaker);
+  try {
+    const context = history.slice(-HISTORY_LINES).map(s => `${s.speaker}: ${s.text}`).join('\n');
+    const lines = segments.map((s, i) => `[${i}] ${s.text}`).join('\n');
+
+    const labels = await getLlmClient().generateJson<string[]>(
+      `You are diarizing a meeting transcript. Assign every numbered line below to a speaker labelled "Speaker 1", "Speaker 2", and so on. Reuse the labels from the earlier conversation when the same person keeps talking, and only introduce a new label for a clearly different voice.\n\nEarlier conversation:\n${context || '(none)'}\n\nLines:\n${lines}`,
+      { type: 'array', items: { type: 'string' }, description: 'One speaker label per line, in order.' }
+    ) || [];
+    return segments.map((_, i) => labels[i]?.trim() || lastSpeaker);
+  } catch (err) {
+    console.error(err);
+    // Fall back to a single voice rather than losing the transcript
+    return segments.map(() => lastSpeaker);
+  }
+};
+
+interface SegmentOptions {
+  previousText: string;                          // raw text of the chunk before this one
+  nextText?: string;                             // text of the chunk after it, when a retry lands after that one
+  history: TranscriptionSegment[];
+  idPrefix: string;
+  audioOffsetMs: number;                         // where this chunk starts in the session audio
+  toTimestamp: (offsetSeconds: number) => number;
+}
+
+interface TimedLine extends WhisperSegment {
+  words: WordTiming[];
+}
+
+/**
+ * Turns one chunk's verbose Whisper output into per-speaker segments, dropping
+ * whatever the chunk re-heard from the overlap with its predecessor, and with
+ * its successor when that one was transcribed first.
+ */
+export const buildSpeakerSegments = async (
+  result: VerboseTranscription,
+  { previousText, nextText, history, idPrefix, audioOffsetMs, toTimestamp }: SegmentOptions
+): Promise<TranscriptionSegment[]> => {
+  const toMs = (seconds: number) => audioOffsetMs + Math.round(seconds * 1000);
+  const baseSegments = result.segments.length > 0
+    ? result.segments
+    : [{ start: 0, end: result.duration || 0, text: result.text.trim() }];
+  const lines: TimedLine[] = baseSegments.map(s => ({
+    ...s,
+    words: result.words
+      .filter(w => w.start >= s.start && w.start < s.end)
+      .map(w => ({ text: w.word, startMs: toMs(w.start), endMs: toMs(w.end) }))
+  }));
+
+  while (lines.length > 0) {
+    const first = lines[0];
+    const text = dedupeChunkBoundary(previousText, first.text);
+    if (text.length > 0) {
+      const dropped = first.text.split(/\s+/).filter(Boolean).length - text.split(/\s+/).length;
+      const words = first.words.slice(dropped);
+      lines[0] = { ...first, text, words, start: words.length > 0 ? (words[0].startMs - audioOffsetMs) / 1000 : first.start };
+      break;
+    }
+    lines.shift();
+  }
+
+  // The overlap can span several lines, so it is counted on the whole text
+  let surplus = nextText ? countBoundaryOverlap(lines.map(l => l.text).join(' '), nextText) : 0;
+  while (surplus > 0 && lines.length > 0) {
+    const last = lines[lines.length - 1];
+    const tokens = last.text.split(/\s+/).filter(Boolean);
+    if (tokens.length <= surplus) {
+      lines.pop();
+      surplus -= tokens.length;
+      continue;
+    }
+    const words = last.words.slice(0, Math.max(0, last.words.length - surplus));
+    const end = words.length > 0 ? (words[words.length - 1].endMs - audioOffsetMs) / 1000 : last.end;
+    lines[lines.length - 1] = { ...last, text: tokens.slice(0, tokens.length - surplus).join(' '), words, end };
+    surplus = 0;
+  }
+
+  const spoken = lines.filter(s => s.text.length >= 2);
+  const speakers = await diarizeSegments(spoken, history);
+
+  // Consecutive lines from the same speaker read better as one segment
+  const merged: TranscriptionSegment[] = [];
+  spoken.forEach((s, i) => {
+    const last = merged[merged.length - 1];
+    if (last && last.speaker === speakers[i]) {
+      last.text = `${last.text} ${s.text}`;
+      last.endMs = toMs(s.end);
+      last.words = [...(last.words || []), ...s.words];
+      return;
+    }
+    merged.push({
+      id: `${idPrefix}-${i}`,
+      text: s.text,
+      speaker: speakers[i],
+      timestamp: toTimestamp(s.start),
+      startMs: toMs(s.start),
+      endMs: toMs(s.end),
+      words: s.words
+    });
+  });
+  return merged;
+};
+
+export const speakerName = (speaker: string, names?: Record<string, string>): string =>
+  names?.[speaker] || speaker;
+
+export const listSpeakers = (segments: TranscriptionSegment[]): string[] =>
+  Array.from(new Set(segments.map(s => s.speaker)));
+
+/** Plain "Speaker: text" transcript used for exports and analysis prompts. */
+export const formatTranscript = (
+  segments: TranscriptionSegment[],
+  names?: Record<string, string>,
+  separator = '\n'
+): string => segments.map(s => `${speakerName(s.speaker, names)}: ${s.text}`).join(separator);
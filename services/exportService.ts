@@ -0,0 +1,247 @@
+import { Session, TemplateAnalysis, TranscriptionSegment } from '../types';
+import { speakerName, formatTranscript } from './diarizationService';
+
+export type ExportFormat = 'txt' | 'srt' | 'vtt' | 'md' | 'html' | 'json';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; mime: string }[] = [
+  { format: 'txt', label: 'Plain text', mime: 'text/plain' },
+  { format: 'md', label: 'Markdown', mime: 'text/markdown' },
+  { format: 'html', label: 'Word (HTML)', mime: 'text/html' },
+  { format: 'srt', label: 'SRT captions', mime: 'application/x-subrip' },
+  { format: 'vtt', label: 'WebVTT captions', mime: 'text/vtt' },
+  { format: 'json', label: 'JSON', mime: 'application/json' }
+];
+
+// Roughly how long a caption stays up when Whisper gave us no end time
+const MS_PER_WORD = 400;
+
+interface Cue {
+  start: number;
+  end: number;
+  speaker: string;
+  text: string;
+}
+
+const toCues = (session: Session): Cue[] => session.segments.map((segment: TranscriptionSegment, i) => {
+  const next = session.segments[i + 1];
+  const start = segment.startMs ?? Math.max(0, segment.timestamp - session.timestamp);
+  const nextStart = next ? next.startMs ?? Math.max(0, next.timestamp - session.timestamp) : undefined;
+  const estimated = start + segment.text.split(/\s+/).length * MS_PER_WORD;
+  const end = segment.endMs ?? (nextStart !== undefined ? Math.min(nextStart, estimated) : estimated);
+  return { start, end: Math.max(end, start + 500), speaker: speakerName(segment.speaker, session.speakerNames), text: segment.text };
+});
+
+const formatCueTime = (ms: number, separator: ',' | '.'): string => {
+  const hours = Math.floor(ms / 3_600_000);
+  const minutes = Math.floor(ms / 60_000) % 60;
+  const seconds = Math.floor(ms / 1000) % 60;
+  const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(Math.floor(ms % 1000), 3)}`;
+};
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Cue text and voice names are both parsed as markup, so '<' or '&' in a name would break the cue
+const escapeVtt = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;');
+
+// "followUpQuestions" -> "Follow Up Questions", as in the analysis report on screen
+const humanize = (key: string) => key
+  .replace(/([a-z])([A-Z])/g, '$1 $2')
+  .replace(/[_-]+/g, ' ')
+  .replace(/\b\w/g, c => c.toUpperCase());
+
+const isScalar = (value: unknown) => value === null || ['string', 'number', 'boolean'].includes(typeof value);
+
+const toSrt = (session: Session) => toCues(session)
+  .map((cue, i) => `${i + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.speaker}: ${cue.text}\n`)
+  .join('\n');
+
+const toVtt = (session: Session) => `WEBVTT\n\n${toCues(session)
+  .map(cue => `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n<v ${escapeVtt(cue.speaker.replace(/\s+/g, ' '))}>${escapeVtt(cue.text)}\n`)
+  .join('\n')}`;
+
+const markdownValue = (value: unknown, indent = ''): string[] => {
+  if (isScalar(value)) return [`${indent}${String(value ?? '')}`];
+  if (Array.isArray(value)) {
+    if (value.length === 0) return [`${indent}_None_`];
+    return value.flatMap(item => {
+      if (isScalar(item)) return [`${indent}- ${String(item)}`];
+      const [first, ...rest] = markdownValue(item, `${indent}  `);
+      return [`${indent}- ${first.trimStart()}`, ...rest];
+    });
+  }
+  // Trailing double spaces keep each field on its own line
+  return Object.entries(value as Record<string, unknown>).flatMap(([key, nested]) => isScalar(nested)
+    ? [`${indent}**${humanize(key)}:** ${String(nested ?? '')}  `]
+    : [`${indent}**${humanize(key)}:**  `, ...markdownValue(nested, `${indent}  `)]);
+};
+
+const markdownAnalyses = (analyses: TemplateAnalysis[]): string[] => analyses.flatMap(analysis => [
+  `## ${analysis.templateName}`, '',
+  ...Object.entries(analysis.result).flatMap(([section, value]) => [`### ${humanize(section)}`, '', ...markdownValue(value), ''])
+]);
+
+const toMarkdown = (session: Session): string => {
+  const lines = [`# ${session.title}`, '', `_${new Date(session.timestamp).toLocaleString()}_`, ''];
+  const meta = [
+    session.location && `**Location:** ${session.location}`,
+    session.attendees?.length && `**Attendees:** ${session.attendees.join(', ')}`,
+    session.tags?.length && `**Tags:** ${session.tags.map(t => `#${t}`).join(' ')}`
+  ].filter(Boolean);
+  if (meta.length > 0) lines.push(meta.join('  \n'), '');
+  if (session.analysis) {
+    lines.push('## Summary', '', session.analysis.summary, '');
+    lines.push('## Key Points', '', ...session.analysis.keyPoints.map(p => `- ${p}`), '');
+    lines.push('## Action Items', '', ...session.analysis.actionItems.map(a => `- [ ] ${a}`), '');
+  }
+  lines.push(...markdownAnalyses(session.analyses || []));
+  lines.push('## Transcript', '');
+  toCues(session).forEach(cue => lines.push(`**${cue.speaker}** \`${formatCueTime(cue.start, '.').slice(0, 8)}\`  `, cue.text, ''));
+  return lines.join('\n');
+};
+
+const htmlValue = (value: unknown): string => {
+  if (isScalar(value)) return escapeHtml(String(value ?? ''));
+  if (Array.isArray(value)) {
+    return value.length === 0 ? '<i>None</i>' : `<ul>${value.map(item => `<li>${htmlValue(item)}</li>`).join('')}</ul>`;
+  }
+  return Object.entries(value as Record<string, unknown>)
+    .map(([key, nested]) => `<div><b>${escapeHtml(humanize(key))}:</b> ${htmlValue(nested)}</div>`)
+    .join('');
+};
+
+const htmlAnalyses = (analyses: TemplateAnalysis[]): string => analyses.map(analysis => `
+<h2>${escapeHtml(analysis.templateName)}</h2>
+${Object.entries(analysis.result).map(([section, value]) => `<h3>${escapeHtml(humanize(section))}</h3>\n${isScalar(value) ? `<p>${htmlValue(value)}</p>` : htmlValue(value)}`).join('\n')}`).join('');
+
+// Word opens .html files as documents, so this doubles as the .docx route
+const toHtml = (session: Session): string => {
+  const analysis = session.analysis ? `
+<h2>Summary</h2>
+<p>${escapeHtml(session.analysis.summary)}</p>
+<h2>Key Points</h2>
+<ul>${session.analysis.keyPoints.map(p => `<li>${escapeHtml(p)}</li>`).join('')}</ul>
+<h2>Action Items</h2>
+<ul>${session.analysis.actionItems.map(a => `<li>${escapeHtml(a)}</li>`).join('')}</ul>` : '';
+  const templates = htmlAnalyses(session.analyses || []);
+  const transcript = toCues(session)
+    .map(cue => `<p><b>${escapeHtml(cue.speaker)}</b> <span style="color:#888">[${formatCueTime(cue.start, '.').slice(0, 8)}]</span><br>${escapeHtml(cue.text)}</p>`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(session.title)}</title>
+<style>body{font-family:Calibri,Arial,sans-serif;line-height:1.5}h1{font-size:24pt}h2{font-size:16pt;margin-top:18pt}h3{font-size:13pt}</style>
+</head><body>
+<h1>${escapeHtml(session.title)}</h1>
+<p><i>${escapeHtml(new Date(session.timestamp).toLocaleString())}</i></p>${analysis}${templates}
+<h2>Transcript</h2>
+${transcript}
+</body></html>`;
+};
+
+export const renderSession = (session: Session, format: ExportFormat): string => {
+  switch (format) {
+    case 'srt': return toSrt(session);
+    case 'vtt': return toVtt(session);
+    case 'md': return toMarkdown(session);
+    case 'html': return toHtml(session);
+    case 'json': return JSON.stringify(session, null, 2);
+    default: return formatTranscript(session.segments, session.speakerNames, '\n\n');
+  }
+};
+
+const fileNameFor = (session: Session, format: ExportFormat) =>
+  `${session.title.replace(/[\\/:*?"<>|]/g, '').replace(/\s+/g, '_')}_transcript.${format}`;
+
+export const triggerDownload = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadSession = (session: Session, format: ExportFormat) => {
+  const mime = EXPORT_FORMATS.find(f => f.format === format)?.mime || 'text/plain';
+  triggerDownload(new Blob([renderSession(session, format)], { type: mime }), fileNameFor(session, format));
+};
+
+// --- Minimal zip writer (stored entries, no compression) ---
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+export const createZip = (files: { name: string; content: string }[]): Blob => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true);          // UTF-8 names
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, 0x0800, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, data.length, true);
+    header.setUint32(24, data.length, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+
+    parts.push(new Uint8Array(local.buffer), name, data);
+    central.push(new Uint8Array(header.buffer), name);
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, new Uint8Array(end.buffer)], { type: 'application/zip' });
+};
+
+export const downloadSessionsZip = (sessions: Session[], format: ExportFormat) => {
+  const used = new Set<string>();
+  const files = sessions.map(session => {
+    let name = fileNameFor(session, format);
+    for (let n = 2; used.has(name); n++) name = fileNameFor(session, format).replace(/(\.\w+)$/, `_${n}$1`);
+    used.add(name);
+    return { name, content: renderSession(session, format) };
+  });
+  triggerDownload(createZip(files), `transcripts_${new Date().toISOString().slice(0, 10)}.zip`);
+};
@@ -0,0 +1,25 @@
+import { getSecret, setSecret } from './vaultService';
+
+// Google, Outlook and iCloud serve ICS without CORS headers, so browsers can't
+// fetch subscribed feeds themselves. A relay fetches them instead: the bundled
+// AI proxy by default, or anything that takes the feed address as `?url=`.
+export const DEFAULT_FEED_RELAY = 'http://localhost:8788/feed';
+const SETTINGS_KEY = 'feed_relay';
+
+export interface FeedRelaySettings {
+  endpoint: string;
+  token: string;
+}
+
+export const getFeedRelaySettings = (): FeedRelaySettings => ({
+  endpoint: DEFAULT_FEED_RELAY,
+  ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}'),
+  token: getSecret('feeds')
+});
+
+export const saveFeedRelaySettings = (settings: FeedRelaySettings) => {
+  setSecret('feeds', settings.token);
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify({
+    endpoint: settings.endpoint.trim().replace(/\/+$/, '') || DEFAULT_FEED_RELAY
+  }));
+};
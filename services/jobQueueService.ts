@@ -0,0 +1,200 @@
+import { STORES, withStore } from './database';
+import { sealRecord, openRecord, sealBlob, openBlob } from './vaultService';
+import { LlmSetupError } from './llmClient';
+
+// Transcription and analysis calls that fail, usually because the network
+// dropped, wait here until they can be retried. Chunk audio is written before
+// the first upload, so a closed tab or a reload never loses a recording.
+
+export type QueuedJobKind = 'transcribe' | 'analyze';
+export type QueuedJobStatus = 'pending' | 'running' | 'failed';
+
+export interface QueuedChunk {
+  index: number;
+  offsetMs: number;
+  durationMs: number;
+  previousText: string;   // text of the chunk before it, for boundary de-duplication; empty when that one failed too
+}
+
+export interface QueuedJob {
+  id: string;
+  kind: QueuedJobKind;
+  sessionId: string;
+  status: QueuedJobStatus;
+  attempts: number;
+  createdAt: number;
+  nextAttemptAt: number;
+  chunk?: QueuedChunk;    // transcribe only
+  templateId?: string;    // analyze only
+  lastError?: string;
+}
+
+export type JobHandler = (job: QueuedJob) => Promise<void>;
+type Listener = (jobs: QueuedJob[]) => void;
+
+const MAX_ATTEMPTS = 6;
+const BASE_DELAY_MS = 5_000;
+const MAX_DELAY_MS = 10 * 60 * 1000;
+
+const listeners = new Set<Listener>();
+let handler: JobHandler | null = null;
+let timer: number | undefined;
+let passes: Promise<void> = Promise.resolve();
+
+export const isOffline = () => !navigator.onLine;
+
+// fetch rejects with a TypeError when no answer came back. Any other TypeError
+// is a bug and has to surface instead of waiting in the queue.
+const NETWORK_FAILURE = /failed to fetch|networkerror|load failed|network connection was lost/i;
+
+export const isNetworkFailure = (err: unknown) =>
+  isOffline() || (err instanceof TypeError && NETWORK_FAILURE.test(err.message));
+
+export const getQueuedJobs = async (): Promise<QueuedJob[]> => {
+  const raw = await withStore<unknown[]>(STORES.jobs, 'readonly', store => store.getAll());
+  const jobs = await Promise.all(raw.map(record => openRecord<QueuedJob>(record)));
+  return jobs.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+const getJob = async (id: string): Promise<QueuedJob | null> => {
+  const raw = await withStore<unknown>(STORES.jobs, 'readonly', store => store.get(id));
+  return raw ? openRecord<QueuedJob>(raw) : null;
+};
+
+const notify = () => {
+  if (listeners.size === 0) return;
+  getQueuedJobs().then(jobs => listeners.forEach(listener => listener(jobs)), console.error);
+};
+
+const putJob = async (job: QueuedJob) => {
+  const record = await sealRecord(STORES.jobs, job);
+  await withStore(STORES.jobs, 'readwrite', store => store.put(record));
+  notify();
+  wake();
+};
+
+export const subscribeToJobs = (listener: Listener) => {
+  listeners.add(listener);
+  getQueuedJobs().then(listener, console.error);
+  return () => { listeners.delete(listener); };
+};
+
+/** Jitter keeps several tabs or devices from retrying in lockstep. */
+export const backoffDelay = (attempts: number) =>
+  Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1)) * (0.5 + Math.random() / 2);
+
+/**
+ * Stores a job, and its audio, before any request is made. Pass `running`
+ * when the caller is about to try it itself so the runner leaves it alone.
+ */
+export const enqueueJob = async (
+  job: Pick<QueuedJob, 'kind' | 'sessionId' | 'chunk' | 'templateId'>,
+  { audio, running = false }: { audio?: Blob; running?: boolean } = {}
+): Promise<QueuedJob> => {
+  const now = Date.now();
+  const queued: QueuedJob = {
+    ...job,
+    id: `job-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    status: running ? 'running' : 'pending',
+    attempts: 0,
+    createdAt: now,
+    nextAttemptAt: now
+  };
+  if (audio) {
+    const record = await sealBlob(audio);
+    await withStore(STORES.jobAudio, 'readwrite', store => store.put(record, queued.id));
+  }
+  await putJob(queued);
+  return queued;
+};
+
+export const getJobAudio = async (id: string): Promise<Blob | null> => {
+  const record = await withStore<unknown>(STORES.jobAudio, 'readonly', store => store.get(id));
+  return record ? openBlob(record) : null;
+};
+
+export const completeJob = async (id: string) => {
+  await withStore(STORES.jobs, 'readwrite', store => store.delete(id));
+  await withStore(STORES.jobAudio, 'readwrite', store => store.delete(id));
+  notify();
+};
+
+export const discardJob = completeJob;
+
+/** Drops a session's jobs of one kind, e.g. before its import starts over. */
+export const discardSessionJobs = async (sessionId: string, kind: QueuedJobKind) => {
+  const jobs = (await getQueuedJobs()).filter(job => job.sessionId === sessionId && job.kind === kind);
+  for (const job of jobs) await discardJob(job.id);
+};
+
+/** False once the job was discarded, so a run that was under way can drop its result. */
+export const isJobQueued = async (id: string) => (await getJob(id)) !== null;
+
+/** Schedules the next attempt. Attempts made while offline don't count. */
+export const failJob = async (job: QueuedJob, err: unknown) => {
+  const lastError = err instanceof Error ? err.message : String(err);
+  if (isOffline()) {
+    await putJob({ ...job, status: 'pending', nextAttemptAt: Date.now(), lastError });
+    return;
+  }
+  const attempts = job.attempts + 1;
+  const gaveUp = attempts >= MAX_ATTEMPTS || err instanceof LlmSetupError;
+  await putJob({ ...job, attempts, status: gaveUp ? 'failed' : 'pending', nextAttemptAt: Date.now() + backoffDelay(attempts), lastError });
+};
+
+export const retryJob = async (id: string) => {
+  const job = await getJob(id);
+  if (job) await putJob({ ...job, status: 'pending', attempts: 0, nextAttemptAt: Date.now() });
+};
+
+// --- Runner ------------------------------------------------------------------
+
+// One job at a time, oldest due first. Passes are chained so a wake-up during
+// a job can't start a second one alongside it.
+const runDueJob = async () => {
+  window.clearTimeout(timer);
+  const run = handler;
+  if (!run || isOffline()) return;
+  const pending = (await getQueuedJobs()).filter(job => job.status === 'pending');
+  if (pending.length === 0) return;
+  const next = pending.reduce((a, b) => b.nextAttemptAt < a.nextAttemptAt ? b : a);
+  const wait = next.nextAttemptAt - Date.now();
+  if (wait > 0) {
+    timer = window.setTimeout(wake, wait);
+    return;
+  }
+
+  const running: QueuedJob = { ...next, status: 'running' };
+  await putJob(running);
+  try {
+    await run(running);
+    await completeJob(running.id);
+  } catch (err) {
+    await failJob(running, err);
+    return;
+  }
+  wake();
+};
+
+function wake() {
+  passes = passes.then(runDueJob).catch(console.error);
+}
+
+/** Jobs a closed tab was working on go back in line when the runner starts. */
+export const startJobRunner = (run: JobHandler) => {
+  handler = run;
+  window.addEventListener('online', wake);
+  passes = passes
+    .then(async () => {
+      for (const job of await getQueuedJobs()) {
+        if (job.status === 'running') await putJob({ ...job, status: 'pending', nextAttemptAt: Date.now() });
+      }
+    })
+    .catch(console.error);
+  wake();
+  return () => {
+    handler = null;
+    window.clearTimeout(timer);
+    window.removeEventListener('online', wake);
+  };
+};
@@ -0,0 +1,109 @@
+import { LibraryFolder, Session } from '../types';
+import { tokenize } from './searchService';
+import { recordCollectionChanges } from './changeLogService';
+
+const FOLDERS_KEY = 'library_folders';
+const MAX_SUGGESTED_TAGS = 6;
+
+export type LibrarySort = 'newest' | 'oldest' | 'title' | 'longest';
+export type DurationBucket = 'any' | 'short' | 'medium' | 'long';
+
+// Folder filter: 'all', 'unfiled', or a folder id
+export interface LibraryFilters {
+  folder: string;
+  tag?: string;
+  from?: number;
+  to?: number;
+  duration: DurationBucket;
+  sort: LibrarySort;
+}
+
+export const DEFAULT_LIBRARY_FILTERS: LibraryFilters = { folder: 'all', duration: 'any', sort: 'newest' };
+
+export const DURATION_BUCKETS: Record<DurationBucket, { label: string; min: number; max: number }> = {
+  any: { label: 'Any length', min: 0, max: Infinity },
+  short: { label: 'Under 15 min', min: 0, max: 15 * 60 },
+  medium: { label: '15–60 min', min: 15 * 60, max: 60 * 60 },
+  long: { label: 'Over an hour', min: 60 * 60, max: Infinity }
+};
+
+export const getFolders = (): LibraryFolder[] => JSON.parse(localStorage.getItem(FOLDERS_KEY) || '[]');
+
+export const saveFolders = (folders: LibraryFolder[]) => {
+  recordCollectionChanges('folders', getFolders().map(f => f.id), folders.map(f => f.id));
+  localStorage.setItem(FOLDERS_KEY, JSON.stringify(folders));
+};
+
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/^#/, '').replace(/\s+/g, '-');
+
+export const libraryTags = (sessions: Session[]): string[] =>
+  Array.from(new Set(sessions.flatMap(s => s.tags || []))).sort();
+
+export const hasActiveFilters = (filters: LibraryFilters) =>
+  filters.folder !== 'all' || Boolean(filters.tag) || filters.from !== undefined || filters.to !== undefined || filters.duration !== 'any';
+
+/** Pinned sessions always lead; a session whose folder was deleted counts as unfiled. */
+export const filterLibrary = (sessions: Session[], filters: LibraryFilters, folders: LibraryFolder[]): Session[] => {
+  const folderIds = new Set(folders.map(f => f.id));
+  const bucket = DURATION_BUCKETS[filters.duration];
+
+  const compare: Record<LibrarySort, (a: Session, b: Session) => number> = {
+    newest: (a, b) => b.timestamp - a.timestamp,
+    oldest: (a, b) => a.timestamp - b.timestamp,
+    title: (a, b) => a.title.localeCompare(b.title),
+    longest: (a, b) => (b.duration || 0) - (a.duration || 0)
+  };
+
+  return sessions
+    .filter(s => {
+      const folder = s.folderId && folderIds.has(s.folderId) ? s.folderId : 'unfiled';
+      if (filters.folder !== 'all' && filters.folder !== folder) return false;
+      if (filters.tag && !s.tags?.includes(filters.tag)) return false;
+      if (filters.from !== undefined && s.timestamp < filters.from) return false;
+      if (filters.to !== undefined && s.timestamp > filters.to) return false;
+      const duration = s.duration || 0;
+      return filters.duration === 'any' || (duration >= bucket.min && duration < bucket.max);
+    })
+    .sort((a, b) => Number(Boolean(b.pinned)) - Number(Boolean(a.pinned)) || compare[filters.sort](a, b));
+};
+
+const GENERIC_TERMS = new Set([
+  'about', 'after', 'agreed', 'also', 'because', 'before', 'being', 'could', 'discussed', 'during', 'every',
+  'going', 'have', 'meeting', 'mentioned', 'need', 'needs', 'next', 'other', 'should', 'some', 'team',
+  'that', 'their', 'there', 'these', 'they', 'this', 'those', 'through', 'will', 'with', 'would'
+]);
+
+// Only string values, so template field names don't read as topics
+const stringLeaves = (value: unknown): string[] => {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.flatMap(stringLeaves);
+  if (value && typeof value === 'object') return Object.values(value).flatMap(stringLeaves);
+  return [];
+};
+
+const analysisText = (session: Session) => [
+  session.analysis?.summary,
+  ...(session.analysis?.keyPoints || []),
+  ...(session.analyses || []).flatMap(a => stringLeaves(a.result))
+].filter(Boolean).join(' ');
+
+/**
+ * Tag ideas for a session: existing library tags its transcript mentions,
+ * then the terms its analysis keeps coming back to.
+ */
+export const suggestTags = (session: Session, knownTags: string[]): string[] => {
+  const own = new Set(session.tags || []);
+  const transcript = new Set(tokenize(session.segments.map(s => s.text).join(' ')).map(t => t.term));
+  const known = knownTags.filter(tag => !own.has(tag) && tag.split('-').every(part => transcript.has(part)));
+
+  const counts = new Map<string, number>();
+  tokenize(analysisText(session)).forEach(({ term }) => {
+    if (term.length >= 4 && !GENERIC_TERMS.has(term) && !/^\d+$/.test(term)) counts.set(term, (counts.get(term) || 0) + 1);
+  });
+  const frequent = Array.from(counts.entries())
+    .filter(([term, count]) => count >= 2 && !own.has(term))
+    .sort((a, b) => b[1] - a[1])
+    .map(([term]) => term);
+
+  return Array.from(new Set([...known, ...frequent])).slice(0, MAX_SUGGESTED_TAGS);
+};
@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createStubClient, DEFAULT_STUB_ENDPOINT, getLlmClient, LlmSettings, LlmSetupError, llmSetupProblem } from './llmClient';
+
+vi.mock('./vaultService', () => ({ getSecret: () => '', setSecret: () => {} }));
+
+const settings = (patch: Partial<LlmSettings>): LlmSettings => ({
+  provider: 'stub',
+  endpoint: DEFAULT_STUB_ENDPOINT,
+  apiKey: '',
+  proxyUrl: '',
+  proxyToken: '',
+  ...patch
+});
+
+const respondWith = (status: number, body: unknown) => {
+  const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => new Response(JSON.stringify(body), { status }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createStubClient', () => {
+  it('posts the prompt and schema to /generate and parses the JSON answer', async () => {
+    const fetchMock = respondWith(200, { text: '["Speaker 1","Speaker 2"]' });
+    const schema = { type: 'array', items: { type: 'string' } };
+
+    const labels = await createStubClient('http://localhost:8788', 'secret').generateJson<string[]>('Who spoke?', schema);
+
+    expect(labels).toEqual(['Speaker 1', 'Speaker 2']);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:8788/generate');
+    expect(init.method).toBe('POST');
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer secret' });
+    expect(JSON.parse(String(init.body))).toEqual({ prompt: 'Who spoke?', schema });
+  });
+
+  it('returns plain text and sends no token when there is none', async () => {
+    const fetchMock = respondWith(200, { text: 'Hello' });
+    expect(await createStubClient(DEFAULT_STUB_ENDPOINT).generateText('Hi')).toBe('Hello');
+    expect(fetchMock.mock.calls[0][1].headers).not.toHaveProperty('Authorization');
+  });
+
+  it('reports the status of a failed request', async () => {
+    respondWith(401, { error: 'Missing or wrong proxy token.' });
+    await expect(createStubClient(DEFAULT_STUB_ENDPOINT).generateText('Hi')).rejects.toThrow('failed (401)');
+  });
+});
+
+describe('getLlmClient', () => {
+  it('sends proxy calls with the proxy token', async () => {
+    const fetchMock = respondWith(200, { text: 'ok' });
+    await getLlmClient(settings({ provider: 'proxy', proxyUrl: 'http://localhost:8788', proxyToken: 't' })).generateText('Hi');
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:8788/generate');
+    expect(fetchMock.mock.calls[0][1].headers).toMatchObject({ Authorization: 'Bearer t' });
+  });
+
+  it('refuses a provider that is not set up', () => {
+    expect(() => getLlmClient(settings({ provider: 'proxy' }))).toThrow(LlmSetupError);
+    expect(() => getLlmClient(settings({ provider: 'gemini' }))).toThrow(LlmSetupError);
+    expect(llmSetupProblem(settings({ provider: 'gemini' }))).toMatch(/Gemini API key/);
+    expect(llmSetupProblem(settings({ provider: 'stub' }))).toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+import { GoogleGenAI } from "@google/genai";
+import { getSecret, setSecret } from './vaultService';
+
+// Every Gemini call goes through this interface so the app can be pointed at a
+// local stub server (for tests and offline demos) or at a proxy that holds the
+// real key server-side instead of calling Google's API from the browser.
+
+export type LlmProvider = 'gemini' | 'proxy' | 'stub';
+
+export interface LlmSettings {
+  provider: LlmProvider;
+  endpoint: string;     // only used by the stub
+  apiKey: string;       // Gemini key, entered at runtime
+  proxyUrl: string;
+  proxyToken: string;   // optional shared secret the proxy checks
+}
+
+export interface LlmClient {
+  generateText: (prompt: string) => Promise<string>;
+  generateJson: <T>(prompt: string, schema: Record<string, unknown>) => Promise<T>;
+}
+
+const SETTINGS_KEY = 'llm_settings';
+const GEMINI_MODEL = 'gemini-2.5-flash';
+export const DEFAULT_STUB_ENDPOINT = 'http://localhost:8787';
+
+export const getLlmSettings = (): LlmSettings => ({
+  provider: 'gemini',
+  endpoint: DEFAULT_STUB_ENDPOINT,
+  proxyUrl: '',
+  ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}'),
+  apiKey: getSecret('gemini'),
+  proxyToken: getSecret('proxy')
+});
+
+export const saveLlmSettings = (settings: LlmSettings) => {
+  setSecret('gemini', settings.apiKey);
+  setSecret('proxy', settings.proxyToken);
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify({
+    provider: settings.provider,
+    endpoint: settings.endpoint.trim().replace(/\/+$/, '') || DEFAULT_STUB_ENDPOINT,
+    proxyUrl: settings.proxyUrl.trim().replace(/\/+$/, '')
+  }));
+};
+
+export class LlmSetupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LlmSetupError';
+  }
+}
+
+const MISSING_GEMINI_KEY = "Add a Gemini API key in Settings, or route AI calls through a proxy.";
+const MISSING_PROXY_URL = "Set the AI proxy URL in Settings.";
+
+/** What stops a model call before it's made, or null when one can be tried. */
+export const llmSetupProblem = (settings: LlmSettings = getLlmSettings()): string | null => {
+  if (settings.provider === 'stub') return null;
+  if (settings.provider === 'proxy') return settings.proxyUrl ? null : MISSING_PROXY_URL;
+  return settings.apiKey ? null : MISSING_GEMINI_KEY;
+};
+
+export const createGeminiClient = (apiKey: string): LlmClient => {
+  if (!apiKey) throw new LlmSetupError(MISSING_GEMINI_KEY);
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    generateText: async (prompt) => {
+      const response = await ai.models.generateContent({ model: GEMINI_MODEL, contents: prompt });
+      return response.text || '';
+    },
+    generateJson: async (prompt, schema) => {
+      const response = await ai.models.generateContent({
+        model: GEMINI_MODEL,
+        contents: prompt,
+        config: { responseMimeType: "application/json", responseJsonSchema: schema }
+      });
+      return JSON.parse(response.text || 'null');
+    }
+  };
+};
+
+/**
+ * The stub and the proxy speak a deliberately tiny protocol: POST /generate
+ * with `{ prompt, schema? }` and answer `{ text }`, where text is JSON when a
+ * schema was sent.
+ */
+export const createStubClient = (endpoint: string, token?: string): LlmClient => {
+  const generate = async (prompt: string, schema?: Record<string, unknown>): Promise<string> => {
+    const response = await fetch(`${endpoint}/generate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+      body: JSON.stringify({ prompt, schema })
+    });
+    if (!response.ok) throw new Error(`Model request to ${endpoint} failed (${response.status}).`);
+    const data = await response.json();
+    return data.text || '';
+  };
+  return {
+    generateText: (prompt) => generate(prompt),
+    generateJson: async (prompt, schema) => JSON.parse(await generate(prompt, schema) || 'null')
+  };
+};
+
+export const getLlmClient = (settings: LlmSettings = getLlmSettings()): LlmClient => {
+  if (settings.provider === 'stub') return createStubClient(settings.endpoint);
+  if (settings.provider === 'proxy') {
+    if (!settings.proxyUrl) throw new LlmSetupError(MISSING_PROXY_URL);
+    return createStubClient(settings.proxyUrl, settings.proxyToken);
+  }
+  return createGeminiClient(settings.apiKey);
+};
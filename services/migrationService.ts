@@ -0,0 +1,59 @@
+import { CalendarEvent, Session } from '../types';
+import { upgradeLegacyEvent } from './calendarService';
+import { normalizeTag } from './libraryService';
+
+// Workspace archives record the schema each record type was written with.
+// Migration n upgrades a record from version n to n + 1; version 0 is anything
+// written before archives were versioned, including the old localStorage
+// session array.
+
+export const SESSION_SCHEMA_VERSION = 1;
+export const CALENDAR_EVENT_SCHEMA_VERSION = 1;
+
+// Old records carry whatever fields their version had, so steps read them loosely
+type StoredRecord = Record<string, unknown>;
+type Migration = (record: StoredRecord) => StoredRecord;
+
+const SESSION_MIGRATIONS: Migration[] = [
+  // 0 -> 1: early sessions stored ISO timestamps and unlabelled segments without ids
+  (record) => {
+    const timestamp = typeof record.timestamp === 'string' ? Date.parse(record.timestamp) : Number(record.timestamp) || 0;
+    return {
+      ...record,
+      id: String(record.id || `session-${timestamp}`),
+      title: record.title || 'Untitled Session',
+      timestamp,
+      segments: ((record.segments as StoredRecord[] | undefined) || []).map((segment, i) => ({
+        speaker: 'Speaker 1',
+        timestamp,
+        ...segment,
+        id: segment.id || `seg-${timestamp}-${i}`,
+        text: String(segment.text || '')
+      })),
+      tags: record.tags ? Array.from(new Set((record.tags as string[]).map(normalizeTag).filter(Boolean))) : undefined
+    };
+  }
+];
+
+const CALENDAR_EVENT_MIGRATIONS: Migration[] = [
+  // 0 -> 1: HH:mm times and weekdays become an anchored start/end plus RRULE
+  (record) => ({ ...upgradeLegacyEvent({ days: [], ...record } as CalendarEvent) })
+];
+
+export class SchemaVersionError extends Error {
+  constructor(kind: string, version: number) {
+    super(`This backup stores ${kind} in schema version ${version}, which is newer than this app understands. Update the app and try again.`);
+    this.name = 'SchemaVersionError';
+  }
+}
+
+const migrate = <T>(record: unknown, from: number, migrations: Migration[], kind: string): T => {
+  if (from > migrations.length) throw new SchemaVersionError(kind, from);
+  return migrations.slice(from).reduce((current, step) => step(current), record as StoredRecord) as T;
+};
+
+export const migrateSession = (record: unknown, from: number): Session =>
+  migrate<Session>(record, from, SESSION_MIGRATIONS, 'sessions');
+
+export const migrateCalendarEvent = (record: unknown, from: number): CalendarEvent =>
+  migrate<CalendarEvent>(record, from, CALENDAR_EVENT_MIGRATIONS, 'calendar events');
@@ -0,0 +1,194 @@
+import { Session } from '../types';
+import { speakerName } from './diarizationService';
+import { adoptLegacySecret, getSecret, setSecret } from './vaultService';
+
+// Notion's API does not allow browser CORS, so every request goes through a
+// relay: the bundled AI proxy by default, which adds the integration token
+// itself, or any forwarding proxy or mock server that passes the token through.
+export const DEFAULT_NOTION_ENDPOINT = 'http://localhost:8788/notion/v1';
+const NOTION_API_HOST = 'api.notion.com';
+const NOTION_VERSION = '2022-06-28';
+const SETTINGS_KEY = 'notion_settings';
+
+const MAX_CHILDREN = 100;     // blocks per append request
+const MAX_TEXT = 2000;        // characters per rich text item
+
+export interface NotionSettings {
+  token: string;
+  databaseId: string;
+  endpoint: string;
+}
+
+export interface PublishResult {
+  pageId: string;
+  url?: string;
+}
+
+interface NotionBlock {
+  id: string;
+  type: string;
+}
+
+interface NotionBlockList {
+  results: NotionBlock[];
+  has_more: boolean;
+  next_cursor: string | null;
+}
+
+interface NotionPage {
+  id: string;
+  url?: string;
+}
+
+interface NotionDatabase {
+  properties: Record<string, { type: string }>;
+}
+
+export class NotionRequestError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'NotionRequestError';
+  }
+}
+
+const isDirectEndpoint = (endpoint: string) => {
+  try {
+    return new URL(endpoint).hostname === NOTION_API_HOST;
+  } catch {
+    return false;
+  }
+};
+
+export const getNotionSettings = (): NotionSettings => {
+  const { token: legacyToken, ...stored } = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+  if (legacyToken !== undefined) {
+    adoptLegacySecret('notion', legacyToken);
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(stored));
+  }
+  const settings = { databaseId: '', endpoint: DEFAULT_NOTION_ENDPOINT, ...stored, token: getSecret('notion') };
+  // Earlier versions defaulted to the API itself, which never worked from a browser
+  return isDirectEndpoint(settings.endpoint) ? { ...settings, endpoint: DEFAULT_NOTION_ENDPOINT } : settings;
+};
+
+export const saveNotionSettings = (settings: NotionSettings) => {
+  setSecret('notion', settings.token);
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify({
+    databaseId: settings.databaseId.trim().replace(/-/g, ''),
+    endpoint: settings.endpoint.trim().replace(/\/+$/, '') || DEFAULT_NOTION_ENDPOINT
+  }));
+};
+
+export const isNotionConfigured = (settings: NotionSettings) => Boolean(settings.token && settings.databaseId);
+
+const notionRequest = async <T>(settings: NotionSettings, method: string, path: string, body?: unknown): Promise<T> => {
+  if (isDirectEndpoint(settings.endpoint)) {
+    throw new Error("Notion can't be called from the browser. Set the relay endpoint in Notion settings to the AI proxy or another relay.");
+  }
+  const response = await fetch(`${settings.endpoint}${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${settings.token}`,
+      'Notion-Version': NOTION_VERSION,
+      'Content-Type': 'application/json'
+    },
+    body: body ? JSON.stringify(body) : undefined
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new NotionRequestError(data.message || `Notion request failed (${response.status}).`, response.status);
+  }
+  return data as T;
+};
+
+const richText = (content: string) => {
+  const parts: { type: 'text'; text: { content: string } }[] = [];
+  for (let i = 0; i < content.length; i += MAX_TEXT) {
+    parts.push({ type: 'text', text: { content: content.slice(i, i + MAX_TEXT) } });
+  }
+  return parts.length > 0 ? parts : [{ type: 'text' as const, text: { content: '' } }];
+};
+
+const block = (type: string, content: Record<string, unknown>) => ({ object: 'block', type, [type]: content });
+
+const transcriptBlocks = (session: Session) => session.segments.map(segment =>
+  block('paragraph', {
+    rich_text: [
+      { type: 'text', text: { content: `${speakerName(segment.speaker, session.speakerNames)}: ` }, annotations: { bold: true } },
+      ...richText(segment.text)
+    ]
+  })
+);
+
+/** Top-level page content. The transcript toggle is filled separately. */
+export const sessionToBlocks = (session: Session) => {
+  const blocks = [
+    block('heading_1', { rich_text: richText(session.title) }),
+    block('paragraph', { rich_text: richText(new Date(session.timestamp).toLocaleString()) })
+  ];
+  if (session.analysis) {
+    blocks.push(
+      block('callout', { rich_text: richText(session.analysis.summary), icon: { type: 'emoji', emoji: '💡' } }),
+      block('heading_2', { rich_text: richText('Key Points') }),
+      ...session.analysis.keyPoints.map(point => block('bulleted_list_item', { rich_text: richText(point) })),
+      block('heading_2', { rich_text: richText('Action Items') }),
+      ...session.analysis.actionItems.map(item => block('to_do', { rich_text: richText(item), checked: false }))
+    );
+  }
+  blocks.push(block('toggle', { rich_text: richText('Transcript') }));
+  return blocks;
+};
+
+const appendChildren = async (settings: NotionSettings, parentId: string, children: unknown[]) => {
+  const results: NotionBlock[] = [];
+  for (let i = 0; i < children.length; i += MAX_CHILDREN) {
+    const data = await notionRequest<NotionBlockList>(settings, 'PATCH', `/blocks/${parentId}/children`, { children: children.slice(i, i + MAX_CHILDREN) });
+    results.push(...(data.results || []));
+  }
+  return results;
+};
+
+const clearChildren = async (settings: NotionSettings, parentId: string) => {
+  let cursor: string | undefined;
+  do {
+    const data = await notionRequest<NotionBlockList>(settings, 'GET', `/blocks/${parentId}/children?page_size=100${cursor ? `&start_cursor=${cursor}` : ''}`);
+    for (const child of data.results || []) {
+      await notionRequest(settings, 'DELETE', `/blocks/${child.id}`);
+    }
+    cursor = data.has_more ? data.next_cursor || undefined : undefined;
+  } while (cursor);
+};
+
+const titleProperty = async (settings: NotionSettings): Promise<string> => {
+  const database = await notionRequest<NotionDatabase>(settings, 'GET', `/databases/${settings.databaseId}`);
+  const entry = Object.entries(database.properties || {}).find(([, prop]) => prop.type === 'title');
+  return entry ? entry[0] : 'Name';
+};
+
+/**
+ * Creates a page for the session, or rewrites the page it was published to
+ * before so republishing never leaves duplicates behind. A page that was
+ * deleted from Notion since is replaced by a new one.
+ */
+export const publishSession = async (session: Session, settings: NotionSettings = getNotionSettings()): Promise<PublishResult> => {
+  if (!isNotionConfigured(settings)) throw new Error("Connect Notion in Settings before publishing.");
+
+  const properties = { [await titleProperty(settings)]: { title: richText(session.title) } };
+  let page: NotionPage | null = null;
+  if (session.notionPageId) {
+    try {
+      page = await notionRequest<NotionPage>(settings, 'PATCH', `/pages/${session.notionPageId}`, { properties, archived: false });
+    } catch (err) {
+      if (!(err instanceof NotionRequestError && err.status === 404)) throw err;
+    }
+    if (page) await clearChildren(settings, page.id);
+  }
+  if (!page) {
+    page = await notionRequest<NotionPage>(settings, 'POST', '/pages', { parent: { database_id: settings.databaseId }, properties });
+  }
+
+  const created = await appendChildren(settings, page.id, sessionToBlocks(session));
+  const toggle = created.find(child => child.type === 'toggle');
+  if (toggle) await appendChildren(settings, toggle.id, transcriptBlocks(session));
+
+  return { pageId: page.id, url: page.url };
+};
@@ -0,0 +1,162 @@
+import { PostProcessingRule, TranscriptionSegment } from '../types';
+import { recordCollectionChanges } from './changeLogService';
+
+const VOCABULARY_KEY = 'custom_vocabulary';
+const RULES_KEY = 'postprocessing_rules';
+// Whisper only reads the last 224 tokens of a prompt
+const MAX_PROMPT_CHARS = 800;
+
+export const getVocabulary = (): string[] => JSON.parse(localStorage.getItem(VOCABULARY_KEY) || '[]');
+
+// "Kubernetes" and "kubernetes " are the same term
+export const vocabularyKey = (term: string) => term.trim().toLowerCase();
+
+export const saveVocabulary = (terms: string[]) => {
+  const seen = new Set<string>();
+  const unique = terms.map(t => t.trim()).filter(term => {
+    if (!term || seen.has(vocabularyKey(term))) return false;
+    seen.add(vocabularyKey(term));
+    return true;
+  });
+  recordCollectionChanges('vocabulary', getVocabulary().map(vocabularyKey), unique.map(vocabularyKey));
+  localStorage.setItem(VOCABULARY_KEY, JSON.stringify(unique));
+};
+
+/** Whisper treats the prompt as preceding text, so a glossary sentence steers spelling without leaking into output. */
+export const vocabularyPrompt = (terms: string[] = getVocabulary()): string | undefined => {
+  if (terms.length === 0) return undefined;
+  let prompt = 'Glossary:';
+  for (const term of terms) {
+    const next = `${prompt} ${term},`;
+    if (next.length > MAX_PROMPT_CHARS) break;
+    prompt = next;
+  }
+  return prompt.replace(/,$/, '.');
+};
+
+export const getRules = (): PostProcessingRule[] => JSON.parse(localStorage.getItem(RULES_KEY) || '[]');
+
+export const saveRules = (rules: PostProcessingRule[]) => {
+  recordCollectionChanges('rules', getRules().map(r => r.id), rules.map(r => r.id));
+  localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+};
+
+/** Returns an error message when a rule can't run. */
+export const validateRule = (rule: PostProcessingRule): string | null => {
+  if ((rule.kind === 'literal' || rule.kind === 'regex') && !rule.find) return 'Enter the text to find.';
+  if (rule.kind === 'regex') {
+    try {
+      new RegExp(rule.find!);
+    } catch (err: any) {
+      return `Invalid pattern: ${err.message}`;
+    }
+  }
+  return null;
+};
+
+// --- Filler words --------------------------------------------------------
+
+const FILLERS = /(^|\s)(?:u+m+|u+h+|uhm|erm|er|a+h+|hm+|mm+)[,.…]*(?=\s|$)/gi;
+
+const removeFillers = (text: string): string => {
+  const cleaned = text.replace(FILLERS, '$1').replace(/\s{2,}/g, ' ').replace(/\s+([,.!?])/g, '$1').trim();
+  // "Um, so we..." should still read as a sentence
+  return /^[A-Z]/.test(text) ? cleaned.charAt(0).toUpperCase() + cleaned.slice(1) : cleaned;
+};
+
+// --- Spelled-out numbers -------------------------------------------------
+
+const UNITS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19
+};
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90
+};
+const SCALES: Record<string, number> = { thousand: 1e3, million: 1e6, billion: 1e9 };
+const NUMBER_WORD = `(?:${[...Object.keys(UNITS), ...Object.keys(TENS), 'hundred', ...Object.keys(SCALES)].join('|')})`;
+const NUMBER_RUN = new RegExp(`\\b${NUMBER_WORD}(?:(?:\\s+and\\s+|[\\s-]+)${NUMBER_WORD})*\\b`, 'gi');
+
+/** Value of a run like "two hundred and forty-five", or null when the words don't form one number. */
+const parseNumberWords = (run: string): number | null => {
+  const words = run.toLowerCase().split(/[\s-]+/).filter(w => w !== 'and');
+  let total = 0;
+  let current = 0;
+  let previous: 'unit' | 'teen' | 'tens' | 'hundred' | 'scale' | null = null;
+  for (const word of words) {
+    if (word in UNITS) {
+      const kind = UNITS[word] >= 10 ? 'teen' : 'unit';
+      // "one two three" is counting, "twenty twenty" a year; neither is one number
+      if (previous === 'unit' || previous === 'teen' || (kind === 'teen' && previous === 'tens')) return null;
+      current += UNITS[word];
+      previous = kind;
+    } else if (word in TENS) {
+      if (previous === 'unit' || previous === 'teen' || previous === 'tens') return null;
+      current += TENS[word];
+      previous = 'tens';
+    } else if (word === 'hundred') {
+      if (previous === 'hundred' || current >= 100) return null;
+      current = (current || 1) * 100;
+      previous = 'hundred';
+    } else {
+      if (previous === 'scale') return null;
+      total += (current || 1) * SCALES[word];
+      current = 0;
+      previous = 'scale';
+    }
+  }
+  return total + current;
+};
+
+const formatNumbers = (text: string): string =>
+  text
+    .replace(NUMBER_RUN, run => {
+      const value = parseNumberWords(run);
+      // Style guides spell out zero to nine
+      if (value === null || (value < 10 && !/\s|-/.test(run.trim()))) return run;
+      return value.toLocaleString('en-US');
+    })
+    .replace(/(\d)\s+percent\b/gi, '$1%');
+
+// --- Rule engine -----------------------------------------------------------
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const literalPattern = (find: string, caseSensitive?: boolean) => {
+  const start = /^\w/.test(find) ? '\\b' : '';
+  const end = /\w$/.test(find) ? '\\b' : '';
+  return new RegExp(`${start}${escapeRegExp(find)}${end}`, caseSensitive ? 'g' : 'gi');
+};
+
+export const applyRule = (text: string, rule: PostProcessingRule): string => {
+  if (!rule.enabled || validateRule(rule)) return text;
+  switch (rule.kind) {
+    case 'literal': return text.replace(literalPattern(rule.find!, rule.caseSensitive), () => rule.replace || '');
+    case 'regex': return text.replace(new RegExp(rule.find!, rule.caseSensitive ? 'g' : 'gi'), rule.replace || '');
+    case 'fillers': return removeFillers(text);
+    case 'numbers': return formatNumbers(text);
+  }
+};
+
+export const applyRules = (text: string, rules: PostProcessingRule[]): string =>
+  rules.reduce((result, rule) => applyRule(result, rule), text).replace(/\s{2,}/g, ' ').trim();
+
+/** Rewrites segment text only; word timings stay as Whisper heard them. */
+export const postProcessSegments = (segments: TranscriptionSegment[], rules: PostProcessingRule[] = getRules()): TranscriptionSegment[] => {
+  if (!rules.some(r => r.enabled)) return segments;
+  return segments
+    .map(segment => ({ ...segment, text: applyRules(segment.text, rules) }))
+    .filter(segment => segment.text.length > 0);
+};
+
+export interface RulePreview {
+  segmentId: string;
+  before: string;
+  after: string;
+}
+
+export const previewRules = (segments: TranscriptionSegment[], rules: PostProcessingRule[]): RulePreview[] =>
+  segments
+    .map(segment => ({ segmentId: segment.id, before: segment.text, after: applyRules(segment.text, rules) }))
+    .filter(preview => preview.before !== preview.after);
@@ -0,0 +1,64 @@
+import { CalendarEvent } from '../types';
+import { expandSchedule } from './calendarService';
+
+export interface MeetingAutomationSettings {
+  notify: boolean;
+  notifyMinutesBefore: number;
+  autoStart: boolean;
+  autoStop: boolean;
+}
+
+const SETTINGS_KEY = 'meeting_automation';
+// Opening the app halfway through a meeting shouldn't start recording it
+export const AUTO_START_WINDOW_MS = 5 * 60 * 1000;
+
+export const DEFAULT_AUTOMATION_SETTINGS: MeetingAutomationSettings = {
+  notify: false,
+  notifyMinutesBefore: 5,
+  autoStart: false,
+  autoStop: false
+};
+
+export const getAutomationSettings = (): MeetingAutomationSettings => ({
+  ...DEFAULT_AUTOMATION_SETTINGS,
+  ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}')
+});
+
+export const saveAutomationSettings = (settings: MeetingAutomationSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify({
+    ...settings,
+    notifyMinutesBefore: Math.min(120, Math.max(1, Math.round(settings.notifyMinutesBefore) || DEFAULT_AUTOMATION_SETTINGS.notifyMinutesBefore))
+  }));
+};
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+/** Resolves true when the browser will show notifications. */
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!notificationsSupported()) return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+/** Timed occurrences starting within the next `minutesBefore` minutes that haven't been announced yet. */
+export const dueReminders = (events: CalendarEvent[], now: number, minutesBefore: number, announced: Set<string>): CalendarEvent[] =>
+  expandSchedule(events, now, now + minutesBefore * 60000)
+    .filter(event => !event.allDay && event.start! > now && !announced.has(event.id));
+
+/** The occurrence that began within the auto-start window, if any. */
+export const eventToAutoStart = (events: CalendarEvent[], now: number, started: Set<string>): CalendarEvent | undefined =>
+  expandSchedule(events, now, now + 1)
+    .find(event => !event.allDay && event.start! <= now && now - event.start! < AUTO_START_WINDOW_MS && (event.end ?? 0) > now && !started.has(event.id));
+
+export const showReminder = (event: CalendarEvent, minutesAway: number) => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  const notification = new Notification(event.title, {
+    body: `Starts in ${minutesAway} min${event.location ? ` · ${event.location}` : ''}`,
+    tag: event.id
+  });
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+  };
+};
@@ -0,0 +1,400 @@
+import { ActionItem, Session } from '../types';
+import { speakerName } from './diarizationService';
+
+// In-memory inverted index over every segment in the library. It is built the
+// first time search or library chat needs it, so opening the app never reads
+// the whole library; after that sessions are (re)indexed one at a time as they
+// are saved, so nothing ever rescans the whole library on a keystroke.
+
+export interface SearchFilters {
+  from?: number;          // epoch ms, inclusive
+  to?: number;            // epoch ms, inclusive
+  speaker?: string;       // label or display name
+  hasActionItems?: boolean;
+}
+
+export interface SearchSnippet {
+  segmentId: string | null;   // null when the match is in the title
+  text: string;
+  highlights: [number, number][];
+}
+
+export interface SearchHit {
+  sessionId: string;
+  title: string;
+  timestamp: number;
+  score: number;
+  snippets: SearchSnippet[];
+}
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+interface IndexedDoc {
+  sessionId: string;
+  segmentId: string | null;
+  text: string;
+  tokens: Token[];
+}
+
+interface IndexedSession {
+  title: string;
+  timestamp: number;
+  speakers: Set<string>;       // lowercased labels and display names
+  speakerNames: string[];
+  docKeys: string[];
+}
+
+interface Clause {
+  terms: string[];
+  prefix: boolean;
+}
+
+const TITLE_BOOST = 3;
+const PHRASE_BOOST = 2;
+const MAX_SNIPPETS = 3;
+const SNIPPET_RADIUS = 90;
+
+const postings = new Map<string, Map<string, number[]>>();
+const docs = new Map<string, IndexedDoc>();
+const sessions = new Map<string, IndexedSession>();
+let sortedTerms: string[] | null = null;
+let sessionsWithActionItems = new Set<string>();
+
+let built: Promise<void> | null = null;
+// Saves and deletes that land while the library is being read, replayed once it is indexed
+let pendingChanges: Map<string, Session | null> | null = null;
+
+const normalize = (text: string) => text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+export const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  // Terms are normalized per match so offsets still point into the original text
+  const pattern = /[\p{L}\p{N}]+(?:'[\p{L}]+)?/gu;
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index!;
+    tokens.push({ term: normalize(match[0]), start, end: start + match[0].length });
+  }
+  return tokens;
+};
+
+const addDoc = (key: string, doc: IndexedDoc) => {
+  docs.set(key, doc);
+  doc.tokens.forEach((token, position) => {
+    let list = postings.get(token.term);
+    if (!list) {
+      list = new Map();
+      postings.set(token.term, list);
+      sortedTerms = null;
+    }
+    const positions = list.get(key) || [];
+    positions.push(position);
+    list.set(key, positions);
+  });
+};
+
+const dropSession = (sessionId: string) => {
+  const entry = sessions.get(sessionId);
+  if (!entry) return;
+  entry.docKeys.forEach(key => {
+    docs.get(key)?.tokens.forEach(({ term }) => {
+      const list = postings.get(term);
+      list?.delete(key);
+      if (list && list.size === 0) {
+        postings.delete(term);
+        sortedTerms = null;
+      }
+    });
+    docs.delete(key);
+  });
+  sessions.delete(sessionId);
+};
+
+const addSession = (session: Session) => {
+  dropSession(session.id);
+  const docKeys: string[] = [];
+  const titleKey = `${session.id}|title`;
+  addDoc(titleKey, { sessionId: session.id, segmentId: null, text: session.title, tokens: tokenize(session.title) });
+  docKeys.push(titleKey);
+
+  session.segments.forEach(segment => {
+    const key = `${session.id}|${segment.id}`;
+    addDoc(key, { sessionId: session.id, segmentId: segment.id, text: segment.text, tokens: tokenize(segment.text) });
+    docKeys.push(key);
+  });
+
+  const speakerNames = Array.from(new Set(session.segments.map(s => speakerName(s.speaker, session.speakerNames))));
+  const speakers = new Set<string>([
+    ...session.segments.map(s => s.speaker.toLowerCase()),
+    ...speakerNames.map(name => name.toLowerCase())
+  ]);
+
+  sessions.set(session.id, {
+    title: session.title,
+    timestamp: session.timestamp,
+    speakers,
+    speakerNames,
+    docKeys
+  });
+};
+
+const clearIndex = () => {
+  postings.clear();
+  docs.clear();
+  sessions.clear();
+  sortedTerms = null;
+};
+
+/** Before the index is built a save needs no work: the build reads it from storage. */
+export const indexSession = (session: Session) => {
+  if (pendingChanges) pendingChanges.set(session.id, session);
+  else if (built) addSession(session);
+};
+
+export const removeSessionFromIndex = (sessionId: string) => {
+  if (pendingChanges) pendingChanges.set(sessionId, null);
+  else if (built) dropSession(sessionId);
+};
+
+export const isSearchIndexBuilt = () => built !== null && pendingChanges === null;
+
+/** Reads the whole library once, the first time it's called. */
+export const ensureSearchIndex = (load: () => Promise<Session[]>): Promise<void> => {
+  if (!built) {
+    const changes = new Map<string, Session | null>();
+    pendingChanges = changes;
+    const build: Promise<void> = load().then(all => {
+      if (built !== build) return;
+      clearIndex();
+      all.forEach(addSession);
+      changes.forEach((session, id) => session ? addSession(session) : dropSession(id));
+      pendingChanges = null;
+    });
+    built = build;
+    build.catch(() => {
+      if (built !== build) return;
+      built = null;
+      pendingChanges = null;
+    });
+  }
+  return built;
+};
+
+/** Forgets the index after the library was replaced; the next search rebuilds it. */
+export const resetSearchIndex = () => {
+  built = null;
+  pendingChanges = null;
+  clearIndex();
+};
+
+/** The "has action items" filter follows the tracked items, not the summary text. */
+export const setTrackedActionItems = (items: ActionItem[]) => {
+  sessionsWithActionItems = new Set(items.map(item => item.sessionId));
+};
+
+/**
+ * Quoted text is a phrase, a trailing `*` marks a prefix, and the last bare
+ * word is always treated as a prefix so results update while typing.
+ */
+export const parseQuery = (query: string): Clause[] => {
+  const clauses: Clause[] = [];
+  const pattern = /"([^"]*)"?|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(query))) {
+    if (match[1] !== undefined) {
+      const terms = tokenize(match[1]).map(t => t.term);
+      if (terms.length > 0) clauses.push({ terms, prefix: false });
+    } else {
+      const terms = tokenize(match[2]).map(t => t.term);
+      terms.forEach((term, i) => clauses.push({ terms: [term], prefix: match![2].endsWith('*') && i === terms.length - 1 }));
+    }
+  }
+  const last = clauses[clauses.length - 1];
+  if (last && last.terms.length === 1 && !/"\s*$/.test(query) && !/\s$/.test(query)) last.prefix = true;
+  return clauses;
+};
+
+const expandPrefix = (prefix: string): string[] => {
+  if (!sortedTerms) sortedTerms = Array.from(postings.keys()).sort();
+  let lo = 0;
+  let hi = sortedTerms.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (sortedTerms[mid] < prefix) lo = mid + 1;
+    else hi = mid;
+  }
+  const matches: string[] = [];
+  for (let i = lo; i < sortedTerms.length && sortedTerms[i].startsWith(prefix); i++) matches.push(sortedTerms[i]);
+  return matches;
+};
+
+const idf = (term: string) => Math.log(1 + docs.size / ((postings.get(term)?.size || 0) + 1));
+
+/** Doc key -> matched token positions and score for one clause. */
+const matchClause = (clause: Clause): Map<string, { positions: number[]; score: number }> => {
+  const result = new Map<string, { positions: number[]; score: number }>();
+
+  if (clause.terms.length === 1) {
+    const terms = clause.prefix ? expandPrefix(clause.terms[0]) : [clause.terms[0]];
+    terms.forEach(term => {
+      const weight = idf(term) * (term === clause.terms[0] ? 1 : 0.7);
+      postings.get(term)?.forEach((positions, key) => {
+        const entry = result.get(key) || { positions: [], score: 0 };
+        entry.positions.push(...positions);
+        entry.score += weight * positions.length;
+        result.set(key, entry);
+      });
+    });
+    return result;
+  }
+
+  // Phrase: every term must appear at consecutive positions
+  const [first, ...rest] = clause.terms;
+  postings.get(first)?.forEach((starts, key) => {
+    const hits: number[] = [];
+    starts.forEach(start => {
+      if (rest.every((term, i) => postings.get(term)?.get(key)?.includes(start + i + 1))) {
+        hits.push(...clause.terms.map((_, i) => start + i));
+      }
+    });
+    if (hits.length > 0) {
+      const weight = clause.terms.reduce((sum, term) => sum + idf(term), 0) * PHRASE_BOOST;
+      result.set(key, { positions: hits, score: weight * (hits.length / clause.terms.length) });
+    }
+  });
+  return result;
+};
+
+const buildSnippet = (doc: IndexedDoc, positions: number[]): SearchSnippet => {
+  const unique = Array.from(new Set(positions)).sort((a, b) => a - b);
+  const ranges = unique.map(p => [doc.tokens[p].start, doc.tokens[p].end] as [number, number]);
+  const from = Math.max(0, ranges[0][0] - SNIPPET_RADIUS);
+  const to = Math.min(doc.text.length, ranges[ranges.length - 1][1] + SNIPPET_RADIUS);
+  const lead = from > 0 ? '…' : '';
+  return {
+    segmentId: doc.segmentId,
+    text: `${lead}${doc.text.slice(from, to)}${to < doc.text.length ? '…' : ''}`,
+    highlights: ranges.filter(([, end]) => end <= to).map(([s, e]) => [s - from + lead.length, e - from + lead.length])
+  };
+};
+
+const passesFilters = (sessionId: string, entry: IndexedSession, filters: SearchFilters) => {
+  if (filters.from !== undefined && entry.timestamp < filters.from) return false;
+  if (filters.to !== undefined && entry.timestamp > filters.to) return false;
+  if (filters.speaker && !entry.speakers.has(filters.speaker.toLowerCase())) return false;
+  if (filters.hasActionItems && !sessionsWithActionItems.has(sessionId)) return false;
+  return true;
+};
+
+export const searchSessions = (query: string, filters: SearchFilters = {}): SearchHit[] => {
+  const clauses = parseQuery(query);
+
+  if (clauses.length === 0) {
+    return Array.from(sessions.entries())
+      .filter(([sessionId, entry]) => passesFilters(sessionId, entry, filters))
+      .map(([sessionId, entry]) => ({ sessionId, title: entry.title, timestamp: entry.timestamp, score: 0, snippets: [] }))
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  // Every clause has to match somewhere in the session, not necessarily in the same segment
+  const perSession = new Map<string, Map<string, { positions: number[]; score: number }>>();
+  const matchedClauses = new Map<string, number>();
+  clauses.forEach(clause => {
+    const seen = new Set<string>();
+    matchClause(clause).forEach((match, key) => {
+      const sessionId = docs.get(key)!.sessionId;
+      seen.add(sessionId);
+      const sessionDocs = perSession.get(sessionId) || new Map();
+      const entry = sessionDocs.get(key) || { positions: [], score: 0 };
+      entry.positions.push(...match.positions);
+      entry.score += match.score;
+      sessionDocs.set(key, entry);
+      perSession.set(sessionId, sessionDocs);
+    });
+    seen.forEach(id => matchedClauses.set(id, (matchedClauses.get(id) || 0) + 1));
+  });
+
+  const hits: SearchHit[] = [];
+  perSession.forEach((sessionDocs, sessionId) => {
+    const entry = sessions.get(sessionId);
+    if (!entry || matchedClauses.get(sessionId) !== clauses.length || !passesFilters(sessionId, entry, filters)) return;
+
+    const ranked = Array.from(sessionDocs.entries())
+      .map(([key, match]) => {
+        const doc = docs.get(key)!;
+        const lengthNorm = 1 / Math.sqrt(Math.max(doc.tokens.length, 1));
+        return { doc, match, score: match.score * lengthNorm * (doc.segmentId === null ? TITLE_BOOST : 1) };
+      })
+      .sort((a, b) => b.score - a.score);
+
+    hits.push({
+      sessionId,
+      title: entry.title,
+      timestamp: entry.timestamp,
+      score: ranked.reduce((sum, r) => sum + r.score, 0),
+      snippets: ranked.filter(r => r.doc.segmentId !== null).slice(0, MAX_SNIPPETS).map(r => buildSnippet(r.doc, r.match.positions))
+    });
+  });
+
+  return hits.sort((a, b) => b.score - a.score || b.timestamp - a.timestamp);
+};
+
+export const indexedSpeakers = (): string[] => {
+  const all = new Set<string>();
+  sessions.forEach(entry => entry.speakerNames.forEach(s => all.add(s)));
+  return Array.from(all).sort();
+};
+
+export interface SegmentMatch {
+  sessionId: string;
+  sessionTitle: string;
+  segmentId: string;
+  text: string;
+  score: number;
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'did', 'do', 'does', 'for', 'from', 'how', 'i', 'in', 'is', 'it',
+  'of', 'on', 'or', 'our', 'that', 'the', 'to', 'us', 'was', 'we', 'were', 'what', 'when', 'where', 'which',
+  'who', 'why', 'with', 'you'
+]);
+
+/**
+ * Loose retrieval for question answering: any query word may match, and
+ * segments are ranked by how many distinct words they share with the question.
+ */
+export const searchSegments = (question: string, limit = 20): SegmentMatch[] => {
+  const terms = Array.from(new Set(tokenize(question).map(t => t.term).filter(t => !STOPWORDS.has(t))));
+  const scores = new Map<string, { score: number; matched: number }>();
+
+  terms.forEach(term => {
+    const expanded = term.length >= 4 ? expandPrefix(term) : [term];
+    const seen = new Set<string>();
+    expanded.forEach(candidate => {
+      const weight = idf(candidate) * (candidate === term ? 1 : 0.7);
+      postings.get(candidate)?.forEach((positions, key) => {
+        const entry = scores.get(key) || { score: 0, matched: 0 };
+        entry.score += weight * Math.min(positions.length, 3);
+        if (!seen.has(key)) entry.matched += 1;
+        seen.add(key);
+        scores.set(key, entry);
+      });
+    });
+  });
+
+  return Array.from(scores.entries())
+    .map(([key, { score, matched }]) => ({ doc: docs.get(key)!, score: score * matched }))
+    .filter(({ doc }) => doc.segmentId !== null)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ doc, score }) => ({
+      sessionId: doc.sessionId,
+      sessionTitle: sessions.get(doc.sessionId)?.title || '',
+      segmentId: doc.segmentId!,
+      text: doc.text,
+      score
+    }));
+};
@@ -0,0 +1,119 @@
+import { Session } from '../types';
+import { STORES, openDatabase, withStore, isQuotaError } from './database';
+import { sealRecord, openRecord } from './vaultService';
+
+// Sessions used to be one JSON array under this localStorage key; they are
+// copied into IndexedDB the first time the library is opened.
+const LEGACY_SESSIONS_KEY = 'transcribe_sessions';
+const MIGRATION_FLAG_KEY = 'sessions_migrated_to_idb';
+// Deleted session ids -> deletion time, so a backup or sync doesn't bring them back
+const TOMBSTONES_KEY = 'session_tombstones';
+
+export const SESSION_PAGE_SIZE = 50;
+
+export class StorageQuotaError extends Error {
+  constructor() {
+    super("Browser storage is full. Delete or export older sessions to keep saving.");
+    this.name = 'StorageQuotaError';
+  }
+}
+
+const write = async <T>(run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  try {
+    return await withStore(STORES.sessions, 'readwrite', run);
+  } catch (err) {
+    if (isQuotaError(err)) throw new StorageQuotaError();
+    throw err;
+  }
+};
+
+const migrateLegacySessions = async (): Promise<void> => {
+  if (localStorage.getItem(MIGRATION_FLAG_KEY)) return;
+  const raw = localStorage.getItem(LEGACY_SESSIONS_KEY);
+  const legacy: Session[] = raw ? JSON.parse(raw) : [];
+
+  if (legacy.length > 0) {
+    const db = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORES.sessions, 'readwrite');
+      const store = tx.objectStore(STORES.sessions);
+      legacy.forEach(session => store.put(session));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(isQuotaError(tx.error) ? new StorageQuotaError() : tx.error);
+      tx.onabort = () => reject(isQuotaError(tx.error) ? new StorageQuotaError() : tx.error);
+    });
+  }
+  localStorage.setItem(MIGRATION_FLAG_KEY, new Date().toISOString());
+  localStorage.removeItem(LEGACY_SESSIONS_KEY);
+};
+
+let migration: Promise<void> | null = null;
+const ready = () => {
+  if (!migration) {
+    migration = migrateLegacySessions().catch(err => {
+      migration = null;
+      throw err;
+    });
+  }
+  return migration;
+};
+
+/** Newest-first page of sessions, optionally starting below a timestamp. */
+export const getSessions = async ({ limit = SESSION_PAGE_SIZE, before }: { limit?: number; before?: number } = {}): Promise<Session[]> => {
+  await ready();
+  const db = await openDatabase();
+  const records = await new Promise<unknown[]>((resolve, reject) => {
+    const sessions: unknown[] = [];
+    const range = before !== undefined ? IDBKeyRange.upperBound(before, true) : undefined;
+    const request = db.transaction(STORES.sessions, 'readonly')
+      .objectStore(STORES.sessions)
+      .index('timestamp')
+      .openCursor(range, 'prev');
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || sessions.length >= limit) {
+        resolve(sessions);
+        return;
+      }
+      sessions.push(cursor.value);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+  return Promise.all(records.map(record => openRecord<Session>(record)));
+};
+
+/** Sessions that started within [from, to), oldest first. */
+export const getSessionsBetween = async (from: number, to: number): Promise<Session[]> => {
+  await ready();
+  const records = await withStore<unknown[]>(STORES.sessions, 'readonly', store =>
+    store.index('timestamp').getAll(IDBKeyRange.bound(from, to, false, true))
+  );
+  return Promise.all(records.map(record => openRecord<Session>(record)));
+};
+
+export const getSession = async (id: string): Promise<Session | null> => {
+  await ready();
+  const record = await withStore<unknown>(STORES.sessions, 'readonly', store => store.get(id));
+  return record ? openRecord<Session>(record) : null;
+};
+
+export const getTombstones = (): Record<string, number> => JSON.parse(localStorage.getItem(TOMBSTONES_KEY) || '{}');
+
+export const saveTombstones = (tombstones: Record<string, number>) => {
+  localStorage.setItem(TOMBSTONES_KEY, JSON.stringify(tombstones));
+};
+
+/** Stamps updatedAt unless `touch` is false, which imports use to keep the writer's time. */
+export const saveSession = async (session: Session, { touch = true }: { touch?: boolean } = {}): Promise<void> => {
+  await ready();
+  const record = await sealRecord(STORES.sessions, touch ? { ...session, updatedAt: Date.now() } : session);
+  await write(store => store.put(record));
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await ready();
+  await write(store => store.delete(id));
+  saveTombstones({ ...getTombstones(), [id]: Date.now() });
+};
@@ -0,0 +1,225 @@
+import { getSessions } from './storageService';
+import { buildArchive, parseArchive, planImport, applyImport, ImportResult } from './backupService';
+import { getSecret, setSecret, isVaultEnabled, sealForSync, openFromSync } from './vaultService';
+
+// Sync keeps one workspace archive on a WebDAV folder or an S3-compatible
+// bucket. Each pass merges the remote copy in, then uploads the result with a
+// conditional write so two devices syncing at once can't overwrite each other.
+
+export type SyncBackend = 'webdav' | 's3';
+
+export interface SyncSettings {
+  backend: SyncBackend;
+  url: string;          // WebDAV folder URL, or the S3 endpoint
+  bucket: string;       // S3 only
+  region: string;       // S3 only
+  username: string;     // WebDAV user, or S3 access key id
+  password: string;     // WebDAV password, or S3 secret key
+  fileName: string;
+  autoSync: boolean;
+  lastSyncedAt?: number;
+  lastError?: string;
+}
+
+export interface SyncResult extends ImportResult {
+  conflicts: number;
+  syncedAt: number;
+}
+
+const SETTINGS_KEY = 'sync_settings';
+const MAX_ATTEMPTS = 3;
+export const SYNC_INTERVAL_MS = 15 * 60 * 1000;
+
+export const getSyncSettings = (): SyncSettings => ({
+  backend: 'webdav',
+  url: '',
+  bucket: '',
+  region: 'us-east-1',
+  username: '',
+  fileName: 'transcribeai-workspace.json',
+  autoSync: false,
+  ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}'),
+  password: getSecret('sync')
+});
+
+export const saveSyncSettings = ({ password, ...settings }: SyncSettings) => {
+  setSecret('sync', password);
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify({
+    ...settings,
+    url: settings.url.trim().replace(/\/+$/, ''),
+    bucket: settings.bucket.trim(),
+    region: settings.region.trim() || 'us-east-1',
+    username: settings.username.trim(),
+    fileName: settings.fileName.trim().replace(/^\/+/, '') || 'transcribeai-workspace.json'
+  }));
+};
+
+export const isSyncConfigured = (settings: SyncSettings) =>
+  Boolean(settings.url && (settings.backend === 'webdav' || (settings.bucket && settings.username && settings.password)));
+
+export class SyncConflictError extends Error {
+  constructor() {
+    super("The remote workspace changed while syncing.");
+    this.name = 'SyncConflictError';
+  }
+}
+
+export class SyncEncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncEncryptionError';
+  }
+}
+
+// With the vault on, the remote copy is sealed with the passphrase so the
+// server only ever stores ciphertext.
+const SEALED_FORMAT = 'transcribeai-workspace-sealed';
+
+const encodeRemote = async (archiveJson: string) => {
+  const data = await sealForSync(archiveJson);
+  if (!data) return archiveJson;
+  return JSON.stringify({ format: SEALED_FORMAT, version: 1, data });
+};
+
+const decodeRemote = async (body: string) => {
+  let envelope: { format?: string; data?: string } | null = null;
+  try {
+    envelope = JSON.parse(body);
+  } catch {
+    return body;   // parseArchive reports the format problem
+  }
+  if (envelope?.format !== SEALED_FORMAT) return body;
+  if (!isVaultEnabled()) {
+    throw new SyncEncryptionError("The synced workspace is encrypted. Turn on the encrypted vault with the same passphrase to sync this device.");
+  }
+  const text = await openFromSync(String(envelope.data || ''));
+  if (text === null) throw new SyncEncryptionError("The synced workspace was encrypted with a different passphrase.");
+  return text;
+};
+
+interface RemoteFile {
+  body: string;
+  etag?: string;
+}
+
+interface RemoteStore {
+  read: () => Promise<RemoteFile | null>;
+  write: (body: string, etag?: string) => Promise<void>;
+}
+
+const encoder = new TextEncoder();
+
+const hex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+// Create only when absent, replace only what we read
+const conditionalHeaders = (etag?: string): Record<string, string> => etag ? { 'If-Match': etag } : { 'If-None-Match': '*' };
+
+const checkWrite = (response: Response, backend: string) => {
+  if (response.status === 412) throw new SyncConflictError();
+  if (!response.ok) throw new Error(`${backend} upload failed (${response.status}).`);
+};
+
+const createWebDavStore = (settings: SyncSettings): RemoteStore => {
+  const url = `${settings.url}/${settings.fileName.split('/').map(encodeURIComponent).join('/')}`;
+  const auth: Record<string, string> = settings.username
+    ? { Authorization: `Basic ${btoa(String.fromCharCode(...encoder.encode(`${settings.username}:${settings.password}`)))}` }
+    : {};
+  return {
+    read: async () => {
+      const response = await fetch(url, { headers: auth, cache: 'no-store' });
+      if (response.status === 404) return null;
+      if (!response.ok) throw new Error(`WebDAV download failed (${response.status}).`);
+      return { body: await response.text(), etag: response.headers.get('ETag') || undefined };
+    },
+    write: async (body, etag) => {
+      const response = await fetch(url, {
+        method: 'PUT',
+        headers: { ...auth, ...conditionalHeaders(etag), 'Content-Type': 'application/json' },
+        body
+      });
+      checkWrite(response, 'WebDAV');
+    }
+  };
+};
+
+// --- S3 Signature V4 -----------------------------------------------------------
+
+const sha256 = async (text: string) => hex(await crypto.subtle.digest('SHA-256', encoder.encode(text)));
+
+const hmac = async (key: BufferSource, text: string) => {
+  const imported = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return crypto.subtle.sign('HMAC', imported, encoder.encode(text));
+};
+
+const uriEncode = (segment: string) =>
+  encodeURIComponent(segment).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+/** Path-style request signing, which MinIO, R2, B2 and AWS all accept. */
+const signS3 = async (settings: SyncSettings, method: string, url: URL, payloadHash: string, extra: Record<string, string>) => {
+  const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const day = amzDate.slice(0, 8);
+  const signed: Record<string, string> = { host: url.host, 'x-amz-content-sha256': payloadHash, 'x-amz-date': amzDate };
+  Object.entries(extra).forEach(([name, value]) => { signed[name.toLowerCase()] = value; });
+  const names = Object.keys(signed).sort();
+  const canonical = [method, url.pathname, '', ...names.map(name => `${name}:${signed[name].trim()}`), '', names.join(';'), payloadHash].join('\n');
+  const scope = `${day}/${settings.region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, await sha256(canonical)].join('\n');
+
+  let key = await hmac(encoder.encode(`AWS4${settings.password}`), day);
+  for (const part of [settings.region, 's3', 'aws4_request']) key = await hmac(key, part);
+  const { host, ...headers } = signed;
+  return {
+    ...headers,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${settings.username}/${scope}, SignedHeaders=${names.join(';')}, Signature=${hex(await hmac(key, stringToSign))}`
+  };
+};
+
+const createS3Store = (settings: SyncSettings): RemoteStore => {
+  const url = new URL(`${settings.url}/${uriEncode(settings.bucket)}/${settings.fileName.split('/').map(uriEncode).join('/')}`);
+  return {
+    read: async () => {
+      const headers = await signS3(settings, 'GET', url, await sha256(''), {});
+      const response = await fetch(url, { headers, cache: 'no-store' });
+      if (response.status === 404) return null;
+      if (!response.ok) throw new Error(`S3 download failed (${response.status}).`);
+      return { body: await response.text(), etag: response.headers.get('ETag') || undefined };
+    },
+    write: async (body, etag) => {
+      const headers = await signS3(settings, 'PUT', url, await sha256(body), { ...conditionalHeaders(etag), 'Content-Type': 'application/json' });
+      checkWrite(await fetch(url, { method: 'PUT', headers, body }), 'S3');
+    }
+  };
+};
+
+const createRemoteStore = (settings: SyncSettings): RemoteStore =>
+  settings.backend === 's3' ? createS3Store(settings) : createWebDavStore(settings);
+
+/**
+ * Sessions both sides changed since the last sync are kept twice: the local
+ * copy plus a "conflicted copy" of the remote one, so sync never drops edits.
+ */
+export const syncWorkspace = async (settings: SyncSettings): Promise<SyncResult> => {
+  const remote = createRemoteStore(settings);
+  const syncedAt = Date.now();
+  const result: SyncResult = { added: 0, updated: 0, removed: 0, copies: 0, conflicts: 0, syncedAt };
+
+  for (let attempt = 1; ; attempt++) {
+    const current = await remote.read();
+    if (current) {
+      const plan = planImport(parseArchive(await decodeRemote(current.body)), await getSessions({ limit: Infinity }), { sync: true, since: settings.lastSyncedAt });
+      const merged = await applyImport(plan, { strategy: 'both' });
+      result.added += merged.added;
+      result.updated += merged.updated;
+      result.removed += merged.removed;
+      result.copies += merged.copies;
+      result.conflicts += plan.conflicts.length;
+    }
+    try {
+      await remote.write(await encodeRemote(JSON.stringify(await buildArchive())), current?.etag);
+      return result;
+    } catch (err) {
+      // Another device uploaded in between: merge its copy as well, then retry
+      if (!(err instanceof SyncConflictError) || attempt >= MAX_ATTEMPTS) throw err;
+    }
+  }
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { Session, TranscriptionSegment } from '../types';
+import {
+  diffSegments,
+  editSegmentText,
+  insertTranscribedSegments,
+  mergeWithNext,
+  recordRevision,
+  restoreOriginal,
+  revertToRevision,
+  splitSegment,
+  undoRevision
+} from './transcriptEditService';
+
+const segment = (id: string, timestamp: number, text = `line ${id}`): TranscriptionSegment => ({ id, text, speaker: 'Speaker 1', timestamp });
+
+const session = (...segments: TranscriptionSegment[]): Session => ({ id: 's', title: 'Standup', timestamp: 0, segments });
+
+const texts = (s: Session) => s.segments.map(seg => seg.text);
+
+const edit = (s: Session, change: (segments: TranscriptionSegment[]) => TranscriptionSegment[]) =>
+  recordRevision(s, 'edit', change(s.segments));
+
+describe('diffSegments', () => {
+  it('keeps only the replaced segments, anchored to the one before them', () => {
+    const before = [segment('a', 1), segment('b', 2), segment('c', 3)];
+    const after = editSegmentText(before, 'b', 'fixed');
+    expect(diffSegments(before, after)).toEqual({ after: 'a', removed: [before[1]], inserted: ['b'] });
+  });
+
+  it('anchors a change at the start to null', () => {
+    const before = [segment('a', 1), segment('b', 2)];
+    expect(diffSegments(before, before.slice(1))).toEqual({ after: null, removed: [before[0]], inserted: [] });
+  });
+});
+
+describe('undoRevision', () => {
+  it('puts merged segments back in place of the merge', () => {
+    const before = [segment('a', 1), segment('b', 2), segment('c', 3)];
+    const after = mergeWithNext(before, 'a');
+    expect(undoRevision(after, { id: 'r', createdAt: 0, description: '', splice: diffSegments(before, after) })).toEqual(before);
+  });
+
+  it('returns legacy full snapshots as they are', () => {
+    const snapshot = [segment('x', 1)];
+    expect(undoRevision([segment('a', 1)], { id: 'r', createdAt: 0, description: '', segments: snapshot })).toBe(snapshot);
+  });
+});
+
+describe('revertToRevision', () => {
+  it('steps back through every later revision', () => {
+    let s = session(segment('a', 1), segment('b', 2), segment('c', 3));
+    s = edit(s, segs => editSegmentText(segs, 'a', 'first'));
+    s = edit(s, segs => splitSegment(segs, 'b', 4));
+    s = edit(s, segs => mergeWithNext(segs, 'c'));
+    expect(texts(revertToRevision(s, s.revisions![1].id))).toEqual(['first', 'line b', 'line c']);
+    expect(texts(revertToRevision(s, s.revisions![0].id))).toEqual(['line a', 'line b', 'line c']);
+  });
+
+  it('keeps segments inserted after the edit and restores the rest in place', () => {
+    let s = session(segment('a', 10), segment('b', 20), segment('d', 40));
+    s = edit(s, segs => mergeWithNext(segs, 'a'));
+    s = edit(s, segs => editSegmentText(segs, 'd', 'last'));
+    // A retried chunk lands in the middle, and a live chunk at the end
+    s = insertTranscribedSegments(s, [segment('c', 30), segment('e', 50)]);
+    s = insertTranscribedSegments(s, [segment('f', 5)]);
+
+    expect(texts(revertToRevision(s, s.revisions![1].id))).toEqual(['line f', 'line a line b', 'line c', 'line d', 'line e']);
+    expect(texts(revertToRevision(s, s.revisions![0].id))).toEqual(['line f', 'line a', 'line b', 'line c', 'line d', 'line e']);
+  });
+
+  it('puts a deleted segment back after its anchor', () => {
+    let s = session(segment('a', 10), segment('b', 20));
+    s = recordRevision(s, 'delete', s.segments.filter(seg => seg.id !== 'b'));
+    s = insertTranscribedSegments(s, [segment('c', 30)]);
+    expect(texts(revertToRevision(s, s.revisions![0].id))).toEqual(['line a', 'line b', 'line c']);
+  });
+});
+
+describe('restoreOriginal', () => {
+  it('keeps segments transcribed after the first edit', () => {
+    let s = session(segment('a', 10), segment('c', 30));
+    s = edit(s, segs => editSegmentText(segs, 'a', 'edited'));
+    s = insertTranscribedSegments(s, [segment('b', 20)]);
+    expect(texts(restoreOriginal(s))).toEqual(['line a', 'line b', 'line c']);
+  });
+});
@@ -0,0 +1,167 @@
+import { Session, TranscriptionSegment, TranscriptRevision, TranscriptSplice, WordTiming } from '../types';
+
+// Older revisions are dropped past this; the original transcript is kept regardless
+const MAX_REVISIONS = 50;
+
+export interface FindOptions {
+  caseSensitive?: boolean;
+  wholeWord?: boolean;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const findPattern = (query: string, { caseSensitive, wholeWord }: FindOptions) =>
+  new RegExp(wholeWord ? `\\b${escapeRegExp(query)}\\b` : escapeRegExp(query), caseSensitive ? 'g' : 'gi');
+
+/** Word timings no longer line up once the text has been changed by hand. */
+const withText = (segment: TranscriptionSegment, text: string): TranscriptionSegment => {
+  const { words, ...rest } = segment;
+  return { ...rest, text };
+};
+
+export const editSegmentText = (segments: TranscriptionSegment[], id: string, text: string): TranscriptionSegment[] => {
+  const index = segments.findIndex(s => s.id === id);
+  if (index < 0 || segments[index].text === text) return segments;
+  return segments.map((s, i) => i === index ? withText(s, text) : s);
+};
+
+/** Splits a segment at a character offset. The first half keeps the id so links into the transcript survive. */
+export const splitSegment = (segments: TranscriptionSegment[], id: string, offset: number): TranscriptionSegment[] => {
+  const index = segments.findIndex(s => s.id === id);
+  const segment = segments[index];
+  if (!segment) return segments;
+  const head = segment.text.slice(0, offset).trim();
+  const tail = segment.text.slice(offset).trim();
+  if (!head || !tail) return segments;
+
+  let splitMs: number | undefined;
+  let headWords: WordTiming[] | undefined;
+  let tailWords: WordTiming[] | undefined;
+  if (segment.words?.length) {
+    const headWordCount = head.split(/\s+/).length;
+    headWords = segment.words.slice(0, headWordCount);
+    tailWords = segment.words.slice(headWordCount);
+    splitMs = tailWords[0]?.startMs;
+  }
+  if (splitMs === undefined && segment.startMs !== undefined && segment.endMs !== undefined) {
+    splitMs = segment.startMs + Math.round((segment.endMs - segment.startMs) * (offset / segment.text.length));
+  }
+
+  const first: TranscriptionSegment = { ...segment, text: head, endMs: splitMs ?? segment.endMs, words: headWords };
+  const second: TranscriptionSegment = {
+    ...segment,
+    id: `${segment.id}-${Date.now()}`,
+    text: tail,
+    startMs: splitMs ?? segment.startMs,
+    // Wall-clock timestamps follow the audio offset when there is one
+    timestamp: splitMs !== undefined && segment.startMs !== undefined ? segment.timestamp + (splitMs - segment.startMs) : segment.timestamp,
+    words: tailWords
+  };
+  if (!first.words?.length) delete first.words;
+  if (!second.words?.length) delete second.words;
+  return [...segments.slice(0, index), first, second, ...segments.slice(index + 1)];
+};
+
+export const mergeWithNext = (segments: TranscriptionSegment[], id: string): TranscriptionSegment[] => {
+  const index = segments.findIndex(s => s.id === id);
+  const segment = segments[index];
+  const next = segments[index + 1];
+  if (!segment || !next) return segments;
+  const merged: TranscriptionSegment = {
+    ...segment,
+    text: `${segment.text} ${next.text}`.trim(),
+    endMs: next.endMs ?? segment.endMs,
+    ...(segment.words && next.words ? { words: [...segment.words, ...next.words] } : {})
+  };
+  if (!(segment.words && next.words)) delete merged.words;
+  return [...segments.slice(0, index), merged, ...segments.slice(index + 2)];
+};
+
+export const countMatches = (segments: TranscriptionSegment[], query: string, options: FindOptions = {}): number => {
+  if (!query) return 0;
+  const pattern = findPattern(query, options);
+  return segments.reduce((total, s) => total + (s.text.match(pattern)?.length || 0), 0);
+};
+
+export const replaceAll = (segments: TranscriptionSegment[], query: string, replacement: string, options: FindOptions = {}): { segments: TranscriptionSegment[]; count: number } => {
+  if (!query) return { segments, count: 0 };
+  const pattern = findPattern(query, options);
+  let count = 0;
+  const next = segments.map(segment => {
+    const matches = segment.text.match(pattern)?.length || 0;
+    if (matches === 0) return segment;
+    count += matches;
+    return withText(segment, segment.text.replace(pattern, () => replacement));
+  });
+  return { segments: next, count };
+};
+
+const sameSegment = (a: TranscriptionSegment, b: TranscriptionSegment) =>
+  a === b || (
+    a.id === b.id && a.text === b.text && a.speaker === b.speaker && a.timestamp === b.timestamp &&
+    a.startMs === b.startMs && a.endMs === b.endMs && a.words === b.words
+  );
+
+/** Edits only create new objects for the segments they touch, so the unchanged ends are trimmed off. */
+export const diffSegments = (before: TranscriptionSegment[], after: TranscriptionSegment[]): TranscriptSplice => {
+  let start = 0;
+  while (start < before.length && start < after.length && sameSegment(before[start], after[start])) start++;
+  let end = 0;
+  while (
+    end < before.length - start && end < after.length - start &&
+    sameSegment(before[before.length - 1 - end], after[after.length - 1 - end])
+  ) end++;
+  return {
+    after: start > 0 ? before[start - 1].id : null,
+    removed: before.slice(start, before.length - end),
+    inserted: after.slice(start, after.length - end).map(s => s.id)
+  };
+};
+
+/** Puts the replaced segments back where the edit's own segments are, or after the anchor for a pure deletion. */
+export const undoRevision = (segments: TranscriptionSegment[], revision: TranscriptRevision): TranscriptionSegment[] => {
+  if (revision.segments) return revision.segments;
+  const { after, removed, inserted } = revision.splice!;
+  const ids = new Set(inserted);
+  const first = segments.findIndex(s => ids.has(s.id));
+  const kept = segments.filter(s => !ids.has(s.id));
+  const anchor = after === null ? -1 : kept.findIndex(s => s.id === after);
+  const at = first >= 0 ? first : anchor >= 0 || after === null ? anchor + 1 : kept.length;
+  return [...kept.slice(0, at), ...removed, ...kept.slice(at)];
+};
+
+/** Applies an edit, keeping only the segments it replaced so it can be reverted. */
+export const recordRevision = (session: Session, description: string, segments: TranscriptionSegment[]): Session => ({
+  ...session,
+  originalSegments: session.originalSegments || session.segments,
+  revisions: [
+    ...(session.revisions || []),
+    { id: `rev-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, createdAt: Date.now(), description, splice: diffSegments(session.segments, segments) }
+  ].slice(-MAX_REVISIONS),
+  segments
+});
+
+/** Restores the transcript as it was before the given revision; the revert itself is recorded too. */
+export const revertToRevision = (session: Session, revisionId: string): Session => {
+  const revisions = session.revisions || [];
+  const index = revisions.findIndex(r => r.id === revisionId);
+  if (index < 0) return session;
+  // Each revision only knows how to undo itself, so step back from the newest one
+  const restored = revisions.slice(index).reduceRight(undoRevision, session.segments);
+  return recordRevision(session, `Reverted to before "${revisions[index].description}"`, restored);
+};
+
+const byTime = (a: TranscriptionSegment, b: TranscriptionSegment) => a.timestamp - b.timestamp;
+
+/**
+ * Adds freshly transcribed segments in time order. They go into the machine
+ * transcript too, so restoring it after an edit doesn't drop them.
+ */
+export const insertTranscribedSegments = (session: Session, segments: TranscriptionSegment[]): Session => ({
+  ...session,
+  segments: [...session.segments, ...segments].sort(byTime),
+  ...(session.originalSegments ? { originalSegments: [...session.originalSegments, ...segments].sort(byTime) } : {})
+});
+
+export const restoreOriginal = (session: Session): Session =>
+  session.originalSegments ? recordRevision(session, 'Restored machine transcript', session.originalSegments) : session;
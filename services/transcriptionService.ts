@@ -0,0 +1,106 @@
+import { Session, TranscriptionInfo, TranscriptionProviderId } from '../types';
+import { transcribeVerbose, VerboseTranscription } from './whisperService';
+import { adoptLegacySecret, getSecret, setSecret } from './vaultService';
+
+export interface TranscriptionProvider {
+  id: TranscriptionProviderId;
+  label: string;
+  info: TranscriptionInfo;
+  transcribe: (blob: Blob, options?: { prompt?: string }) => Promise<VerboseTranscription>;
+}
+
+export interface TranscriptionSettings {
+  provider: TranscriptionProviderId;
+  language: string;      // empty means auto-detect
+  groq: { apiKey: string; model: string };
+  openai: { endpoint: string; apiKey: string; model: string };
+}
+
+const SETTINGS_KEY = 'transcription_settings';
+// Where the Groq key lived before API keys moved into the vault's secret store
+const LEGACY_GROQ_KEY = 'groq_api_key';
+const GROQ_TRANSCRIPTION_URL = 'https://api.groq.com/openai/v1/audio/transcriptions';
+
+export const GROQ_MODELS = ['whisper-large-v3', 'whisper-large-v3-turbo'];
+export const DEFAULT_OPENAI_ENDPOINT = 'http://localhost:8000/v1';
+
+export const PROVIDER_LABELS: Record<TranscriptionProviderId, string> = {
+  groq: 'Groq',
+  'openai-compatible': 'OpenAI-compatible'
+};
+
+// Earlier versions kept the OpenAI-compatible key with the rest of these settings
+type StoredSettings = Partial<Pick<TranscriptionSettings, 'provider' | 'language'>> & {
+  groq?: Partial<TranscriptionSettings['groq']>;
+  openai?: Partial<TranscriptionSettings['openai']>;
+};
+
+const adoptLegacyKeys = (stored: StoredSettings): StoredSettings => {
+  const groqKey = localStorage.getItem(LEGACY_GROQ_KEY);
+  if (groqKey === null && !stored.openai?.apiKey) return stored;
+  adoptLegacySecret('groq', groqKey);
+  adoptLegacySecret('openai', stored.openai?.apiKey);
+  localStorage.removeItem(LEGACY_GROQ_KEY);
+  const rest = { ...stored, openai: { ...stored.openai, apiKey: undefined } };
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(rest));
+  return rest;
+};
+
+export const getTranscriptionSettings = (): TranscriptionSettings => {
+  const stored = adoptLegacyKeys(JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}'));
+  return {
+    provider: stored.provider || 'groq',
+    language: stored.language || '',
+    groq: { model: GROQ_MODELS[0], ...stored.groq, apiKey: getSecret('groq') },
+    openai: { endpoint: DEFAULT_OPENAI_ENDPOINT, model: 'whisper-1', ...stored.openai, apiKey: getSecret('openai') }
+  };
+};
+
+export const saveTranscriptionSettings = (settings: TranscriptionSettings) => {
+  setSecret('groq', settings.groq.apiKey);
+  setSecret('openai', settings.openai.apiKey);
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify({
+    provider: settings.provider,
+    language: settings.language.trim().toLowerCase(),
+    groq: { model: settings.groq.model },
+    openai: {
+      endpoint: settings.openai.endpoint.trim().replace(/\/+$/, '') || DEFAULT_OPENAI_ENDPOINT,
+      model: settings.openai.model.trim() || 'whisper-1'
+    }
+  }));
+};
+
+/** Returns a message describing what's missing, or null when the provider can run. */
+export const transcriptionSetupProblem = (settings: TranscriptionSettings): string | null => {
+  if (settings.provider === 'groq' && !settings.groq.apiKey) return "Groq API Key Required. Configure in Settings.";
+  if (settings.provider === 'openai-compatible' && !settings.openai.endpoint) return "Set a transcription endpoint in Settings.";
+  return null;
+};
+
+export const createGroqProvider = (apiKey: string, model: string, language?: string): TranscriptionProvider => ({
+  id: 'groq',
+  label: PROVIDER_LABELS.groq,
+  info: { provider: 'groq', model, language },
+  transcribe: (blob, options) => transcribeVerbose(blob, { url: GROQ_TRANSCRIPTION_URL, apiKey, model, language, prompt: options?.prompt })
+});
+
+/** Any server that implements POST {endpoint}/audio/transcriptions, e.g. faster-whisper or whisper.cpp. */
+export const createOpenAiCompatibleProvider = (endpoint: string, model: string, apiKey?: string, language?: string): TranscriptionProvider => ({
+  id: 'openai-compatible',
+  label: PROVIDER_LABELS['openai-compatible'],
+  info: { provider: 'openai-compatible', model, language },
+  transcribe: (blob, options) => transcribeVerbose(blob, { url: `${endpoint}/audio/transcriptions`, apiKey: apiKey || undefined, model, language, prompt: options?.prompt })
+});
+
+export const getTranscriptionProvider = (settings: TranscriptionSettings = getTranscriptionSettings()): TranscriptionProvider => {
+  const language = settings.language || undefined;
+  return settings.provider === 'openai-compatible'
+    ? createOpenAiCompatibleProvider(settings.openai.endpoint, settings.openai.model, settings.openai.apiKey, language)
+    : createGroqProvider(settings.groq.apiKey, settings.groq.model, language);
+};
+
+/** Fills in the language the engine detected when none was configured. */
+export const withDetectedLanguage = (session: Session, detected?: string): Session =>
+  session.transcription && !session.transcription.language && detected
+    ? { ...session, transcription: { ...session.transcription, language: detected } }
+    : session;
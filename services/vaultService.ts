@@ -0,0 +1,288 @@
+import { STORES, StoreName, openDatabase, withStore } from './database';
+
+// Optional passphrase vault. A random data key encrypts IndexedDB records and
+// API keys; the passphrase only wraps that key, so changing it rewrites one
+// localStorage entry instead of the whole library. Sealed records keep the
+// fields their indexes need in the clear.
+
+const VAULT_KEY = 'vault';
+const SECRETS_KEY = 'api_keys';
+const PBKDF2_ITERATIONS = 600_000;
+const IV_BYTES = 12;
+
+export type SecretName = 'groq' | 'openai' | 'notion' | 'gemini' | 'proxy' | 'sync' | 'feeds';
+type Secrets = Partial<Record<SecretName, string>>;
+
+interface VaultConfig {
+  salt: string;
+  iterations: number;
+  wrappedKey: string;
+  secrets: string;
+}
+
+interface Sealed {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+type SealedRecord = Record<string, unknown> & { sealed: Sealed };
+
+const CLEAR_FIELDS: Partial<Record<StoreName, string[]>> = {
+  [STORES.sessions]: ['id', 'timestamp'],
+  [STORES.actionItems]: ['id', 'sessionId', 'status'],
+  [STORES.jobs]: ['id']
+};
+
+export class VaultLockedError extends Error {
+  constructor() {
+    super("The vault is locked. Unlock it to read your workspace.");
+    this.name = 'VaultLockedError';
+  }
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+let activeKey: CryptoKey | null = null;
+// Current sync key first, then ones replaced by a passphrase change this session
+let syncKeys: CryptoKey[] = [];
+let secrets: Secrets = {};
+let secretWrites: Promise<void> = Promise.resolve();
+
+const getConfig = (): VaultConfig | null => JSON.parse(localStorage.getItem(VAULT_KEY) || 'null');
+const saveConfig = (config: VaultConfig) => localStorage.setItem(VAULT_KEY, JSON.stringify(config));
+
+export const isVaultEnabled = () => getConfig() !== null;
+export const isVaultLocked = () => isVaultEnabled() && !activeKey;
+
+if (!isVaultEnabled()) secrets = JSON.parse(localStorage.getItem(SECRETS_KEY) || '{}');
+
+// --- Crypto primitives ------------------------------------------------------
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+// localStorage only holds strings, so sealed values there are iv + ciphertext in base64
+const pack = ({ iv, data }: Sealed) => {
+  const joined = new Uint8Array(iv.length + data.byteLength);
+  joined.set(iv);
+  joined.set(new Uint8Array(data), iv.length);
+  return toBase64(joined);
+};
+
+const unpack = (text: string): Sealed => {
+  const bytes = fromBase64(text);
+  return { iv: bytes.slice(0, IV_BYTES), data: bytes.slice(IV_BYTES).buffer };
+};
+
+const deriveWrappingKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+};
+
+const seal = async (key: CryptoKey, bytes: BufferSource): Promise<Sealed> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  return { iv, data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes) };
+};
+
+// Synced copies are opened on other devices, which have their own data key and
+// salt. Only the passphrase is shared, so the sync key uses a fixed salt.
+const SYNC_SALT = encoder.encode('transcribeai-pro/workspace-sync/v1');
+
+const deriveSyncKey = async (passphrase: string) => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: SYNC_SALT, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const unseal = (key: CryptoKey, sealed: Sealed) => crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv }, key, sealed.data);
+
+const wrapDataKey = async (passphrase: string, dataKey: CryptoKey) => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const wrappingKey = await deriveWrappingKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const wrapped = await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, { name: 'AES-GCM', iv });
+  return { salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, wrappedKey: pack({ iv, data: wrapped }) };
+};
+
+/** Null when the passphrase is wrong: AES-GCM refuses to unwrap with the wrong key. */
+const unwrapDataKey = async (passphrase: string, config: VaultConfig, extractable = false): Promise<CryptoKey | null> => {
+  const wrappingKey = await deriveWrappingKey(passphrase, fromBase64(config.salt), config.iterations);
+  const { iv, data } = unpack(config.wrappedKey);
+  try {
+    return await crypto.subtle.unwrapKey('raw', data, wrappingKey, { name: 'AES-GCM', iv }, { name: 'AES-GCM' }, extractable, ['encrypt', 'decrypt']);
+  } catch {
+    return null;
+  }
+};
+
+// --- Records -----------------------------------------------------------------
+
+const isSealed = (value: unknown): value is SealedRecord =>
+  Boolean(value && typeof value === 'object' && 'sealed' in value);
+
+const sealRecordWith = async (key: CryptoKey | null, store: StoreName, record: object): Promise<object> => {
+  if (!key) return record;
+  const clear = Object.fromEntries((CLEAR_FIELDS[store] || []).map(field => [field, (record as Record<string, unknown>)[field]]));
+  return { ...clear, sealed: await seal(key, encoder.encode(JSON.stringify(record))) };
+};
+
+const openRecordWith = async <T>(key: CryptoKey | null, raw: unknown): Promise<T> => {
+  if (!isSealed(raw)) return raw as T;
+  if (!key) throw new VaultLockedError();
+  return JSON.parse(decoder.decode(await unseal(key, raw.sealed)));
+};
+
+const sealBlobWith = async (key: CryptoKey | null, blob: Blob): Promise<Blob | SealedRecord> =>
+  key ? { type: blob.type, sealed: await seal(key, await blob.arrayBuffer()) } : blob;
+
+const openBlobWith = async (key: CryptoKey | null, raw: unknown): Promise<Blob> => {
+  if (!isSealed(raw)) return raw as Blob;
+  if (!key) throw new VaultLockedError();
+  return new Blob([await unseal(key, raw.sealed)], { type: String(raw.type || '') });
+};
+
+export const sealRecord = <T extends object>(store: StoreName, record: T) => sealRecordWith(activeKey, store, record);
+export const openRecord = <T>(raw: unknown) => openRecordWith<T>(activeKey, raw);
+export const sealBlob = (blob: Blob) => sealBlobWith(activeKey, blob);
+export const openBlob = (raw: unknown) => openBlobWith(activeKey, raw);
+
+const readKeys = async (name: StoreName): Promise<IDBValidKey[]> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(name, 'readonly').objectStore(name).getAllKeys();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// One record at a time so recordings never have to sit in memory together.
+// Plain and sealed records both open, so an interrupted pass is safe to repeat.
+const rekeyDatabase = async (from: CryptoKey | null, to: CryptoKey | null) => {
+  for (const name of Object.values(STORES)) {
+    const outOfLine = name === STORES.recordings || name === STORES.jobAudio;
+    for (const id of await readKeys(name)) {
+      const raw = await withStore<unknown>(name, 'readonly', store => store.get(id));
+      if (raw === undefined) continue;
+      const value = outOfLine
+        ? await sealBlobWith(to, await openBlobWith(from, raw))
+        : await sealRecordWith(to, name, await openRecordWith<object>(from, raw));
+      await withStore(name, 'readwrite', store => outOfLine ? store.put(value, id) : store.put(value));
+    }
+  }
+};
+
+// --- Vault lifecycle -----------------------------------------------------------
+
+const sealSecrets = async (key: CryptoKey, value: Secrets) => pack(await seal(key, encoder.encode(JSON.stringify(value))));
+
+export const unlockVault = async (passphrase: string): Promise<boolean> => {
+  const config = getConfig();
+  if (!config) return true;
+  const key = await unwrapDataKey(passphrase, config);
+  if (!key) return false;
+  secrets = JSON.parse(decoder.decode(await unseal(key, unpack(config.secrets))));
+  syncKeys = [await deriveSyncKey(passphrase)];
+  activeKey = key;
+  return true;
+};
+
+export const lockVault = () => {
+  if (!isVaultEnabled()) return;
+  activeKey = null;
+  syncKeys = [];
+  secrets = {};
+};
+
+export const enableVault = async (passphrase: string): Promise<void> => {
+  if (isVaultEnabled()) return;
+  const dataKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  const wrapped = await wrapDataKey(passphrase, dataKey);
+  // Config first: a half-finished pass leaves sealed records that this key can still open
+  saveConfig({ ...wrapped, secrets: await sealSecrets(dataKey, secrets) });
+  localStorage.removeItem(SECRETS_KEY);
+  activeKey = await unwrapDataKey(passphrase, getConfig()!);
+  syncKeys = [await deriveSyncKey(passphrase)];
+  await rekeyDatabase(null, activeKey);
+};
+
+export const changePassphrase = async (current: string, next: string): Promise<boolean> => {
+  const config = getConfig();
+  if (!config) return false;
+  const dataKey = await unwrapDataKey(current, config, true);
+  if (!dataKey) return false;
+  saveConfig({ ...config, ...(await wrapDataKey(next, dataKey)) });
+  syncKeys = [await deriveSyncKey(next), ...syncKeys];
+  return true;
+};
+
+export const disableVault = async (passphrase: string): Promise<boolean> => {
+  const config = getConfig();
+  if (!config) return true;
+  const key = await unwrapDataKey(passphrase, config);
+  if (!key) return false;
+  await rekeyDatabase(key, null);
+  localStorage.setItem(SECRETS_KEY, JSON.stringify(secrets));
+  localStorage.removeItem(VAULT_KEY);
+  activeKey = null;
+  syncKeys = [];
+  return true;
+};
+
+// --- API keys ------------------------------------------------------------------
+
+export const getSecret = (name: SecretName): string => secrets[name] || '';
+
+export const setSecret = (name: SecretName, value: string) => {
+  const trimmed = value.trim();
+  if (trimmed) secrets = { ...secrets, [name]: trimmed };
+  else {
+    secrets = { ...secrets };
+    delete secrets[name];
+  }
+  const snapshot = secrets;
+  secretWrites = secretWrites.then(async () => {
+    const config = getConfig();
+    if (!config) localStorage.setItem(SECRETS_KEY, JSON.stringify(snapshot));
+    else if (activeKey) saveConfig({ ...config, secrets: await sealSecrets(activeKey, snapshot) });
+  }).catch(console.error);
+};
+
+/** Moves a key saved by an older version out of plain settings storage. */
+export const adoptLegacySecret = (name: SecretName, value: string | null | undefined) => {
+  if (value && !getSecret(name)) setSecret(name, value);
+};
+
+// --- Sync ----------------------------------------------------------------------
+
+/** Null when the vault is off: the synced copy is then plain JSON. */
+export const sealForSync = async (text: string): Promise<string | null> =>
+  syncKeys.length > 0 ? pack(await seal(syncKeys[0], encoder.encode(text))) : null;
+
+/** Null when no key this device holds opens it, e.g. another device uses a different passphrase. */
+export const openFromSync = async (packed: string): Promise<string | null> => {
+  for (const key of syncKeys) {
+    try {
+      return decoder.decode(await unseal(key, unpack(packed)));
+    } catch {
+      // try the next key
+    }
+  }
+  return null;
+};
@@ -0,0 +1,77 @@
+// Verbose Whisper transcription against any OpenAI-compatible
+// /audio/transcriptions endpoint. Unlike a plain text response, verbose_json
+// keeps per-segment timings that diarization and seeking rely on.
+
+export interface WhisperSegment {
+  start: number;  // seconds from the start of the uploaded audio
+  end: number;
+  text: string;
+}
+
+export interface WhisperWord {
+  word: string;
+  start: number;  // seconds
+  end: number;
+}
+
+export interface VerboseTranscription {
+  text: string;
+  language?: string;
+  duration?: number;
+  segments: WhisperSegment[];
+  words: WhisperWord[];
+}
+
+// What the endpoint sends back; servers disagree on which fields they include
+interface VerboseResponse {
+  text?: string;
+  language?: string;
+  duration?: number;
+  segments?: WhisperSegment[];
+  words?: WhisperWord[];
+}
+
+export interface WhisperRequest {
+  url: string;
+  model: string;
+  apiKey?: string;       // self-hosted servers usually run without one
+  language?: string;     // ISO-639-1 hint; omitted to auto-detect
+  prompt?: string;       // spelling hints for names and jargon
+}
+
+const fileNameFor = (blob: Blob): string => {
+  if (blob instanceof File) return blob.name;
+  const extension = blob.type.split('/')[1]?.split(';')[0] || 'webm';
+  return `audio.${extension}`;
+};
+
+export const transcribeVerbose = async (blob: Blob, request: WhisperRequest): Promise<VerboseTranscription> => {
+  const form = new FormData();
+  form.append('file', blob, fileNameFor(blob));
+  form.append('model', request.model);
+  if (request.language) form.append('language', request.language);
+  if (request.prompt) form.append('prompt', request.prompt);
+  form.append('response_format', 'verbose_json');
+  form.append('timestamp_granularities[]', 'segment');
+  form.append('timestamp_granularities[]', 'word');
+
+  const response = await fetch(request.url, {
+    method: 'POST',
+    headers: request.apiKey ? { Authorization: `Bearer ${request.apiKey}` } : {},
+    body: form
+  });
+  if (!response.ok) {
+    const detail = await response.json().catch(() => null);
+    throw new Error(detail?.error?.message || `Whisper request failed (${response.status}).`);
+  }
+
+  const data: VerboseResponse = await response.json();
+  return {
+    text: data.text || '',
+    language: data.language,
+    duration: data.duration,
+    segments: (data.segments || []).map(s => ({ start: s.start, end: s.end, text: s.text.trim() })),
+    // Not every self-hosted server supports word granularity
+    words: (data.words || []).map(w => ({ word: w.word.trim(), start: w.start, end: w.end }))
+  };
+};
@@ -4,11 +4,20 @@ export interface User {
   name: string;
 }
 
+export interface WordTiming {
+  text: string;
+  startMs: number;
+  endMs: number;
+}
+
 export interface TranscriptionSegment {
   id: string;
   text: string;
-  speaker: 'user' | 'ai';
+  speaker: string;   // diarized label, e.g. "Speaker 1"
   timestamp: number;
+  startMs?: number;  // position in the session audio (pauses excluded)
+  endMs?: number;
+  words?: WordTiming[];
 }
 
 export interface AnalysisResult {
@@ -17,13 +26,134 @@ export interface AnalysisResult {
   actionItems: string[];
 }
 
+export type ActionItemStatus = 'open' | 'done' | 'dismissed';
+
+export interface ActionItem {
+  id: string;
+  text: string;
+  owner?: string;
+  dueDate?: string;      // YYYY-MM-DD
+  status: ActionItemStatus;
+  sessionId: string;
+  segmentId?: string;
+  createdAt: number;
+  updatedAt: number;
+  edited?: boolean;      // touched by the user, so re-analysis leaves it alone
+}
+
+export interface ChatCitation {
+  sessionId: string;
+  segmentId: string;
+  label: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  citations?: ChatCitation[];
+}
+
+export interface AnalysisTemplate {
+  id: string;
+  name: string;
+  instructions: string;
+  schema: Record<string, unknown>;  // JSON schema the model's answer must follow
+  builtIn?: boolean;
+}
+
+export interface TemplateAnalysis {
+  id: string;
+  templateId: string;
+  templateName: string;
+  createdAt: number;
+  result: Record<string, unknown>;
+}
+
+export interface PauseInterval {
+  start: number;  // epoch ms
+  end?: number;   // epoch ms, unset while still paused
+}
+
+export type PostProcessingRuleKind = 'literal' | 'regex' | 'fillers' | 'numbers';
+
+export interface PostProcessingRule {
+  id: string;
+  kind: PostProcessingRuleKind;
+  enabled: boolean;
+  find?: string;         // literal text or pattern, for literal/regex rules
+  replace?: string;      // regex rules may use $1-style groups
+  caseSensitive?: boolean;
+}
+
+// The segments an edit replaced. It is anchored by id, not position, because
+// chunks that finish transcribing later are inserted without a revision.
+export interface TranscriptSplice {
+  after: string | null;            // segment just before the change; null at the start
+  removed: TranscriptionSegment[];
+  inserted: string[];              // ids of the segments that took their place
+}
+
+// How to undo one edit. Sessions saved before splices were introduced hold a
+// full snapshot in `segments` instead.
+export interface TranscriptRevision {
+  id: string;
+  createdAt: number;
+  description: string;
+  splice?: TranscriptSplice;
+  segments?: TranscriptionSegment[];
+}
+
+export type TranscriptionProviderId = 'groq' | 'openai-compatible';
+
+// Which engine produced a session's transcript
+export interface TranscriptionInfo {
+  provider: TranscriptionProviderId;
+  model: string;
+  language?: string;     // configured hint, or what the engine detected
+}
+
 export interface Session {
   id: string;
   title: string;
   timestamp: number;
   segments: TranscriptionSegment[];
   analysis?: AnalysisResult;
-  duration?: number;
+  analyses?: TemplateAnalysis[];   // latest result per non-summary template
+  duration?: number;     // recorded seconds, excluding pauses
+  pauses?: PauseInterval[];
+  speakerNames?: Record<string, string>;  // speaker label -> display name
+  hasAudio?: boolean;
+  notionPageId?: string;
+  notionUrl?: string;
+  transcription?: TranscriptionInfo;
+  originalSegments?: TranscriptionSegment[];   // machine transcript, captured before the first edit
+  revisions?: TranscriptRevision[];
+  folderId?: string;
+  tags?: string[];
+  pinned?: boolean;
+  eventId?: string;      // calendar occurrence the session was recorded for
+  updatedAt?: number;    // last local write, used to merge backups and sync
+  location?: string;
+  attendees?: string[];
+}
+
+export interface LibraryFolder {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export type ImportStatus = 'queued' | 'processing' | 'done' | 'error';
+
+export interface ImportJob {
+  id: string;
+  fileName: string;
+  size: number;
+  status: ImportStatus;
+  progress: number;   // 0-1
+  sessionId?: string;
+  error?: string;
 }
 
 export enum AppMode {
@@ -33,16 +163,56 @@ export enum AppMode {
   CALENDAR = 'CALENDAR',
   LIBRARY = 'LIBRARY',
   SETTINGS = 'SETTINGS',
-  SEARCH = 'SEARCH'
+  SEARCH = 'SEARCH',
+  ACTIONS = 'ACTIONS'
+}
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RecurrenceWeekday {
+  weekday: number;     // 0-6 (Sunday-Saturday)
+  ordinal?: number;    // 2 = second, -1 = last; only meaningful for monthly/yearly rules
+}
+
+// The subset of an RFC 5545 RRULE that calendar exports use in practice
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  until?: number;      // epoch ms, inclusive
+  byDay?: RecurrenceWeekday[];
+  byMonthDay?: number[];
+  byMonth?: number[];  // 1-12
+  bySetPos?: number[];
+  weekStart: number;   // 0-6, defaults to Monday
+}
+
+export interface CalendarFeed {
+  id: string;
+  name: string;
+  url: string;
+  lastSyncedAt?: number;
+  lastError?: string;
 }
 
 export interface CalendarEvent {
   id: string;
   title: string;
-  startTime: string; // HH:mm format
+  startTime: string; // HH:mm format, local time of the (first) occurrence
   endTime: string;   // HH:mm format
   days: number[];    // 0-6 (Sunday-Saturday)
   date?: string;     // YYYY-MM-DD
   location?: string;
-  isExternal?: boolean;
+  isExternal?: boolean;    // owned by a subscribed feed and replaced whenever it refreshes
+  feedId?: string;
+  uid?: string;
+  start?: number;          // epoch ms of DTSTART, or of this occurrence once expanded
+  end?: number;            // epoch ms, exclusive
+  allDay?: boolean;
+  timeZone?: string;       // IANA zone the wall-clock times recur in; floating when absent
+  rrule?: RecurrenceRule;
+  exdates?: number[];      // epoch ms of cancelled occurrences
+  recurrenceId?: number;   // set on an override of one occurrence of the series with the same uid
+  seriesId?: string;       // id of the recurring event an occurrence was expanded from
+  attendees?: string[];
 }
@@ -1,29 +1,22 @@
 import path from "path";
-import { defineConfig, loadEnv } from "vite";
+import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 
-export default defineConfig(({ mode }) => {
-  const env = loadEnv(mode, ".", "");
+// API keys are entered in the app at runtime (or held by proxy/ai-proxy.mjs),
+// so nothing secret is compiled into the bundle.
+export default defineConfig({
+  base: "/transcribeaipro/",
 
-  return {
-    base: "/transcribeaipro/",
+  server: {
+    port: 3000,
+    host: "0.0.0.0"
+  },
 
-    server: {
-      port: 3000,
-      host: "0.0.0.0"
-    },
+  plugins: [react()],
 
-    plugins: [react()],
-
-    define: {
-      "process.env.API_KEY": JSON.stringify(env.GEMINI_API_KEY),
-      "process.env.GEMINI_API_KEY": JSON.stringify(env.GEMINI_API_KEY)
-    },
-
-    resolve: {
-      alias: {
-        "@": path.resolve(__dirname, ".")
-      }
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, ".")
     }
-  };
+  }
 });
@@ -0,0 +1,11 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    environment: "node",
+    include: ["**/*.test.ts"],
+    exclude: ["node_modules/**", "dist/**"],
+    // Floating and all-day times are local; pin the zone so results don't depend on the machine
+    env: { TZ: "UTC" }
+  }
+});